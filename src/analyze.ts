@@ -1,20 +1,33 @@
 import path from "node:path";
 import os from "node:os";
 import { promises as fs } from "node:fs";
-import type { OverallResult, PackageAnalysis, ScanOptions, Severity } from "./types.js";
+import type { OverallResult, PackageAnalysis, PackageUsageStats, ScanOptions, Severity } from "./types.js";
 import { exec } from "./spawn.js";
 import { fileExists, normalizeRepoPath, readJsonFile, truncateLines } from "./util.js";
-import { calculatePackageStats, calculateFindingsSummary, detectLockfileSignals, detectNativeAddonRiskV2, detectScriptRisks, detectRuntimeApiRisks, detectPmAssumptions, summarizeSeverity } from "./heuristics.js";
+import { calculatePackageStats, calculateFindingsSummary, detectLockfileSignals, detectNativeAddonRiskV2, detectScriptRisks, detectRuntimeApiRisks, detectPmAssumptions, detectNodeFlags, detectTransitiveInstallScripts, detectRegistryConfig, detectOverrides, detectDependencySpecifiers, detectPatches, detectTestRunners, detectToolchain, detectTsconfig, detectBunReplacements, detectRedundantPolyfills, detectFrameworks, detectPlatformTarget, summarizeSeverity } from "./heuristics.js";
+import { findLockfile } from "./lockfile.js";
+import { scanInstalledNativeAddons } from "./native_evidence.js";
+import { readRegistryConfig } from "./registry_config.js";
+import { readGitPrepareScripts } from "./dep_specifiers.js";
+import { collectPatches } from "./patches.js";
+import { profileTestRunners } from "./test_runners.js";
+import { profileFrameworks } from "./frameworks.js";
+import { resolvePlatformTarget } from "./platforms.js";
+import { collectToolchain, DEFAULT_TOOLCHAIN_TARGET, toolchainTarget } from "./toolchain.js";
+import { readTsconfig } from "./tsconfig.js";
 import { analyzePackageUsageAsync } from "./usage_analyzer.js";
+import { findPolyfills } from "./polyfills.js";
 import { parseInstallLogs, getInstallSeverity } from "./bun_logs.js";
 import { discoverWorkspaces, hasWorkspaces, type WorkspacePackage } from "./workspaces.js";
 import { readConfig } from "./config.js";
+import { resolveBunVersion } from "./bun_check.js";
+import { BUNDLED_COMPAT_DB, loadCompatDb, type CompatDb } from "./compat_db.js";
 import type { PackageJson } from "./internal_types.js";
 
 /**
  * Read package.json and gather basic info about a package
  */
-async function readRepoInfo(packagePath: string): Promise<{
+export async function readRepoInfo(packagePath: string): Promise<{
   pkg: PackageJson;
   scripts: Record<string, string>;
   dependencies: Record<string, string>;
@@ -61,7 +74,7 @@ async function copyIfExists(from: string, to: string): Promise<void> {
 /**
  * Run bun install --dry-run in a temp directory
  */
-async function runBunInstallDryRun(packagePath: string): Promise<{
+export async function runBunInstallDryRun(packagePath: string): Promise<{
   ok: boolean;
   summary: string;
   logs: string[];
@@ -99,6 +112,9 @@ async function runBunInstallDryRun(packagePath: string): Promise<{
     await copyIfExists(path.join(packagePath, "package-lock.json"), path.join(base, "package-lock.json"));
     await copyIfExists(path.join(packagePath, "yarn.lock"), path.join(base, "yarn.lock"));
     await copyIfExists(path.join(packagePath, "pnpm-lock.yaml"), path.join(base, "pnpm-lock.yaml"));
+    // Registry and auth settings, so private registries resolve the same way as in the repo
+    await copyIfExists(path.join(packagePath, ".npmrc"), path.join(base, ".npmrc"));
+    await copyIfExists(path.join(packagePath, "bunfig.toml"), path.join(base, "bunfig.toml"));
 
     const res = await exec("bun", ["install", "--dry-run"], base);
     const combined = [...(res.stdout ? res.stdout.split("\n") : []), ...(res.stderr ? res.stderr.split("\n") : [])].filter((l) => l.trim().length > 0);
@@ -241,18 +257,67 @@ export async function analyzeSinglePackage(
   packagePath: string,
   opts: ScanOptions,
   config: import("./types.js").BunReadyConfig | null,
-  pkgName?: string
+  pkgName?: string,
+  compatDb: CompatDb = BUNDLED_COMPAT_DB
 ): Promise<PackageAnalysis> {
   const info = await readRepoInfo(packagePath);
   const name = pkgName || info.pkg.name || path.basename(packagePath);
+  const lock = await findLockfile([packagePath, normalizeRepoPath(opts.repoPath)]);
+  // Bun reads trustedDependencies from the root package.json, so it covers workspace members too
+  const rootTrusted = path.resolve(packagePath) === normalizeRepoPath(opts.repoPath)
+    ? []
+    : await readJsonFile<PackageJson>(path.join(normalizeRepoPath(opts.repoPath), "package.json")).then((p) => p.trustedDependencies ?? [], () => []);
+  const installedNative = await scanInstalledNativeAddons(
+    [packagePath, normalizeRepoPath(opts.repoPath)],
+    Object.keys({ ...info.dependencies, ...info.devDependencies, ...info.optionalDependencies })
+  );
+  const registry = await readRegistryConfig([packagePath, normalizeRepoPath(opts.repoPath)]);
+  const prepareScripts = await readGitPrepareScripts(
+    [packagePath, normalizeRepoPath(opts.repoPath)],
+    { ...info.dependencies, ...info.devDependencies, ...info.optionalDependencies }
+  );
+  const patches = await collectPatches(packagePath, info.pkg, lock, [packagePath, normalizeRepoPath(opts.repoPath)]);
+  const testRunners = await profileTestRunners(packagePath, info.pkg);
+  const toolchain = await collectToolchain(
+    info.pkg,
+    [packagePath, normalizeRepoPath(opts.repoPath)],
+    opts.bunVersion ? toolchainTarget(opts.bunVersion) : DEFAULT_TOOLCHAIN_TARGET
+  );
+  const tsconfig = await readTsconfig([packagePath, normalizeRepoPath(opts.repoPath)]);
+  const frameworks = await profileFrameworks(packagePath, info.pkg, tsconfig);
+  const platform = await resolvePlatformTarget(packagePath, info.pkg);
+
+  // Usage is needed for the detailed report, and to locate redundant polyfills
+  let usage: PackageUsageStats | null = null;
+  if (opts.detailed || findPolyfills({ ...info.dependencies, ...info.devDependencies }).length > 0) {
+    try {
+      usage = await analyzePackageUsageAsync(info.pkg, packagePath, true);
+    } catch (error) {
+      // Silently fail if usage analysis fails
+      // This should not break the overall analysis
+    }
+  }
 
   // Run all heuristics
   let findings = [
     ...detectLockfileSignals({ packageJsonPath: packagePath, lockfiles: info.lockfiles, scripts: info.scripts, dependencies: info.dependencies, devDependencies: info.devDependencies, optionalDependencies: info.optionalDependencies, hasWorkspaces: false, packageJson: info.pkg }),
     ...detectScriptRisks({ packageJsonPath: packagePath, lockfiles: info.lockfiles, scripts: info.scripts, dependencies: info.dependencies, devDependencies: info.devDependencies, optionalDependencies: info.optionalDependencies, hasWorkspaces: false, packageJson: info.pkg }),
-    ...detectNativeAddonRiskV2({ packageJsonPath: packagePath, lockfiles: info.lockfiles, scripts: info.scripts, dependencies: info.dependencies, devDependencies: info.devDependencies, optionalDependencies: info.optionalDependencies, hasWorkspaces: false, packageJson: info.pkg }, config || undefined),
-    ...detectRuntimeApiRisks({ packageJsonPath: packagePath, lockfiles: info.lockfiles, scripts: info.scripts, dependencies: info.dependencies, devDependencies: info.devDependencies, optionalDependencies: info.optionalDependencies, hasWorkspaces: false, packageJson: info.pkg }),
-    ...detectPmAssumptions({ packageJsonPath: packagePath, lockfiles: info.lockfiles, scripts: info.scripts, dependencies: info.dependencies, devDependencies: info.devDependencies, optionalDependencies: info.optionalDependencies, hasWorkspaces: false, packageJson: info.pkg })
+    ...detectNativeAddonRiskV2({ packageJsonPath: packagePath, lockfiles: info.lockfiles, scripts: info.scripts, dependencies: info.dependencies, devDependencies: info.devDependencies, optionalDependencies: info.optionalDependencies, hasWorkspaces: false, packageJson: info.pkg }, config || undefined, installedNative, compatDb),
+    ...detectRuntimeApiRisks({ packageJsonPath: packagePath, lockfiles: info.lockfiles, scripts: info.scripts, dependencies: info.dependencies, devDependencies: info.devDependencies, optionalDependencies: info.optionalDependencies, hasWorkspaces: false, packageJson: info.pkg }, testRunners, compatDb, toolchain),
+    ...detectPmAssumptions({ packageJsonPath: packagePath, lockfiles: info.lockfiles, scripts: info.scripts, dependencies: info.dependencies, devDependencies: info.devDependencies, optionalDependencies: info.optionalDependencies, hasWorkspaces: false, packageJson: info.pkg }),
+    ...detectNodeFlags({ packageJsonPath: packagePath, lockfiles: info.lockfiles, scripts: info.scripts, dependencies: info.dependencies, devDependencies: info.devDependencies, optionalDependencies: info.optionalDependencies, hasWorkspaces: false, packageJson: info.pkg }),
+    ...detectTransitiveInstallScripts({ packageJsonPath: packagePath, lockfiles: info.lockfiles, scripts: info.scripts, dependencies: info.dependencies, devDependencies: info.devDependencies, optionalDependencies: info.optionalDependencies, hasWorkspaces: false, packageJson: info.pkg }, lock, rootTrusted),
+    ...detectRegistryConfig({ packageJsonPath: packagePath, lockfiles: info.lockfiles, scripts: info.scripts, dependencies: info.dependencies, devDependencies: info.devDependencies, optionalDependencies: info.optionalDependencies, hasWorkspaces: false, packageJson: info.pkg }, registry),
+    ...detectOverrides({ packageJsonPath: packagePath, lockfiles: info.lockfiles, scripts: info.scripts, dependencies: info.dependencies, devDependencies: info.devDependencies, optionalDependencies: info.optionalDependencies, hasWorkspaces: false, packageJson: info.pkg }),
+    ...detectDependencySpecifiers({ packageJsonPath: packagePath, lockfiles: info.lockfiles, scripts: info.scripts, dependencies: info.dependencies, devDependencies: info.devDependencies, optionalDependencies: info.optionalDependencies, hasWorkspaces: false, packageJson: info.pkg }, prepareScripts),
+    ...detectPatches({ packageJsonPath: packagePath, lockfiles: info.lockfiles, scripts: info.scripts, dependencies: info.dependencies, devDependencies: info.devDependencies, optionalDependencies: info.optionalDependencies, hasWorkspaces: false, packageJson: info.pkg }, patches),
+    ...detectTestRunners({ packageJsonPath: packagePath, lockfiles: info.lockfiles, scripts: info.scripts, dependencies: info.dependencies, devDependencies: info.devDependencies, optionalDependencies: info.optionalDependencies, hasWorkspaces: false, packageJson: info.pkg }, testRunners),
+    ...detectToolchain({ packageJsonPath: packagePath, lockfiles: info.lockfiles, scripts: info.scripts, dependencies: info.dependencies, devDependencies: info.devDependencies, optionalDependencies: info.optionalDependencies, hasWorkspaces: false, packageJson: info.pkg }, toolchain),
+    ...detectTsconfig({ packageJsonPath: packagePath, lockfiles: info.lockfiles, scripts: info.scripts, dependencies: info.dependencies, devDependencies: info.devDependencies, optionalDependencies: info.optionalDependencies, hasWorkspaces: false, packageJson: info.pkg }, tsconfig),
+    ...detectBunReplacements({ packageJsonPath: packagePath, lockfiles: info.lockfiles, scripts: info.scripts, dependencies: info.dependencies, devDependencies: info.devDependencies, optionalDependencies: info.optionalDependencies, hasWorkspaces: false, packageJson: info.pkg }),
+    ...detectRedundantPolyfills({ packageJsonPath: packagePath, lockfiles: info.lockfiles, scripts: info.scripts, dependencies: info.dependencies, devDependencies: info.devDependencies, optionalDependencies: info.optionalDependencies, hasWorkspaces: false, packageJson: info.pkg }, usage),
+    ...detectFrameworks({ packageJsonPath: packagePath, lockfiles: info.lockfiles, scripts: info.scripts, dependencies: info.dependencies, devDependencies: info.devDependencies, optionalDependencies: info.optionalDependencies, hasWorkspaces: false, packageJson: info.pkg }, frameworks),
+    ...detectPlatformTarget({ packageJsonPath: packagePath, lockfiles: info.lockfiles, scripts: info.scripts, dependencies: info.dependencies, devDependencies: info.devDependencies, optionalDependencies: info.optionalDependencies, hasWorkspaces: false, packageJson: info.pkg }, platform)
   ];
 
   // Filter findings based on config
@@ -281,6 +346,7 @@ export async function analyzeSinglePackage(
         hints: [
           "Bun blocks lifecycle scripts of dependencies unless they are in trustedDependencies.",
           "Add the blocked packages to trustedDependencies in root package.json.",
+          "Run `bun-ready trust <path>` to review their scripts and generate a ready-to-paste trustedDependencies block.",
           "Review if these packages are necessary or can be replaced with alternatives."
         ]
       });
@@ -353,16 +419,10 @@ export async function analyzeSinglePackage(
   // Calculate findings summary
   const findingsSummary = calculateFindingsSummary(findings);
 
-  // Analyze package usage (if detailed mode)
+  // Package usage is only reported in detailed mode
   let packageUsage: PackageAnalysis["packageUsage"];
-  if (opts.detailed) {
-    try {
-      const usage = await analyzePackageUsageAsync(info.pkg, packagePath, true);
-      packageUsage = usage;
-    } catch (error) {
-      // Silently fail if usage analysis fails
-      // This should not break the overall analysis
-    }
+  if (opts.detailed && usage) {
+    packageUsage = usage;
   }
 
   // Build summary lines
@@ -372,6 +432,9 @@ export async function analyzeSinglePackage(
   summaryLines.push(`Native addon risk: ${findings.some((f) => f.id === "deps.native_addons") ? "yes" : "no"}`);
   summaryLines.push(`bun install dry-run: ${install ? (install.ok ? "ok" : "failed") : "skipped"}`);
   summaryLines.push(`bun test: ${test ? (test.ok ? "ok" : "failed") : "skipped"}`);
+  if (platform) {
+    summaryLines.push(`Platform target: ${platform.label} (not applicable, excluded from the overall verdict)`);
+  }
 
   // Класифікувати пакети за статусом
   const packageStatus = classifyPackageStatus(
@@ -405,22 +468,31 @@ export async function analyzeSinglePackage(
   if (packageUsage !== undefined) {
     result.packageUsage = packageUsage;
   }
+  if (frameworks.length > 0) {
+    result.frameworks = frameworks;
+  }
+  if (platform) {
+    result.notApplicable = platform;
+  }
 
   return result;
 }
 
 /**
  * Aggregate severity from multiple packages
+ * - Packages that target another platform (notApplicable) are skipped
  */
 function aggregateSeverity(packages: PackageAnalysis[], overallSeverity: Severity): Severity {
   if (overallSeverity === "red") return "red";
   if (overallSeverity === "yellow") return "yellow";
+
+  const applicable = packages.filter((pkg) => !pkg.notApplicable);
   
-  for (const pkg of packages) {
+  for (const pkg of applicable) {
     if (pkg.severity === "red") return "red";
   }
   
-  for (const pkg of packages) {
+  for (const pkg of applicable) {
     if (pkg.severity === "yellow") return "yellow";
   }
   
@@ -435,8 +507,13 @@ export async function analyzeRepoOverall(opts: ScanOptions): Promise<OverallResu
   const packageJsonPath = path.join(repoPath, "package.json");
   const hasPkg = await fileExists(packageJsonPath);
 
-  // Load config
+  // Load config and the compatibility database (with the repo overlay, if any)
   const config = await readConfig(repoPath);
+  const compat = await loadCompatDb(repoPath, config);
+  if (compat.error) {
+    process.stderr.write(`Warning: compatibility database overlay not applied: ${compat.error}\n`);
+  }
+  const bunVersion = await resolveBunVersion(opts.bunVersion);
 
   // Check for missing package.json
   if (!hasPkg) {
@@ -513,7 +590,7 @@ export async function analyzeRepoOverall(opts: ScanOptions): Promise<OverallResu
   const packages: PackageAnalysis[] = [];
   for (const packagePath of packagesToAnalyze) {
     const wp = workspacePackages.find((w) => w.path === packagePath);
-    const analysis = await analyzeSinglePackage(packagePath, opts, config, wp?.name);
+    const analysis = await analyzeSinglePackage(packagePath, { ...opts, bunVersion: bunVersion?.version }, config, wp?.name, compat.db);
     packages.push(analysis);
   }
 
@@ -523,8 +600,8 @@ export async function analyzeRepoOverall(opts: ScanOptions): Promise<OverallResu
   // Calculate overall severity
   let overallSeverity: Severity = "green";
   
-  // Consider root severity
-  if (rootAnalysis) {
+  // Consider root severity, unless the root targets another platform
+  if (rootAnalysis && !rootAnalysis.notApplicable) {
     overallSeverity = rootAnalysis.severity;
   }
   
@@ -541,8 +618,13 @@ export async function analyzeRepoOverall(opts: ScanOptions): Promise<OverallResu
   if (rootHasWorkspaces) {
     overallSummaryLines.push(`Workspace packages: ${workspacePackages.length}`);
   }
-  overallSummaryLines.push(`Root package severity: ${rootAnalysis ? rootAnalysis.severity : "unknown"}`);
+  overallSummaryLines.push(`Root package severity: ${rootAnalysis ? (rootAnalysis.notApplicable ? `not applicable (${rootAnalysis.notApplicable.label})` : rootAnalysis.severity) : "unknown"}`);
+  const notApplicable = packages.filter((p) => p.notApplicable);
+  if (notApplicable.length > 0) {
+    overallSummaryLines.push(`Not applicable (platform targets): ${notApplicable.map((p) => `${p.name} (${p.notApplicable!.label})`).join(", ")}`);
+  }
   overallSummaryLines.push(`Overall severity: ${overallSeverity}`);
+  overallSummaryLines.push(`Target Bun version: ${bunVersion ? `${bunVersion.version} (${bunVersion.source === "option" ? "--bun-version" : "installed"})` : "unknown (Bun not installed, pass --bun-version)"}`);
 
   // Return overall result
   return {
@@ -566,7 +648,8 @@ export async function analyzeRepoOverall(opts: ScanOptions): Promise<OverallResu
       optionalDependencies: rootInfo.optionalDependencies
     },
     packages,
-    config
+    config,
+    bunVersion
   };
 }
 
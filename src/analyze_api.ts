@@ -7,11 +7,12 @@
 
 import { promises as fs } from 'node:fs';
 import path from 'node:path';
-import type { Finding } from './types.js';
+import type { BunVersionInfo, Finding } from './types.js';
 import { 
   isNodeBuiltinImport, 
   getModuleCategory, 
   getNodeModule,
+  getNodeExport,
   hasNodePrefix,
   type ModuleCategory 
 } from './node_builtins.js';
@@ -21,12 +22,9 @@ import {
   type ImportType 
 } from './import_parser.js';
 import { stableSort } from './util.js';
-
-// Source file extensions to analyze
-const SOURCE_EXTENSIONS = new Set(['.ts', '.js', '.tsx', '.jsx', '.mts', '.mjs', '.cts', '.cjs']);
-
-// Directories to skip
-const SKIP_DIRS = new Set(['node_modules', '.git', '.svn', '.hg', 'dist', 'build', 'out', '.next', '.nuxt']);
+import { getSourceFiles, SKIP_DIRS } from './source_files.js';
+import { categoryForBun, type CompatDb } from './compat_db.js';
+import { probeLookup, type BuiltinProbeResult } from './builtin_probe.js';
 
 /**
  * API usage information for a single module
@@ -49,6 +47,42 @@ export interface ModuleUsageInfo {
   bunAlternatives?: string[];
   /** Additional notes */
   notes?: string;
+  /** Used exports that have their own compatibility entry */
+  members: MemberUsageInfo[];
+}
+
+/**
+ * A single use of a module export with member-level compatibility info
+ */
+export interface MemberUsageInfo {
+  /** Export name (e.g., 'watch') */
+  name: string;
+  category: ModuleCategory;
+  notes?: string;
+  path: string;
+  line: number;
+}
+
+/**
+ * How Bun populates an npm_* environment variable
+ * - same: `bun run` sets it with the value npm would
+ * - different: set, but the value differs (points at Bun)
+ * - missing: never set by `bun run`
+ */
+export type NpmEnvSupport = 'same' | 'different' | 'missing';
+
+/**
+ * A single process.env.npm_* / Bun.env.npm_* read
+ */
+export interface NpmEnvReadInfo {
+  /** Variable name (e.g., 'npm_package_version') */
+  name: string;
+  /** Where it is read from */
+  source: 'process.env' | 'Bun.env';
+  file: string;
+  line: number;
+  support: NpmEnvSupport;
+  note: string;
 }
 
 /**
@@ -59,6 +93,8 @@ export interface ApiAnalysisResult {
   findings: Finding[];
   /** Usage info by module */
   usageByModule: Map<string, ModuleUsageInfo>;
+  /** npm_* environment variable reads */
+  npmEnvReads: NpmEnvReadInfo[];
   /** Summary statistics */
   summary: {
     totalFiles: number;
@@ -67,6 +103,10 @@ export interface ApiAnalysisResult {
     yellowZone: string[];
     redZone: string[];
     withoutNodePrefix: string[];
+    npmEnvVars: string[];
+    memberApis: string[];
+    /** Probed exports that are missing under Bun (e.g., 'fs.someExport'), when a probe ran */
+    probedMissing?: string[];
   };
 }
 
@@ -82,39 +122,100 @@ export interface ApiAnalysisOptions {
   skipDirs?: Set<string>;
   /** Verbose output */
   verbose?: boolean;
+  /** Compatibility database with the repo overlay applied (defaults to the bundled one) */
+  compatDb?: CompatDb;
+  /** Bun version to grade against (fixedIn / brokenIn entries); null grades without one */
+  bunVersion?: BunVersionInfo | null;
+  /** Builtin exports probed from the local Bun; overrides the static entries where they disagree */
+  probe?: BuiltinProbeResult | null;
+}
+
+// npm_* variables `bun run` sets the same way npm does
+const NPM_ENV_SAME = new Set([
+  'npm_lifecycle_event',
+  'npm_lifecycle_script',
+  'npm_package_name',
+  'npm_package_version',
+  'npm_package_json',
+]);
+
+// npm_* variables `bun run` sets with a Bun-specific value
+const NPM_ENV_DIFFERENT: Record<string, string> = {
+  npm_config_user_agent: 'starts with "bun/" instead of "npm/", "yarn/" or "pnpm/"',
+  npm_execpath: 'points at the bun binary',
+  npm_node_execpath: 'points at the bun binary',
+};
+
+// npm_* variables `bun run` does not set, with what to read instead
+const NPM_ENV_MISSING: Record<string, string> = {
+  npm_command: 'not set; check npm_lifecycle_event instead',
+};
+
+// process.env.npm_x, process.env['npm_x'], Bun.env.npm_x
+const NPM_ENV_ACCESS = /\b(process\.env|Bun\.env)(?:\.(npm_\w+)|\[\s*['"`](npm_\w+)['"`]\s*\])/g;
+// const { npm_x, npm_y: alias } = process.env
+const NPM_ENV_DESTRUCTURE = /\{([^{}]*\bnpm_\w+[^{}]*)\}\s*=\s*(process\.env|Bun\.env)\b/g;
+
+const joinNotes = (...notes: Array<string | null | undefined>): string | undefined =>
+  notes.filter(Boolean).join('; ') || undefined;
+
+/**
+ * Classify how Bun populates an npm_* variable
+ */
+export function classifyNpmEnvVar(name: string): { support: NpmEnvSupport; note: string } {
+  if (NPM_ENV_SAME.has(name)) {
+    return { support: 'same', note: 'set by `bun run`' };
+  }
+  const different = NPM_ENV_DIFFERENT[name];
+  if (different) {
+    return { support: 'different', note: different };
+  }
+  const missing = NPM_ENV_MISSING[name];
+  if (missing) {
+    return { support: 'missing', note: missing };
+  }
+  if (name.startsWith('npm_package_')) {
+    return { support: 'missing', note: 'bun run sets only npm_package_name, npm_package_version and npm_package_json; read package.json instead' };
+  }
+  if (name.startsWith('npm_config_')) {
+    return { support: 'missing', note: '.npmrc settings are not exported as npm_config_* by `bun run`' };
+  }
+  return { support: 'missing', note: 'not set by `bun run`' };
 }
 
 /**
- * Get all source files in a directory recursively
+ * Find process.env.npm_* and Bun.env.npm_* reads in a file
  */
-async function getSourceFiles(rootPath: string, skipDirs: Set<string>): Promise<string[]> {
-  const files: string[] = [];
-  
-  async function scan(dir: string): Promise<void> {
-    try {
-      const entries = await fs.readdir(dir, { withFileTypes: true });
-      
-      for (const entry of entries) {
-        const fullPath = path.join(dir, entry.name);
-        
-        if (entry.isDirectory()) {
-          if (!skipDirs.has(entry.name) && !entry.name.startsWith('.')) {
-            await scan(fullPath);
-          }
-        } else if (entry.isFile()) {
-          const ext = path.extname(entry.name);
-          if (SOURCE_EXTENSIONS.has(ext)) {
-            files.push(fullPath);
-          }
-        }
+export function scanNpmEnvReads(content: string, file: string): NpmEnvReadInfo[] {
+  const reads: NpmEnvReadInfo[] = [];
+  const lineOf = (index: number): number => content.slice(0, index).split('\n').length;
+  const add = (name: string, source: string, index: number): void => {
+    reads.push({
+      name,
+      source: source === 'Bun.env' ? 'Bun.env' : 'process.env',
+      file,
+      line: lineOf(index),
+      ...classifyNpmEnvVar(name),
+    });
+  };
+
+  let match: RegExpExecArray | null;
+  NPM_ENV_ACCESS.lastIndex = 0;
+  while ((match = NPM_ENV_ACCESS.exec(content)) !== null) {
+    add(match[2] ?? match[3] ?? '', match[1] ?? '', match.index);
+  }
+
+  NPM_ENV_DESTRUCTURE.lastIndex = 0;
+  while ((match = NPM_ENV_DESTRUCTURE.exec(content)) !== null) {
+    for (const part of (match[1] ?? '').split(',')) {
+      const name = part.split(':')[0]?.split('=')[0]?.trim() ?? '';
+      if (name.startsWith('npm_')) {
+        add(name, match[2] ?? '', match.index);
       }
-    } catch {
-      // Skip directories we can't read
     }
   }
-  
-  await scan(rootPath);
-  return files;
+
+  return reads.sort((a, b) => a.line - b.line);
 }
 
 /**
@@ -123,7 +224,7 @@ async function getSourceFiles(rootPath: string, skipDirs: Set<string>): Promise<
 async function analyzeFile(
   filePath: string,
   rootPath: string
-): Promise<ParsedImport[]> {
+): Promise<{ imports: ParsedImport[]; envReads: NpmEnvReadInfo[] }> {
   try {
     const content = await fs.readFile(filePath, 'utf-8');
     const allImports = parseImports(content);
@@ -131,9 +232,12 @@ async function analyzeFile(
     // Filter to only Node.js built-in imports
     const nodeImports = allImports.filter(imp => isNodeBuiltinImport(imp.modulePath));
     
-    return nodeImports;
+    return {
+      imports: nodeImports,
+      envReads: scanNpmEnvReads(content, path.relative(rootPath, filePath)),
+    };
   } catch {
-    return [];
+    return { imports: [], envReads: [] };
   }
 }
 
@@ -143,7 +247,7 @@ async function analyzeFile(
 export async function analyzeNodeApiUsage(
   options: ApiAnalysisOptions
 ): Promise<ApiAnalysisResult> {
-  const { rootPath, skipDirs = SKIP_DIRS, verbose = false } = options;
+  const { rootPath, skipDirs = SKIP_DIRS, verbose = false, compatDb, bunVersion = null, probe = null } = options;
   
   // Get all source files
   let files = options.filePaths 
@@ -156,11 +260,14 @@ export async function analyzeNodeApiUsage(
   
   // Analyze each file
   const usageByModule = new Map<string, ModuleUsageInfo>();
+  const npmEnvReads: NpmEnvReadInfo[] = [];
+  const probedMissing = new Set<string>();
   let totalImports = 0;
   
   for (const filePath of files) {
-    const imports = await analyzeFile(filePath, rootPath);
+    const { imports, envReads } = await analyzeFile(filePath, rootPath);
     const relativePath = path.relative(rootPath, filePath);
+    npmEnvReads.push(...envReads);
     
     for (const imp of imports) {
       totalImports++;
@@ -175,22 +282,69 @@ export async function analyzeNodeApiUsage(
         hasNodePrefix: imp.hasNodePrefix,
       };
       
+      const members: MemberUsageInfo[] = [];
+      for (const member of imp.members ?? []) {
+        const exportInfo = getNodeExport(modulePath, member.name, compatDb);
+        const probed = probe ? probeLookup(probe, modulePath, member.name) : null;
+        if (probed?.kind === 'missing') {
+          probedMissing.add(`${modulePath.replace(/^node:/, '')}.${member.name}`);
+        }
+        if (probed?.kind === 'missing' || probed?.kind === 'differs') {
+          members.push({
+            name: member.name,
+            category: probed.kind === 'missing' ? 'red' : 'yellow',
+            notes: joinNotes(exportInfo?.notes, probed.note),
+            path: relativePath,
+            line: member.line,
+          });
+        } else if (exportInfo) {
+          const verdict = categoryForBun(exportInfo, bunVersion);
+          members.push({
+            name: member.name,
+            category: verdict.category,
+            notes: joinNotes(exportInfo.notes, verdict.note),
+            path: relativePath,
+            line: member.line,
+          });
+        }
+      }
+      
       if (existing) {
         existing.files.push(fileInfo);
+        existing.members.push(...members);
       } else {
-        const moduleInfo = getNodeModule(modulePath);
+        const moduleInfo = getNodeModule(modulePath, compatDb);
+        const probed = probe ? probeLookup(probe, modulePath) : null;
+        const verdict = probed
+          ? { category: 'red' as const, note: probed.note }
+          : moduleInfo ? categoryForBun(moduleInfo, bunVersion) : { category: 'green' as const, note: null };
         usageByModule.set(modulePath, {
           module: modulePath,
-          category: moduleInfo?.category || 'green',
+          category: verdict.category,
           files: [fileInfo],
           recommendsPrefix: moduleInfo?.recommendsPrefix ?? true,
           bunAlternatives: moduleInfo?.bunAlternatives,
-          notes: moduleInfo?.notes,
+          notes: joinNotes(moduleInfo?.notes, verdict.note),
+          members,
         });
       }
     }
   }
   
+  // A yellow or red export makes the whole module at least that serious
+  const rank: Record<ModuleCategory, number> = { green: 0, yellow: 1, red: 2 };
+  const memberApis = new Set<string>();
+  for (const [modulePath, info] of usageByModule) {
+    for (const member of info.members) {
+      if (rank[member.category] > rank[info.category]) {
+        info.category = member.category;
+      }
+      if (member.category !== 'green') {
+        memberApis.add(`${modulePath.replace(/^node:/, '')}.${member.name}`);
+      }
+    }
+  }
+  
   // Categorize modules
   const greenZone: string[] = [];
   const yellowZone: string[] = [];
@@ -215,6 +369,23 @@ export async function analyzeNodeApiUsage(
     }
   }
   
+  // Member lines under a module: "    - fs.watch [yellow]: notes (a.ts:3, b.ts:7)"
+  const memberDetails = (mod: string): string[] => {
+    const info = usageByModule.get(mod);
+    const lines: string[] = [];
+    const names = stableSort(Array.from(new Set(info?.members.map(m => m.name) ?? [])), x => x);
+    for (const name of names) {
+      const sites = info?.members.filter(m => m.name === name) ?? [];
+      const first = sites[0];
+      if (!first || (first.category === 'green' && !first.notes)) continue;
+      const where = sites.slice(0, 3).map(m => `${m.path}:${m.line}`).join(', ');
+      const more = sites.length > 3 ? `, ... and ${sites.length - 3} more` : '';
+      const notes = first.notes ? `: ${first.notes}` : '';
+      lines.push(`    - ${mod.replace(/^node:/, '')}.${name} [${first.category}]${notes} (${where}${more})`);
+    }
+    return lines;
+  };
+  
   // Generate findings
   const findings: Finding[] = [];
   
@@ -230,6 +401,7 @@ export async function analyzeNodeApiUsage(
         const info = usageByModule.get(mod);
         const fileCount = info?.files.length || 0;
         details.push(`  - ${mod} (${fileCount} files)`);
+        details.push(...memberDetails(mod));
       }
     }
     
@@ -240,6 +412,7 @@ export async function analyzeNodeApiUsage(
         const fileCount = info?.files.length || 0;
         const notes = info?.notes ? ` - ${info.notes}` : '';
         details.push(`  - ${mod} (${fileCount} files)${notes}`);
+        details.push(...memberDetails(mod));
       }
       hints.push('Yellow zone modules work in Bun but may have behavior differences.');
       hints.push('Test code using these modules carefully after migration.');
@@ -253,6 +426,7 @@ export async function analyzeNodeApiUsage(
         const notes = info?.notes ? ` - ${info.notes}` : '';
         const alternatives = info?.bunAlternatives ? ` (alternatives: ${info.bunAlternatives.join(', ')})` : '';
         details.push(`  - ${mod} (${fileCount} files)${notes}${alternatives}`);
+        details.push(...memberDetails(mod));
       }
       hints.push('Red zone modules have limited or no support in Bun.');
       hints.push('Consider alternatives or conditional code paths.');
@@ -305,9 +479,41 @@ export async function analyzeNodeApiUsage(
     });
   }
   
+  // Finding: npm_* environment variables
+  const npmEnvVars = stableSort(Array.from(new Set(npmEnvReads.map(r => r.name))), x => x);
+  if (npmEnvReads.length > 0) {
+    const details: string[] = [];
+    
+    for (const name of npmEnvVars) {
+      const reads = npmEnvReads.filter(r => r.name === name);
+      const { support, note } = classifyNpmEnvVar(name);
+      details.push(`${name} (${support}, ${reads.length} reads) - ${note}`);
+      for (const r of reads.slice(0, 3)) {
+        details.push(`  - ${r.file}:${r.line} (${r.source})`);
+      }
+      if (reads.length > 3) {
+        details.push(`  - ... and ${reads.length - 3} more`);
+      }
+    }
+    
+    const severity = npmEnvReads.some(r => r.support !== 'same') ? 'yellow' : 'green';
+    
+    findings.push({
+      id: 'api.npm_env',
+      title: `Source code reads npm_* environment variables: ${npmEnvVars.length} variables`,
+      severity,
+      details,
+      hints: [
+        'npm_* variables are only set when code runs through a package manager script (`bun run <script>`), not with `bun <file>`.',
+        'Read name/version from package.json instead of npm_package_*, and detect Bun with `process.versions.bun` rather than npm_config_user_agent.',
+      ],
+    });
+  }
+  
   return {
     findings,
     usageByModule,
+    npmEnvReads,
     summary: {
       totalFiles: files.length,
       totalImports,
@@ -315,6 +521,9 @@ export async function analyzeNodeApiUsage(
       yellowZone: stableSort(yellowZone, x => x),
       redZone: stableSort(redZone, x => x),
       withoutNodePrefix: stableSort(withoutNodePrefix, x => x),
+      npmEnvVars,
+      memberApis: stableSort(Array.from(memberApis), x => x),
+      ...(probe ? { probedMissing: stableSort(Array.from(probedMissing), x => x) } : {}),
     },
   };
 }
@@ -0,0 +1,389 @@
+/**
+ * .env Loading Analysis
+ *
+ * Bun loads .env, .env.{NODE_ENV}, .env.local and .env.{NODE_ENV}.local before any code runs. Apps
+ * that call dotenv / dotenv-flow themselves then see values Bun already set,
+ * which dotenv does not override by default. This analyzer lists the repo's
+ * .env files, finds the loader call sites and reports keys whose effective
+ * value changes under Bun. Values are compared by hash and never printed.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import type { DotenvCallSiteInfo, EnvAnalysisSummary, EnvFileInfo, EnvKeyConflict, Finding } from './types.js';
+import { parseImports } from './import_parser.js';
+import { stableSort } from './util.js';
+import { getSourceFiles, SKIP_DIRS } from './source_files.js';
+
+/**
+ * Result of .env loading analysis
+ */
+export interface EnvAnalysisResult {
+  /** All findings generated */
+  findings: Finding[];
+  /** Summary statistics */
+  summary: EnvAnalysisSummary;
+}
+
+/**
+ * Options for .env loading analysis
+ */
+export interface EnvAnalysisOptions {
+  /** Root path to analyze (the directory bun runs in) */
+  rootPath: string;
+  /** File paths to analyze (relative to root) */
+  filePaths?: string[];
+  /** Skip directories */
+  skipDirs?: Set<string>;
+  /** Verbose output */
+  verbose?: boolean;
+}
+
+/** Key -> hash of its value, for one .env file */
+type EnvKeys = Map<string, string>;
+
+const LOADERS = ['dotenv', 'dotenv-flow', 'dotenv-expand'] as const;
+type Loader = DotenvCallSiteInfo['loader'];
+
+const ENV_FILE = /^\.env(?:\.[\w.-]+)?$/;
+const BUN_MODES = ['development', 'production', 'test'];
+const BUN_LOADED = new Set(['.env', '.env.local', ...BUN_MODES.flatMap(m => [`.env.${m}`, `.env.${m}.local`])]);
+// Suffixes that are never loaded by any runtime
+const TEMPLATE_SUFFIXES = new Set(['example', 'sample', 'template', 'defaults', 'dist']);
+
+const hashValue = (value: string): string => createHash('sha256').update(value).digest('hex');
+
+/**
+ * Parse the keys of a .env file; values are kept only as hashes
+ */
+export function parseEnvKeys(content: string): EnvKeys {
+  const keys: EnvKeys = new Map();
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*)$/);
+    if (!match?.[1]) continue;
+    let value = (match[2] ?? '').trim();
+    const quoted = value.match(/^(['"`])(.*)\1/);
+    value = quoted ? quoted[2] ?? '' : value.replace(/\s+#.*$/, '');
+    keys.set(match[1], hashValue(value));
+  }
+  return keys;
+}
+
+/**
+ * Bun's automatic load order for one NODE_ENV, highest precedence first.
+ * Bun only knows development, production and test; any other NODE_ENV loads the development files,
+ * and .env.local is skipped under test
+ */
+export const bunEnvChain = (nodeEnv: string): string[] => {
+  const mode = BUN_MODES.includes(nodeEnv) ? nodeEnv : 'development';
+  return [`.env.${mode}.local`, ...(mode === 'test' ? [] : ['.env.local']), `.env.${mode}`, '.env'];
+};
+
+/**
+ * dotenv-flow's load order for one NODE_ENV, highest precedence first
+ */
+const dotenvFlowChain = (dir: string, nodeEnv: string): string[] =>
+  [`.env.${nodeEnv}.local`, `.env.${nodeEnv}`, ...(nodeEnv === 'test' ? [] : ['.env.local']), '.env'].map(f => path.join(dir, f));
+
+/**
+ * Text between the parentheses of a call, given the index of "("
+ */
+const callArgs = (content: string, open: number): string => {
+  let depth = 0;
+  for (let i = open; i < content.length; i++) {
+    const c = content[i];
+    if (c === '(') depth++;
+    else if (c === ')' && --depth === 0) return content.slice(open + 1, i);
+  }
+  return content.slice(open + 1);
+};
+
+/**
+ * Value expression of an option in an object literal ("path: resolve(__dirname, '.env')")
+ */
+const optionExpr = (args: string, name: string): string | null => {
+  const match = new RegExp(`\\b${name}\\s*:\\s*`).exec(args);
+  if (!match) return null;
+  let depth = 0;
+  const start = match.index + match[0].length;
+  for (let i = start; i < args.length; i++) {
+    const c = args[i] ?? '';
+    if ('([{'.includes(c)) depth++;
+    else if (')]}'.includes(c)) {
+      if (depth === 0) return args.slice(start, i).trim();
+      depth--;
+    } else if (c === ',' && depth === 0) return args.slice(start, i).trim();
+  }
+  return args.slice(start).trim();
+};
+
+/**
+ * Resolve a path option to files relative to root; null when it is not statically known
+ */
+const resolvePathOption = (expr: string | null, fileDir: string, rootPath: string): string[] | null => {
+  if (expr === null) return [];
+  const literals = Array.from(expr.matchAll(/(['"`])([^'"`$]*)\1/g), m => m[2] ?? '');
+  if (literals.length === 0) return null;
+  const base = /__dirname|import\.meta\.dir/.test(expr) ? fileDir : rootPath;
+  const resolved = expr.trim().startsWith('[')
+    ? literals.map(l => path.resolve(base, l))
+    : [path.resolve(base, ...literals)];
+  return resolved.map(p => path.relative(rootPath, p) || '.');
+};
+
+/**
+ * Find dotenv / dotenv-flow / dotenv-expand call sites in a single file
+ */
+export function scanDotenvCalls(content: string, file: string, rootPath = '.'): DotenvCallSiteInfo[] {
+  const sites: DotenvCallSiteInfo[] = [];
+  const lineAt = (index: number): number => content.slice(0, index).split('\n').length;
+  const fileDir = path.dirname(path.resolve(rootPath, file));
+
+  const addCall = (loader: Loader, call: string, open: number): void => {
+    // expand() wraps a config() call; its options belong to that call
+    const args = loader === 'dotenv-expand' ? '' : callArgs(content, open);
+    const flowEnv = optionExpr(args, 'node_env')?.match(/^(['"`])(\w+)\1$/)?.[2];
+    sites.push({
+      file,
+      line: lineAt(open),
+      loader,
+      call,
+      paths: resolvePathOption(optionExpr(args, 'path'), fileDir, rootPath),
+      override: /\boverride\s*:\s*true\b/.test(args),
+      ...(flowEnv ? { nodeEnv: flowEnv } : {}),
+    });
+  };
+  const findCalls = (loader: Loader, callee: string, label: string): void => {
+    const regex = new RegExp(`(?<![\\w.])${callee.replace('.', '\\s*\\.\\s*')}\\s*\\(`, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(content)) !== null) {
+      addCall(loader, label, match.index + match[0].length - 1);
+    }
+  };
+
+  // import 'dotenv/config', require('dotenv-flow/config'): default options
+  const preload = /(?:\bimport\s*|\brequire\s*\(\s*)['"`](dotenv(?:-flow)?)\/config['"`]/g;
+  let match: RegExpExecArray | null;
+  while ((match = preload.exec(content)) !== null) {
+    const loader = match[1] as Loader;
+    sites.push({ file, line: lineAt(match.index), loader, call: `${loader}/config`, paths: [], override: false });
+  }
+
+  // require('dotenv').config(...), require('dotenv-expand').expand(...)
+  const chained = /\brequire\s*\(\s*['"`](dotenv(?:-flow|-expand)?)['"`]\s*\)\s*\.\s*(config|expand)\s*\(/g;
+  while ((match = chained.exec(content)) !== null) {
+    addCall(match[1] as Loader, `${match[1]}.${match[2]}`, match.index + match[0].length - 1);
+  }
+
+  for (const imp of parseImports(content)) {
+    const loader = LOADERS.find(l => l === imp.modulePath);
+    if (!loader) continue;
+    const fn = loader === 'dotenv-expand' ? 'expand' : 'config';
+    if (imp.localName) {
+      findCalls(loader, `${imp.localName}.${fn}`, `${loader}.${fn}`);
+      // dotenv-expand < 9 exports the function itself
+      if (loader === 'dotenv-expand') findCalls(loader, imp.localName, 'dotenv-expand');
+    }
+    for (const named of imp.namedImports ?? []) {
+      const [imported, local] = named.split(/\s+as\s+|\s*:\s*/).map(s => s.trim());
+      if (imported === fn) findCalls(loader, local || imported, `${loader}.${fn}`);
+    }
+  }
+
+  return stableSort(sites, s => `${String(s.line).padStart(6, '0')}:${s.call}`);
+}
+
+/**
+ * List the .env files in a directory and read their keys
+ */
+async function readEnvFiles(rootPath: string): Promise<Map<string, EnvKeys>> {
+  const files = new Map<string, EnvKeys>();
+  let entries: string[] = [];
+  try {
+    entries = await fs.readdir(rootPath);
+  } catch {
+    return files;
+  }
+  for (const name of entries.filter(e => ENV_FILE.test(e)).sort()) {
+    try {
+      files.set(name, parseEnvKeys(await fs.readFile(path.join(rootPath, name), 'utf-8')));
+    } catch {
+      // Skip directories and unreadable files
+    }
+  }
+  return files;
+}
+
+/**
+ * Compare Node (dotenv only) with Bun (automatic loading, then dotenv) for one call site and NODE_ENV
+ */
+export function diffEnvLoading(
+  site: DotenvCallSiteInfo,
+  nodeEnv: string,
+  files: Map<string, EnvKeys>
+): EnvKeyConflict[] {
+  const nodeChain = site.loader === 'dotenv-flow'
+    ? (site.paths && site.paths.length > 0 ? site.paths : ['.']).flatMap(dir => dotenvFlowChain(dir, site.nodeEnv ?? nodeEnv))
+    : site.paths && site.paths.length > 0 ? site.paths : ['.env'];
+  const bunChain = bunEnvChain(nodeEnv);
+
+  const lookup = (chain: string[], key: string): { file: string; hash: string } | null => {
+    for (const file of chain) {
+      const hash = files.get(file)?.get(key);
+      if (hash !== undefined) return { file, hash };
+    }
+    return null;
+  };
+
+  const keys = new Set<string>();
+  for (const file of [...nodeChain, ...bunChain]) {
+    for (const key of files.get(file)?.keys() ?? []) keys.add(key);
+  }
+
+  const conflicts: EnvKeyConflict[] = [];
+  for (const key of stableSort(Array.from(keys), k => k)) {
+    const node = lookup(nodeChain, key);
+    const bun = lookup(bunChain, key);
+    // dotenv never overwrites what Bun already put in process.env, unless override is set
+    const effective = site.override ? node ?? bun : bun ?? node;
+    if (effective?.hash === node?.hash) continue;
+    conflicts.push({
+      key,
+      nodeEnv,
+      bunSource: effective?.file ?? null,
+      nodeSource: node?.file ?? null,
+      callSite: `${site.file}:${site.line}`,
+    });
+  }
+  return conflicts;
+}
+
+/**
+ * Analyze .env loading in a project
+ */
+export async function analyzeEnvLoading(
+  options: EnvAnalysisOptions
+): Promise<EnvAnalysisResult> {
+  const { rootPath, skipDirs = SKIP_DIRS, verbose = false } = options;
+
+  const sourceFiles = options.filePaths
+    ? options.filePaths.map(f => path.resolve(rootPath, f))
+    : await getSourceFiles(rootPath, skipDirs);
+
+  if (verbose) {
+    process.stderr.write(`[env] Analyzing ${sourceFiles.length} source files for dotenv usage\n`);
+  }
+
+  const callSites: DotenvCallSiteInfo[] = [];
+  for (const filePath of sourceFiles) {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      if (!content.includes('dotenv')) continue;
+      callSites.push(...scanDotenvCalls(content, path.relative(rootPath, filePath), rootPath));
+    } catch {
+      // Skip files we can't read
+    }
+  }
+
+  const files = await readEnvFiles(rootPath);
+  // Files named by a dotenv path option (a directory for dotenv-flow) live outside the root listing
+  for (const site of callSites) {
+    for (const p of site.paths ?? []) {
+      if (p === '.' || files.has(p)) continue;
+      if (site.loader === 'dotenv-flow') {
+        for (const [name, keys] of await readEnvFiles(path.resolve(rootPath, p))) {
+          files.set(path.join(p, name), keys);
+        }
+        continue;
+      }
+      try {
+        files.set(p, parseEnvKeys(await fs.readFile(path.resolve(rootPath, p), 'utf-8')));
+      } catch {
+        // Missing file: dotenv loads nothing from it either
+      }
+    }
+  }
+
+  const envFiles: EnvFileInfo[] = stableSort(Array.from(files.keys()), f => f)
+    .map(f => ({
+      file: f,
+      keys: files.get(f)?.size ?? 0,
+      loadedByBun: BUN_LOADED.has(f),
+    }));
+
+  // Every NODE_ENV that has its own file; development when there is none
+  const nodeEnvs = stableSort(
+    Array.from(new Set(envFiles
+      .filter(f => !f.file.includes('/'))
+      .map(f => f.file.split('.')[2])
+      .filter((e): e is string => !!e && e !== 'local' && !TEMPLATE_SUFFIXES.has(e)))),
+    x => x
+  );
+  if (nodeEnvs.length === 0) nodeEnvs.push('development');
+
+  const conflicts: EnvKeyConflict[] = [];
+  for (const site of callSites) {
+    if (site.loader === 'dotenv-expand' || site.paths === null) continue;
+    for (const nodeEnv of site.nodeEnv ? [site.nodeEnv] : nodeEnvs) {
+      conflicts.push(...diffEnvLoading(site, nodeEnv, files));
+    }
+  }
+
+  const findings: Finding[] = [];
+  if (callSites.length > 0 || envFiles.length > 0) {
+    const details: string[] = [];
+    details.push(`.env files: ${envFiles.length > 0 ? envFiles.map(f => `${f.file} (${f.keys} keys${f.loadedByBun ? '' : ', not loaded by Bun'})`).join(', ') : 'none'}`);
+
+    if (callSites.length > 0) {
+      details.push(`Loader calls (${callSites.length}):`);
+      for (const site of callSites) {
+        const opts = [
+          site.paths === null ? 'path not statically known' : site.paths.length > 0 ? `path=${site.paths.join(',')}` : '',
+          site.override ? 'override' : '',
+          site.nodeEnv ? `node_env=${site.nodeEnv}` : '',
+        ].filter(Boolean);
+        const note = site.loader === 'dotenv-expand' ? ' - Bun already expands ${VAR} references' : '';
+        details.push(`  - ${site.file}:${site.line} ${site.call}(${opts.join(', ')})${note}`);
+      }
+    } else {
+      details.push('No dotenv calls: Bun loads these files automatically, so keys from them appear in process.env even where Node did not load them.');
+    }
+
+    if (conflicts.length > 0) {
+      details.push(`Keys with a different value under Bun (${new Set(conflicts.map(c => c.key)).size}):`);
+      for (const c of conflicts.slice(0, 30)) {
+        details.push(`  - ${c.key} (NODE_ENV=${c.nodeEnv}): ${c.bunSource ?? 'unset'} under Bun, ${c.nodeSource ?? 'unset'} under Node (${c.callSite})`);
+      }
+      if (conflicts.length > 30) {
+        details.push(`  - ... and ${conflicts.length - 30} more`);
+      }
+    }
+
+    const unresolved = callSites.filter(s => s.paths === null).length;
+    findings.push({
+      id: 'env.dotenv_loading',
+      title: conflicts.length > 0
+        ? `.env loading: ${new Set(conflicts.map(c => c.key)).size} keys resolve differently under Bun`
+        : callSites.length > 0
+          ? '.env loading: dotenv calls agree with Bun\'s automatic loading'
+          : `.env loading: Bun loads ${envFiles.filter(f => f.loadedByBun).length} .env files automatically`,
+      severity: conflicts.length > 0 || unresolved > 0 ? 'yellow' : 'green',
+      details,
+      hints: [
+        'Before your code runs, Bun loads .env.{NODE_ENV}.local, .env.local (not under test), .env.{NODE_ENV} and .env, first value wins; NODE_ENV other than development, production or test loads the development files. dotenv does not overwrite keys that are already set.',
+        'Drop the dotenv call and rename files to Bun\'s order, or pass `--env-file` to bun to load exactly the files the app expects.',
+        ...(unresolved > 0 ? ['Some dotenv paths are computed at runtime; check them by hand.'] : []),
+      ],
+    });
+  }
+
+  return {
+    findings,
+    summary: {
+      envFiles,
+      callSites,
+      conflicts,
+    },
+  };
+}
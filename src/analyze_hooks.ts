@@ -0,0 +1,193 @@
+/**
+ * Low-level Runtime Hooks Analysis
+ *
+ * Finds code that reaches below the public Node.js API: internal bindings,
+ * native addon loading and Module loader internals. Internal bindings and
+ * Module loader patches have no dependable Bun equivalent (red). Native addons
+ * load in Bun when they are built on N-API, and Bun exposes require.extensions
+ * for feature checks, so process.dlopen, .node requires and require.extensions
+ * reads are yellow.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { Finding, RuntimeHookKind, RuntimeHookSummary, RuntimeHookUsageInfo, Severity } from './types.js';
+import { stableSort } from './util.js';
+import { getSourceFiles, SKIP_DIRS } from './source_files.js';
+
+/**
+ * Result of runtime hooks analysis
+ */
+export interface RuntimeHookAnalysisResult {
+  /** All findings generated */
+  findings: Finding[];
+  /** All hook call sites */
+  usages: RuntimeHookUsageInfo[];
+  /** Summary statistics */
+  summary: RuntimeHookSummary;
+}
+
+/**
+ * Options for runtime hooks analysis
+ */
+export interface RuntimeHookAnalysisOptions {
+  /** Root path to analyze */
+  rootPath: string;
+  /** File paths to analyze (relative to root) */
+  filePaths?: string[];
+  /** Skip directories */
+  skipDirs?: Set<string>;
+  /** Verbose output */
+  verbose?: boolean;
+}
+
+const HOOK_PATTERNS: Array<{ kind: RuntimeHookKind; regex: RegExp; severity: Severity; hint: string }> = [
+  {
+    kind: 'process.binding',
+    regex: /\bprocess\s*\.\s*(?:binding|_linkedBinding)\s*\(\s*(?:['"`]([\w.]+)['"`])?/g,
+    severity: 'red',
+    hint: 'internal bindings are not part of Bun; use the public module (fs, crypto, ...) instead',
+  },
+  {
+    kind: 'process.dlopen',
+    regex: /\bprocess\s*\.\s*dlopen\s*\(/g,
+    severity: 'yellow',
+    hint: 'Bun loads N-API addons this way; check the addon is N-API, since addons built against V8/NAN APIs fail at load time',
+  },
+  {
+    kind: 'native .node require',
+    regex: /\b(?:require|import)\s*\(\s*['"`]([^'"`]+\.node)['"`]\s*\)|\bfrom\s+['"`]([^'"`]+\.node)['"`]/g,
+    severity: 'yellow',
+    hint: 'only N-API addons load in Bun; check the addon is built with node-addon-api/N-API, or use bun:ffi',
+  },
+  {
+    kind: 'Module._load',
+    regex: /\b(?:module\s*\.\s*constructor|Module)\s*\.\s*_load\b/g,
+    severity: 'red',
+    hint: 'Bun\'s module loader is not implemented in JavaScript; patching _load has no effect',
+  },
+  {
+    kind: 'require.extensions',
+    regex: /\brequire\s*\.\s*extensions\b/g,
+    severity: 'red',
+    hint: 'custom extension handlers are not called by Bun; register a Bun plugin (Bun.plugin with onLoad) in a preload',
+  },
+];
+
+const EXTENSIONS_READ_HINT = 'Bun exposes require.extensions (.js, .json, .node, .ts, ...) for checks like this, but loads files natively; make sure nothing registers a handler later';
+
+/**
+ * Whether a require.extensions hit only reads it: a member access that is not assigned or deleted,
+ * an `in` check, or Object.keys()/entries(). A bare reference (`const exts = require.extensions`) stays red.
+ */
+const isExtensionsRead = (before: string, after: string): boolean => {
+  if (/\bdelete\s+$/.test(before)) return false;
+  if (/^\s*(?:\[[^\]]*\]|\.\s*[\w$]+)/.test(after)) return !/^\s*(?:\[[^\]]*\]|\.\s*[\w$]+)\s*=(?!=)/.test(after);
+  return /\bin\s+$/.test(before) || /\bObject\s*\.\s*(?:keys|entries|getOwnPropertyNames)\s*\(\s*$/.test(before);
+};
+
+/**
+ * Find low-level runtime hooks in a single file
+ */
+export function scanRuntimeHooks(content: string, file: string): RuntimeHookUsageInfo[] {
+  const usages: RuntimeHookUsageInfo[] = [];
+  const lineAt = (index: number): number => content.slice(0, index).split('\n').length;
+
+  for (const pattern of HOOK_PATTERNS) {
+    pattern.regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.regex.exec(content)) !== null) {
+      const target = match[1] ?? match[2];
+      const end = match.index + match[0].length;
+      const read = pattern.kind === 'require.extensions'
+        && isExtensionsRead(content.slice(Math.max(0, match.index - 40), match.index), content.slice(end, end + 200));
+      usages.push({
+        file,
+        line: lineAt(match.index),
+        hook: pattern.kind,
+        ...(target ? { target } : {}),
+        severity: read ? 'yellow' : pattern.severity,
+        hint: read ? EXTENSIONS_READ_HINT : pattern.hint,
+      });
+    }
+  }
+
+  return usages.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Analyze low-level runtime hook usage in a project
+ */
+export async function analyzeRuntimeHooks(
+  options: RuntimeHookAnalysisOptions
+): Promise<RuntimeHookAnalysisResult> {
+  const { rootPath, skipDirs = SKIP_DIRS, verbose = false } = options;
+
+  const files = options.filePaths
+    ? options.filePaths.map(f => path.resolve(rootPath, f))
+    : await getSourceFiles(rootPath, skipDirs);
+
+  if (verbose) {
+    process.stderr.write(`[hooks] Analyzing ${files.length} source files for low-level runtime hooks\n`);
+  }
+
+  const usages: RuntimeHookUsageInfo[] = [];
+  for (const filePath of files) {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      usages.push(...scanRuntimeHooks(content, path.relative(rootPath, filePath)));
+    } catch {
+      // Skip files we can't read
+    }
+  }
+
+  const byHook: Partial<Record<RuntimeHookKind, number>> = {};
+  for (const u of usages) {
+    byHook[u.hook] = (byHook[u.hook] ?? 0) + 1;
+  }
+  const filesWithHooks = new Set(usages.map(u => u.file)).size;
+
+  const findings: Finding[] = [];
+  if (usages.length > 0) {
+    const details: string[] = [];
+    const kinds = stableSort(Object.keys(byHook) as RuntimeHookKind[], x => x);
+
+    for (const kind of kinds) {
+      for (const severity of ['red', 'yellow'] as Severity[]) {
+        const sites = usages.filter(u => u.hook === kind && u.severity === severity);
+        if (sites.length === 0) continue;
+        const label = kind === 'require.extensions' && severity === 'yellow' ? `${kind} reads` : kind;
+        details.push(`${label} (${sites.length} sites) - ${sites[0]?.hint ?? ''}`);
+        for (const site of sites.slice(0, 10)) {
+          details.push(`  - ${site.file}:${site.line}${site.target ? ` ${site.target}` : ''}`);
+        }
+        if (sites.length > 10) {
+          details.push(`  - ... and ${sites.length - 10} more`);
+        }
+      }
+    }
+
+    findings.push({
+      id: 'api.runtime_hooks',
+      title: `Low-level runtime hooks detected: ${usages.length} sites in ${filesWithHooks} files`,
+      severity: usages.some(u => u.severity === 'red') ? 'red' : 'yellow',
+      details,
+      hints: [
+        'Internal bindings and Module loader patches reach into Node.js internals that Bun does not reproduce; expect them to fail at runtime.',
+        'Native addons load in Bun when they are built on N-API (node-addon-api); V8/NAN addons need a rebuild or bun:ffi.',
+        'If a hit comes from vendored or generated code, check whether the upstream package has a Bun-compatible release.',
+      ],
+    });
+  }
+
+  return {
+    findings,
+    usages,
+    summary: {
+      totalFiles: files.length,
+      filesWithHooks,
+      byHook,
+      sites: usages,
+    },
+  };
+}
@@ -20,12 +20,7 @@ import {
   CJS_GLOBAL_NAMES,
 } from './node_builtins.js';
 import { stableSort } from './util.js';
-
-// Source file extensions to analyze
-const SOURCE_EXTENSIONS = new Set(['.ts', '.js', '.tsx', '.jsx', '.mts', '.mjs', '.cts', '.cjs']);
-
-// Directories to skip
-const SKIP_DIRS = new Set(['node_modules', '.git', '.svn', '.hg', 'dist', 'build', 'out', '.next', '.nuxt']);
+import { getSourceFiles, SKIP_DIRS } from './source_files.js';
 
 /**
  * File with mixed imports
@@ -36,6 +31,22 @@ export interface MixedImportFile {
   cjsRequireLines: number[];
 }
 
+/**
+ * A library, or hand-written code, that patches Module internals
+ */
+export interface ModulePatchingInfo {
+  /** Package name, or the patched internal when no known library is involved */
+  name: string;
+  /** Declared version when the package is a dependency */
+  version?: string;
+  /** Module internals it patches */
+  patches: string[];
+  /** Bun-native replacement */
+  replacement: string;
+  /** Source evidence: imports of the package or direct use of the internals */
+  sites: Array<{ file: string; line: number; evidence: string }>;
+}
+
 /**
  * Result of module system analysis
  */
@@ -49,6 +60,7 @@ export interface ModuleAnalysisResult {
     cjsFiles: number;
     mixedFiles: number;
     cjsGlobalsUsage: number;
+    modulePatchers: string[];
   };
   /** Categorized files */
   files: {
@@ -64,6 +76,8 @@ export interface ModuleAnalysisResult {
     context?: string;
     replacement?: string;
   }>;
+  /** Libraries and code patching Module internals */
+  modulePatching: ModulePatchingInfo[];
 }
 
 /**
@@ -80,37 +94,120 @@ export interface ModuleAnalysisOptions {
   verbose?: boolean;
 }
 
+// Module internals reported by parseCJSGlobals that only loader patches touch
+const MODULE_INTERNALS = new Set(['Module._resolveFilename', 'Module._extensions', 'Module.prototype.require']);
+
+// Libraries that patch Module internals, and what to use under Bun instead.
+// `unneeded` marks path-alias libraries whose job Bun does natively: moving the aliases is a change, not a blocker
+const MODULE_PATCHERS: Record<string, { patches: string[]; replacement: string; unneeded?: boolean }> = {
+  'module-alias': {
+    patches: ['Module._resolveFilename'],
+    replacement: 'use tsconfig "paths" (Bun resolves them at runtime) or package.json "imports" (#alias)',
+    unneeded: true,
+  },
+  'tsconfig-paths': {
+    patches: ['Module._resolveFilename'],
+    replacement: 'not needed: Bun reads tsconfig "paths" itself',
+    unneeded: true,
+  },
+  'app-module-path': {
+    patches: ['Module._resolveFilename'],
+    replacement: 'use tsconfig "paths" or workspace packages',
+  },
+  'pirates': {
+    patches: ['Module._extensions'],
+    replacement: 'register a Bun plugin (Bun.plugin with onLoad) in a preload',
+  },
+  '@babel/register': {
+    patches: ['Module._extensions'],
+    replacement: 'not needed for TS/JSX; custom Babel transforms need a Bun plugin in a preload',
+  },
+  'proxyquire': {
+    patches: ['require.cache', 'Module._load'],
+    replacement: 'use mock.module() from bun:test',
+  },
+  'mock-require': {
+    patches: ['Module._load'],
+    replacement: 'use mock.module() from bun:test',
+  },
+  'rewire': {
+    patches: ['Module._extensions'],
+    replacement: 'no Bun equivalent for reaching private bindings; export what tests need or use mock.module() from bun:test',
+  },
+  'require-in-the-middle': {
+    patches: ['Module.prototype.require'],
+    replacement: 'loader hooks do not see Bun\'s module loader; instrument libraries explicitly',
+  },
+};
+
 /**
- * Get all source files in a directory recursively
+ * Read dependencies and the module-alias config from package.json
  */
-async function getSourceFiles(rootPath: string, skipDirs: Set<string>): Promise<string[]> {
-  const files: string[] = [];
-  
-  async function scan(dir: string): Promise<void> {
-    try {
-      const entries = await fs.readdir(dir, { withFileTypes: true });
-      
-      for (const entry of entries) {
-        const fullPath = path.join(dir, entry.name);
-        
-        if (entry.isDirectory()) {
-          if (!skipDirs.has(entry.name) && !entry.name.startsWith('.')) {
-            await scan(fullPath);
-          }
-        } else if (entry.isFile()) {
-          const ext = path.extname(entry.name);
-          if (SOURCE_EXTENSIONS.has(ext)) {
-            files.push(fullPath);
-          }
-        }
+async function readPackageDeps(rootPath: string): Promise<{ deps: Record<string, string>; moduleAliasesLine: number | null }> {
+  try {
+    const raw = await fs.readFile(path.join(rootPath, 'package.json'), 'utf-8');
+    const pkg = JSON.parse(raw) as { dependencies?: Record<string, string>; devDependencies?: Record<string, string>; _moduleAliases?: unknown };
+    const aliasIndex = raw.indexOf('"_moduleAliases"');
+    return {
+      deps: { ...pkg.dependencies, ...pkg.devDependencies },
+      moduleAliasesLine: pkg._moduleAliases && aliasIndex !== -1 ? raw.slice(0, aliasIndex).split('\n').length : null,
+    };
+  } catch {
+    return { deps: {}, moduleAliasesLine: null };
+  }
+}
+
+/**
+ * Combine patcher dependencies with source evidence (imports and Module internals)
+ */
+function collectModulePatching(
+  moduleInfos: ModuleInfo[],
+  deps: Record<string, string>,
+  moduleAliasesLine: number | null
+): ModulePatchingInfo[] {
+  const byName = new Map<string, ModulePatchingInfo>();
+  const entry = (name: string): ModulePatchingInfo => {
+    let info = byName.get(name);
+    if (!info) {
+      const known = MODULE_PATCHERS[name];
+      info = {
+        name,
+        ...(deps[name] ? { version: deps[name] } : {}),
+        patches: known ? known.patches : [name],
+        replacement: known ? known.replacement : 'Bun\'s module loader is native; patching it from JavaScript has no effect. Use tsconfig paths, mock.module() or a Bun plugin',
+        sites: [],
+      };
+      byName.set(name, info);
+    }
+    return info;
+  };
+
+  for (const name of Object.keys(MODULE_PATCHERS)) {
+    if (deps[name]) entry(name);
+  }
+  if (moduleAliasesLine !== null) {
+    entry('module-alias').sites.push({ file: 'package.json', line: moduleAliasesLine, evidence: '_moduleAliases' });
+  }
+
+  for (const info of moduleInfos) {
+    for (const imp of info.imports) {
+      const name = Object.keys(MODULE_PATCHERS).find(n => imp.modulePath === n || imp.modulePath.startsWith(`${n}/`));
+      if (name) {
+        entry(name).sites.push({ file: info.file, line: imp.line, evidence: `imports ${imp.modulePath}` });
+      }
+    }
+    for (const usage of info.cjsGlobals) {
+      if (MODULE_INTERNALS.has(usage.global)) {
+        entry(usage.global).sites.push({ file: info.file, line: usage.line, evidence: usage.global });
       }
-    } catch {
-      // Skip directories we can't read
     }
   }
-  
-  await scan(rootPath);
-  return files;
+
+  const result = Array.from(byName.values());
+  for (const info of result) {
+    info.sites = stableSort(info.sites, x => `${x.file}:${String(x.line).padStart(6, '0')}`);
+  }
+  return stableSort(result, x => x.name);
 }
 
 /**
@@ -192,8 +289,9 @@ export async function analyzeModuleSystem(
       });
     }
     
-    // Collect CJS globals usage
+    // Collect CJS globals usage (Module internals are reported as module patching)
     for (const usage of info.cjsGlobals) {
+      if (MODULE_INTERNALS.has(usage.global)) continue;
       const globalInfo = CJS_GLOBALS.find(g => g.name === usage.global);
       allCjsGlobals.push({
         global: usage.global,
@@ -294,6 +392,41 @@ export async function analyzeModuleSystem(
     });
   }
   
+  // Finding: Module internals patching
+  const { deps, moduleAliasesLine } = await readPackageDeps(rootPath);
+  const modulePatching = collectModulePatching(moduleInfos, deps, moduleAliasesLine);
+  if (modulePatching.length > 0) {
+    const details: string[] = [];
+    
+    for (const patcher of modulePatching) {
+      const version = patcher.version ? `@${patcher.version}` : '';
+      const patches = patcher.patches[0] === patcher.name ? '' : ` (patches ${patcher.patches.join(', ')})`;
+      details.push(`${patcher.name}${version}${patches} - ${patcher.replacement}`);
+      for (const site of patcher.sites.slice(0, 5)) {
+        details.push(`  - ${site.file}:${site.line} ${site.evidence}`);
+      }
+      if (patcher.sites.length > 5) {
+        details.push(`  - ... and ${patcher.sites.length - 5} more`);
+      }
+      if (patcher.sites.length === 0) {
+        details.push('  - dependency only; no import found in source (check scripts and config for -r/--require)');
+      }
+    }
+    
+    // Red only for patches Bun has no native answer for; path aliases just move to tsconfig "paths"
+    const blocking = modulePatching.filter(p => p.sites.length > 0 && !MODULE_PATCHERS[p.name]?.unneeded).length;
+    findings.push({
+      id: 'modules.module_patching',
+      title: `Module internals patching detected: ${modulePatching.length} libraries or patterns`,
+      severity: blocking > 0 ? 'red' : 'yellow',
+      details,
+      hints: [
+        'Bun\'s module loader is native: Module._resolveFilename, Module._extensions and require hooks are not called.',
+        'Path aliases work through tsconfig "paths"; test mocks move to mock.module() from bun:test; source transforms move to Bun plugins.',
+      ],
+    });
+  }
+  
   return {
     findings,
     summary: {
@@ -302,6 +435,7 @@ export async function analyzeModuleSystem(
       cjsFiles: cjsFiles.length,
       mixedFiles: mixedFiles.length,
       cjsGlobalsUsage: allCjsGlobals.length,
+      modulePatchers: modulePatching.map(p => p.name),
     },
     files: {
       esm: stableSort(esmFiles, x => x),
@@ -309,6 +443,7 @@ export async function analyzeModuleSystem(
       mixed: stableSort(mixedFiles, x => x.path),
     },
     cjsGlobals: stableSort(allCjsGlobals, x => `${x.file}:${x.line}`),
+    modulePatching,
   };
 }
 
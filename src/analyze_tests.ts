@@ -0,0 +1,482 @@
+/**
+ * Jest API Compatibility Analysis
+ *
+ * Scans test files for Jest APIs and Jest config options
+ * and classifies each by how well bun test supports it
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { Finding, TestAnalysisSummary, TestApiSupport, TestApiUsageInfo } from './types.js';
+import { parseImports, type ParsedImport } from './import_parser.js';
+import { fileExists, stableSort } from './util.js';
+import { getSourceFiles, SKIP_DIRS } from './source_files.js';
+
+/**
+ * bun test support for jest.* methods
+ */
+const JEST_APIS: Record<string, { support: TestApiSupport; hint?: string }> = {
+  fn: { support: 'supported' },
+  spyOn: { support: 'supported' },
+  mocked: { support: 'supported' },
+  clearAllMocks: { support: 'supported' },
+  resetAllMocks: { support: 'supported' },
+  restoreAllMocks: { support: 'supported' },
+  setTimeout: { support: 'supported' },
+  setSystemTime: { support: 'supported' },
+  useRealTimers: { support: 'partial', hint: 'fake timers in bun test cover the modern API only; re-test timer-driven code' },
+  advanceTimersByTime: { support: 'partial', hint: 'fake timers in bun test cover the modern API only; re-test timer-driven code' },
+  advanceTimersToNextTimer: { support: 'partial', hint: 'fake timers in bun test cover the modern API only; re-test timer-driven code' },
+  runAllTimers: { support: 'partial', hint: 'fake timers in bun test cover the modern API only; re-test timer-driven code' },
+  runOnlyPendingTimers: { support: 'partial', hint: 'fake timers in bun test cover the modern API only; re-test timer-driven code' },
+  runAllTicks: { support: 'unsupported', hint: 'bun test fake timers do not control process.nextTick' },
+  clearAllTimers: { support: 'partial', hint: 'fake timers in bun test cover the modern API only; re-test timer-driven code' },
+  getTimerCount: { support: 'partial', hint: 'fake timers in bun test cover the modern API only; re-test timer-driven code' },
+  replaceProperty: { support: 'partial', hint: 'check the replaced property is restored; prefer spyOn' },
+  requireActual: { support: 'unsupported', hint: 'load the real module with `await import()` before calling mock.module()' },
+  requireMock: { support: 'unsupported', hint: 'import the mocked module directly after mock.module()' },
+  doMock: { support: 'unsupported', hint: 'call mock.module() at the point the mock is needed' },
+  dontMock: { support: 'unsupported', hint: 'bun test has no unmock; avoid mocking the module instead' },
+  unmock: { support: 'unsupported', hint: 'bun test has no unmock; avoid mocking the module instead' },
+  createMockFromModule: { support: 'unsupported', hint: 'automatic mocks are not generated; write the mock factory by hand' },
+  genMockFromModule: { support: 'unsupported', hint: 'automatic mocks are not generated; write the mock factory by hand' },
+  enableAutomock: { support: 'unsupported', hint: 'automocking is not supported' },
+  disableAutomock: { support: 'unsupported', hint: 'automocking is not supported' },
+  isolateModules: { support: 'unsupported', hint: 'bun test shares one module registry per file; split the test into its own file' },
+  isolateModulesAsync: { support: 'unsupported', hint: 'bun test shares one module registry per file; split the test into its own file' },
+  resetModules: { support: 'unsupported', hint: 'bun test cannot reset the module registry; split the test into its own file' },
+  retryTimes: { support: 'unsupported', hint: 'use test(name, fn, { retry: n })' },
+};
+
+/**
+ * Matchers and helpers outside the jest object
+ */
+const OTHER_APIS: Array<{ regex: RegExp; api: string; support: TestApiSupport; hint?: string }> = [
+  { regex: /\.toMatchInlineSnapshot\s*\(/g, api: 'toMatchInlineSnapshot', support: 'partial', hint: 'inline snapshots are rewritten by bun test --update-snapshots; expect a one-time formatting update' },
+  { regex: /\.toThrowErrorMatchingInlineSnapshot\s*\(/g, api: 'toThrowErrorMatchingInlineSnapshot', support: 'partial', hint: 'inline snapshots are rewritten by bun test --update-snapshots; expect a one-time formatting update' },
+  { regex: /\.toMatchSnapshot\s*\(/g, api: 'toMatchSnapshot', support: 'supported' },
+  { regex: /\bexpect\.addSnapshotSerializer\s*\(/g, api: 'expect.addSnapshotSerializer', support: 'unsupported', hint: 'custom snapshot serializers are not supported' },
+  { regex: /\b(?:test|it|describe)\.concurrent\b/g, api: 'test.concurrent', support: 'partial', hint: 'concurrent tests run one after another in bun test' },
+  { regex: /@jest-environment\s+([\w@/.-]+)/g, api: '@jest-environment', support: 'partial' },
+];
+
+/**
+ * Jest helper packages that need a bun test preload
+ */
+const JEST_HELPER_IMPORTS: Record<string, string> = {
+  'jest-extended': 'register the matchers with expect.extend() in a bunfig.toml [test] preload',
+  '@testing-library/jest-dom': 'import it from a bunfig.toml [test] preload together with a DOM (happy-dom)',
+  'jest-mock-extended': 'relies on jest.fn internals; check the mocks behave the same',
+  'jest-fetch-mock': 'mock fetch with spyOn(globalThis, "fetch") instead',
+};
+
+/**
+ * bun test support for Jest config options
+ */
+const JEST_CONFIG_OPTIONS: Record<string, { support: TestApiSupport; hint?: string }> = {
+  moduleNameMapper: { support: 'partial', hint: 'tsconfig paths cover path aliases; other mappings need a Bun plugin or mock.module() in a [test] preload' },
+  transform: { support: 'partial', hint: 'non-TS transforms need a Bun plugin in a [test] preload' },
+  globalSetup: { support: 'unsupported', hint: 'move it to a [test] preload with beforeAll' },
+  globalTeardown: { support: 'unsupported', hint: 'move it to a [test] preload with afterAll' },
+  snapshotSerializers: { support: 'unsupported', hint: 'custom snapshot serializers are not supported' },
+  projects: { support: 'unsupported', hint: 'run bun test per project directory' },
+  setupFiles: { support: 'partial', hint: 'list the files under bunfig.toml [test] preload' },
+  setupFilesAfterEnv: { support: 'partial', hint: 'list the files under bunfig.toml [test] preload' },
+  testMatch: { support: 'partial', hint: 'bun test finds *.test.* and *.spec.* files; pass paths or set [test] root' },
+  testRegex: { support: 'partial', hint: 'bun test finds *.test.* and *.spec.* files; pass paths or set [test] root' },
+  coverageThreshold: { support: 'partial', hint: 'use bunfig.toml [test] coverageThreshold' },
+  clearMocks: { support: 'partial', hint: 'call jest.clearAllMocks() in an afterEach from a [test] preload' },
+  resetMocks: { support: 'partial', hint: 'call jest.resetAllMocks() in an afterEach from a [test] preload' },
+  restoreMocks: { support: 'partial', hint: 'call mock.restore() in an afterEach from a [test] preload' },
+  testTimeout: { support: 'supported', hint: 'bunfig.toml [test] timeout or --timeout' },
+};
+
+/**
+ * Jest transformers for TS/JS/JSX, which Bun's own transpiler replaces
+ */
+const TS_TRANSFORMERS = ['ts-jest', 'babel-jest', '@swc/jest', 'esbuild-jest', '@sucrase/jest', 'sucrase/jest', 'jest-esbuild'];
+
+const JEST_CONFIG_FILES = ['jest.config.js', 'jest.config.ts', 'jest.config.mjs', 'jest.config.cjs', 'jest.config.json'];
+
+const TEST_FILE_REGEX = /\.(test|spec)\.[cm]?[jt]sx?$/;
+
+/**
+ * Result of Jest API analysis
+ */
+export interface TestAnalysisResult {
+  /** All findings generated */
+  findings: Finding[];
+  /** All Jest API call sites */
+  usages: TestApiUsageInfo[];
+  /** Summary statistics */
+  summary: TestAnalysisSummary;
+}
+
+/**
+ * Options for Jest API analysis
+ */
+export interface TestAnalysisOptions {
+  /** Root path to analyze */
+  rootPath: string;
+  /** File paths to analyze (relative to root) */
+  filePaths?: string[];
+  /** Skip directories */
+  skipDirs?: Set<string>;
+  /** Verbose output */
+  verbose?: boolean;
+}
+
+/**
+ * Whether a path looks like a test file
+ */
+export function isTestFile(filePath: string): boolean {
+  const normalized = filePath.replace(/\\/g, '/');
+  return TEST_FILE_REGEX.test(normalized) || normalized.split('/').includes('__tests__');
+}
+
+/**
+ * Support level of a test environment name
+ */
+function classifyEnvironment(env: string): { support: TestApiSupport; hint?: string } {
+  if (env === 'node') {
+    return { support: 'supported' };
+  }
+  if (env === 'jsdom' || env === 'jest-environment-jsdom') {
+    return { support: 'partial', hint: 'bun test has no jsdom environment; register happy-dom in a [test] preload (@happy-dom/global-registrator)' };
+  }
+  return { support: 'unsupported', hint: `custom test environment "${env}" is not supported` };
+}
+
+/**
+ * Support level of a Jest transform config: TS/JS transformers are not needed under Bun,
+ * anything else (CSS, SVG, Vue, ...) needs a Bun plugin
+ */
+function classifyTransform(transformers: string[]): { support: TestApiSupport; hint?: string } {
+  const isTs = (t: string): boolean => TS_TRANSFORMERS.some(name => t === name || t.startsWith(`${name}/`));
+  const other = transformers.filter(t => !isTs(t));
+  if (transformers.length > 0 && other.length === 0) {
+    return { support: 'supported', hint: `not needed: Bun transpiles TS/JSX itself; drop ${transformers.join(', ')}` };
+  }
+  if (other.length > 0) {
+    return { support: 'partial', hint: `${other.join(', ')} ${other.length === 1 ? 'needs' : 'need'} a Bun plugin in a [test] preload` };
+  }
+  return JEST_CONFIG_OPTIONS.transform!;
+}
+
+/**
+ * Transformer module names from a Jest transform value ({ pattern: 'name' | ['name', options] })
+ */
+function transformersOf(value: unknown): string[] {
+  if (!value || typeof value !== 'object') return [];
+  return Object.values(value as Record<string, unknown>)
+    .map(v => (Array.isArray(v) ? v[0] : v))
+    .filter((v): v is string => typeof v === 'string');
+}
+
+/**
+ * Text between the parentheses of a call starting at openIndex
+ */
+function readCallArgs(content: string, openIndex: number): string {
+  let depth = 0;
+  const limit = Math.min(content.length, openIndex + 2000);
+  for (let i = openIndex; i < limit; i++) {
+    const ch = content[i];
+    if (ch === '(') depth++;
+    if (ch === ')') {
+      depth--;
+      if (depth === 0) return content.slice(openIndex + 1, i);
+    }
+  }
+  return content.slice(openIndex + 1, limit);
+}
+
+/**
+ * Find Jest API call sites in a single test file.
+ * jest.mock with a factory is checked for hoisting: bun test does not move it above the imports.
+ */
+export function scanJestApis(content: string, file: string): TestApiUsageInfo[] {
+  const usages: TestApiUsageInfo[] = [];
+  const lineStarts: number[] = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') lineStarts.push(i + 1);
+  }
+  const lineAt = (index: number): number => {
+    let lo = 0;
+    let hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if ((lineStarts[mid] ?? 0) <= index) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo + 1;
+  };
+
+  const imports: ParsedImport[] = parseImports(content);
+
+  for (const imp of imports) {
+    const hint = JEST_HELPER_IMPORTS[imp.modulePath];
+    if (hint) {
+      usages.push({ file, line: imp.line, api: `import ${imp.modulePath}`, support: 'partial', hint });
+    }
+  }
+
+  const jestCall = /\bjest\.(\w+)\s*\(/g;
+  let match: RegExpExecArray | null;
+  while ((match = jestCall.exec(content)) !== null) {
+    const method = match[1] ?? '';
+    const line = lineAt(match.index);
+    const args = readCallArgs(content, match.index + match[0].length - 1);
+
+    if (method === 'mock') {
+      const moduleMatch = args.match(/^\s*['"`]([^'"`]+)['"`]/);
+      const mocked = moduleMatch?.[1] ?? '';
+      const hasFactory = /^\s*['"`][^'"`]+['"`]\s*,/.test(args);
+      if (!hasFactory) {
+        usages.push({ file, line, api: 'jest.mock', support: 'unsupported', hint: `automock of "${mocked}" is not supported; pass a factory or use mock.module()` });
+        continue;
+      }
+      const importedBefore = imports.find((imp) =>
+        imp.modulePath === mocked && imp.importType !== 'esm-dynamic' && (imp.importType !== 'cjs' || imp.line < line)
+      );
+      if (importedBefore) {
+        usages.push({ file, line, api: 'jest.mock', support: 'partial', hint: `relies on hoisting: "${mocked}" is imported at line ${importedBefore.line}; bun test does not hoist jest.mock, so call it from a [test] preload or import the module after mocking` });
+      } else {
+        usages.push({ file, line, api: 'jest.mock', support: 'supported' });
+      }
+      continue;
+    }
+
+    if (method === 'useFakeTimers') {
+      if (/legacy/.test(args)) {
+        usages.push({ file, line, api: 'jest.useFakeTimers', support: 'unsupported', hint: 'legacy fake timers are not supported' });
+      } else if (args.trim().length > 0) {
+        usages.push({ file, line, api: 'jest.useFakeTimers', support: 'partial', hint: 'fake timer options (doNotFake, advanceTimers, now) may be ignored' });
+      } else {
+        usages.push({ file, line, api: 'jest.useFakeTimers', support: 'partial', hint: 'fake timers in bun test cover the modern API only; re-test timer-driven code' });
+      }
+      continue;
+    }
+
+    const known = JEST_APIS[method];
+    const info: TestApiUsageInfo = known
+      ? { file, line, api: `jest.${method}`, support: known.support }
+      : { file, line, api: `jest.${method}`, support: 'partial', hint: 'not a known bun test API; check that it exists' };
+    if (known?.hint) info.hint = known.hint;
+    usages.push(info);
+  }
+
+  for (const other of OTHER_APIS) {
+    other.regex.lastIndex = 0;
+    while ((match = other.regex.exec(content)) !== null) {
+      const line = lineAt(match.index);
+      if (other.api === '@jest-environment') {
+        const env = classifyEnvironment(match[1] ?? '');
+        const info: TestApiUsageInfo = { file, line, api: `@jest-environment ${match[1] ?? ''}`, support: env.support };
+        if (env.hint) info.hint = env.hint;
+        usages.push(info);
+        continue;
+      }
+      const info: TestApiUsageInfo = { file, line, api: other.api, support: other.support };
+      if (other.hint) info.hint = other.hint;
+      usages.push(info);
+    }
+  }
+
+  return usages.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Read Jest config options from package.json "jest" and jest.config.* files
+ */
+async function readJestConfigOptions(rootPath: string): Promise<NonNullable<TestAnalysisSummary['configOptions']>> {
+  const options: NonNullable<TestAnalysisSummary['configOptions']> = [];
+
+  const addOption = (source: string, option: string, value?: string, transformers: string[] = []): void => {
+    if (option === 'testEnvironment') {
+      const env = classifyEnvironment(value ?? 'node');
+      options.push({ source, option: `testEnvironment: ${value ?? '?'}`, ...env });
+      return;
+    }
+    if (option === 'transform') {
+      options.push({ source, option, ...classifyTransform(transformers) });
+      return;
+    }
+    const known = JEST_CONFIG_OPTIONS[option];
+    if (known) {
+      options.push({ source, option, ...known });
+    }
+  };
+
+  const addFromObject = (source: string, config: Record<string, unknown>): void => {
+    for (const [key, value] of Object.entries(config)) {
+      addOption(source, key, typeof value === 'string' ? value : undefined, key === 'transform' ? transformersOf(value) : []);
+    }
+  };
+
+  try {
+    const pkg = JSON.parse(await fs.readFile(path.join(rootPath, 'package.json'), 'utf-8')) as { jest?: Record<string, unknown> };
+    if (pkg.jest && typeof pkg.jest === 'object') {
+      addFromObject('package.json "jest"', pkg.jest);
+    }
+  } catch {
+    // No package.json or invalid JSON
+  }
+
+  for (const name of JEST_CONFIG_FILES) {
+    const configPath = path.join(rootPath, name);
+    if (!(await fileExists(configPath))) continue;
+    const content = await fs.readFile(configPath, 'utf-8');
+
+    if (name.endsWith('.json')) {
+      try {
+        addFromObject(name, JSON.parse(content) as Record<string, unknown>);
+      } catch {
+        // Invalid JSON
+      }
+      continue;
+    }
+
+    // JS/TS config: look for option keys in the exported object
+    for (const option of ['testEnvironment', ...Object.keys(JEST_CONFIG_OPTIONS)]) {
+      const keyRegex = new RegExp(`\\b${option}\\s*:`);
+      if (!keyRegex.test(content)) continue;
+      const valueMatch = option === 'testEnvironment' ? content.match(/\btestEnvironment\s*:\s*['"`]([^'"`]+)['"`]/) : null;
+      const transformBlock = option === 'transform' ? content.match(/\btransform\s*:\s*\{([^}]*)\}/)?.[1] ?? '' : '';
+      // Keys are quoted patterns; their value is 'name' or ['name', { options }]
+      const transformers = Array.from(transformBlock.matchAll(/['"`][^'"`]*['"`]\s*:\s*\[?\s*['"`]([^'"`]+)['"`]/g), m => m[1]!);
+      addOption(name, option, valueMatch?.[1], transformers);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Analyze Jest API usage in test files
+ */
+export async function analyzeJestApiUsage(
+  options: TestAnalysisOptions
+): Promise<TestAnalysisResult> {
+  const { rootPath, skipDirs = SKIP_DIRS, verbose = false } = options;
+
+  const files = (options.filePaths
+    ? options.filePaths.map(f => path.resolve(rootPath, f))
+    : await getSourceFiles(rootPath, skipDirs)
+  ).filter(f => isTestFile(path.relative(rootPath, f)));
+
+  if (verbose) {
+    process.stderr.write(`[tests] Analyzing ${files.length} test files for Jest API usage\n`);
+  }
+
+  const usages: TestApiUsageInfo[] = [];
+  const perFile: NonNullable<TestAnalysisSummary['perFile']> = [];
+
+  for (const filePath of files) {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      continue;
+    }
+    const relativePath = path.relative(rootPath, filePath).replace(/\\/g, '/');
+    const fileUsages = scanJestApis(content, relativePath);
+    if (fileUsages.length === 0) continue;
+
+    usages.push(...fileUsages);
+    perFile.push({
+      file: relativePath,
+      supported: fileUsages.filter(u => u.support === 'supported').length,
+      partial: fileUsages.filter(u => u.support === 'partial').length,
+      unsupported: fileUsages.filter(u => u.support === 'unsupported').length,
+    });
+  }
+
+  const configOptions = await readJestConfigOptions(rootPath);
+
+  const supported = usages.filter(u => u.support === 'supported').length;
+  const partial = usages.filter(u => u.support === 'partial');
+  const unsupported = usages.filter(u => u.support === 'unsupported');
+  const sortedPerFile = stableSort(perFile, x => x.file);
+
+  // Generate findings
+  const findings: Finding[] = [];
+
+  // Finding: Jest API call sites
+  if (usages.length > 0) {
+    const details: string[] = [];
+
+    details.push(`Per-file counts (${sortedPerFile.length} files):`);
+    for (const f of sortedPerFile) {
+      details.push(`  - ${f.file}: ${f.supported} supported, ${f.partial} partial, ${f.unsupported} unsupported`);
+    }
+
+    if (unsupported.length > 0) {
+      details.push(`Unsupported call sites (${unsupported.length}):`);
+      for (const u of unsupported) {
+        details.push(`  - ${u.file}:${u.line} ${u.api}${u.hint ? ` - ${u.hint}` : ''}`);
+      }
+    }
+
+    if (partial.length > 0) {
+      const byApi = new Map<string, TestApiUsageInfo[]>();
+      for (const u of partial) {
+        byApi.set(u.api, [...(byApi.get(u.api) ?? []), u]);
+      }
+      details.push(`Partially supported (${partial.length}):`);
+      for (const api of stableSort(Array.from(byApi.keys()), x => x)) {
+        const sites = byApi.get(api) ?? [];
+        const locations = sites.slice(0, 3).map(s => `${s.file}:${s.line}`).join(', ');
+        const more = sites.length > 3 ? ` and ${sites.length - 3} more` : '';
+        details.push(`  - ${api} (${locations}${more})${sites[0]?.hint ? ` - ${sites[0].hint}` : ''}`);
+      }
+    }
+
+    let severity: 'green' | 'yellow' | 'red' = 'green';
+    if (unsupported.length > 0) {
+      severity = 'red';
+    } else if (partial.length > 0) {
+      severity = 'yellow';
+    }
+
+    findings.push({
+      id: 'tests.jest_apis',
+      title: `Jest APIs in test files: ${unsupported.length} unsupported, ${partial.length} partially supported`,
+      severity,
+      details,
+      hints: [
+        'bun test implements most of the Jest API; import from "bun:test" or keep the jest global.',
+        'Unsupported calls must be rewritten before the suite can run under bun test.',
+        'Partially supported calls run, but may behave differently; re-run those tests first.',
+      ],
+    });
+  }
+
+  // Finding: Jest config options
+  const flaggedOptions = configOptions.filter(o => o.support !== 'supported');
+  if (flaggedOptions.length > 0) {
+    findings.push({
+      id: 'tests.jest_config',
+      title: 'Jest config options without a direct bun test equivalent',
+      severity: flaggedOptions.some(o => o.support === 'unsupported') ? 'red' : 'yellow',
+      details: flaggedOptions.map(o => `${o.source}: ${o.option} (${o.support})${o.hint ? ` - ${o.hint}` : ''}`),
+      hints: [
+        'bun test reads its settings from bunfig.toml [test] and CLI flags, not from Jest config.',
+      ],
+    });
+  }
+
+  return {
+    findings,
+    usages,
+    summary: {
+      totalTestFiles: files.length,
+      filesUsingJest: sortedPerFile.length,
+      supported,
+      partial: partial.length,
+      unsupported: unsupported.length,
+      perFile: sortedPerFile,
+      unsupportedSites: unsupported,
+      configOptions,
+    },
+  };
+}
@@ -0,0 +1,222 @@
+/**
+ * V8-specific API Analysis
+ *
+ * Bun runs on JavaScriptCore, not V8. This analyzer finds V8-engine-specific
+ * globals and call sites (stack trace hooks, node:v8, natives syntax, gc)
+ * and grades each one by how differently it behaves under Bun.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { Finding, Severity, V8ApiSummary, V8ApiUsageInfo } from './types.js';
+import { parseImports } from './import_parser.js';
+import { stableSort } from './util.js';
+import { getSourceFiles, SKIP_DIRS } from './source_files.js';
+
+/**
+ * Result of V8 API analysis
+ */
+export interface V8AnalysisResult {
+  /** All findings generated */
+  findings: Finding[];
+  /** All V8-specific call sites */
+  usages: V8ApiUsageInfo[];
+  /** Summary statistics */
+  summary: V8ApiSummary;
+}
+
+/**
+ * Options for V8 API analysis
+ */
+export interface V8AnalysisOptions {
+  /** Root path to analyze */
+  rootPath: string;
+  /** File paths to analyze (relative to root) */
+  filePaths?: string[];
+  /** Skip directories */
+  skipDirs?: Set<string>;
+  /** Verbose output */
+  verbose?: boolean;
+}
+
+type V8Rule = { severity: Severity; hint: string };
+
+// Engine-level globals and syntax
+const V8_PATTERNS: Array<{ api: string; regex: RegExp } & V8Rule> = [
+  {
+    api: 'Error.prepareStackTrace',
+    regex: /\bError\.prepareStackTrace\b/g,
+    severity: 'yellow',
+    hint: 'called by Bun with CallSite objects, but frames come from JavaScriptCore and some CallSite methods return null',
+  },
+  {
+    api: 'Error.captureStackTrace',
+    regex: /\bError\.captureStackTrace\s*\(/g,
+    severity: 'green',
+    hint: 'supported; the frames it records use JavaScriptCore names and positions',
+  },
+  {
+    api: 'Error.stackTraceLimit',
+    regex: /\bError\.stackTraceLimit\b/g,
+    severity: 'green',
+    hint: 'supported',
+  },
+  {
+    api: 'stack string parsing',
+    regex: /\.stack\s*(?:\?\.|\.)\s*(?:split|match|replace)\s*\(/g,
+    severity: 'yellow',
+    hint: 'JavaScriptCore stack lines differ from V8\'s "    at fn (file:line:col)"; parse with a tolerant pattern or use Error.captureStackTrace',
+  },
+  {
+    api: 'global.gc',
+    regex: /\b(?:global|globalThis)\.gc\b/g,
+    severity: 'yellow',
+    hint: 'gc is only exposed by Node with --expose-gc; use Bun.gc(true) under Bun',
+  },
+  {
+    api: 'V8 natives syntax (%Function)',
+    regex: /(?<=(?:^|[=(,;])\s*)%[A-Z]\w*\s*\(/gm,
+    severity: 'red',
+    hint: '--allow-natives-syntax intrinsics are a syntax error in JavaScriptCore',
+  },
+];
+
+// node:v8 functions Bun implements with a different format or values, or accepts and ignores
+const V8_MODULE_RULES: Record<string, V8Rule> = {
+  getHeapStatistics: { severity: 'yellow', hint: 'implemented from JavaScriptCore\'s heap; the fields exist but values such as heap_size_limit are not comparable with Node\'s' },
+  getHeapSpaceStatistics: { severity: 'yellow', hint: 'returns V8\'s space names with zero sizes; JavaScriptCore has no equivalent spaces' },
+  getHeapCodeStatistics: { severity: 'yellow', hint: 'returns zeros; JavaScriptCore does not report code statistics' },
+  setFlagsFromString: { severity: 'yellow', hint: 'accepted but ignored: V8 flags have no effect in Bun (e.g. --expose-gc does not define global.gc)' },
+  cachedDataVersionTag: { severity: 'yellow', hint: 'returns a number, but Bun does not use V8 code cache data' },
+  serialize: { severity: 'yellow', hint: 'uses JavaScriptCore\'s structured clone format; data is not readable by Node\'s v8.deserialize' },
+  deserialize: { severity: 'yellow', hint: 'only reads data serialized by Bun; buffers written by Node fail to deserialize' },
+  getHeapSnapshot: { severity: 'yellow', hint: 'produces a JavaScriptCore heap snapshot; tooling that expects V8\'s .heapsnapshot layout may not read it' },
+  writeHeapSnapshot: { severity: 'yellow', hint: 'produces a JavaScriptCore heap snapshot; tooling that expects V8\'s .heapsnapshot layout may not read it' },
+};
+
+const V8_MODULE_DEFAULT: V8Rule = {
+  severity: 'red',
+  hint: 'not implemented by Bun (no V8 heap, flags or code cache); guard the call with process.versions.bun',
+};
+
+const classifyV8Function = (name: string): V8Rule => V8_MODULE_RULES[name] ?? V8_MODULE_DEFAULT;
+
+/**
+ * Find V8-specific API usage in a single file
+ */
+export function scanV8Apis(content: string, file: string): V8ApiUsageInfo[] {
+  const usages: V8ApiUsageInfo[] = [];
+  const lineAt = (index: number): number => content.slice(0, index).split('\n').length;
+
+  for (const pattern of V8_PATTERNS) {
+    pattern.regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.regex.exec(content)) !== null) {
+      usages.push({ file, line: lineAt(match.index), api: pattern.api, severity: pattern.severity, hint: pattern.hint });
+    }
+  }
+
+  // node:v8 usage: member calls on the imported binding, and named imports
+  const v8Imports = parseImports(content).filter(imp => imp.modulePath === 'v8' || imp.modulePath === 'node:v8');
+  const bindings = new Set<string>();
+  for (const imp of v8Imports) {
+    if (imp.importType === 'esm-named') {
+      for (const name of imp.namedImports ?? []) {
+        const imported = name.split(/\s+as\s+/)[0]?.trim() ?? name;
+        usages.push({ file, line: imp.line, api: `v8.${imported}`, severity: classifyV8Function(imported).severity, hint: classifyV8Function(imported).hint });
+      }
+      continue;
+    }
+    const binding = imp.raw.match(/(?:import\s+(?:\*\s+as\s+)?(\w+)|(?:const|let|var)\s+(\w+)\s*=)/);
+    const name = binding?.[1] ?? binding?.[2];
+    if (name) bindings.add(name);
+  }
+  if (v8Imports.length > 0) bindings.add('v8');
+
+  for (const binding of bindings) {
+    const memberCall = new RegExp(`\\b${binding}\\.(\\w+)\\s*\\(`, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = memberCall.exec(content)) !== null) {
+      const fn = match[1] ?? '';
+      const rule = classifyV8Function(fn);
+      usages.push({ file, line: lineAt(match.index), api: `v8.${fn}`, severity: rule.severity, hint: rule.hint });
+    }
+  }
+
+  return stableSort(usages, u => `${String(u.line).padStart(6, '0')}:${u.api}`);
+}
+
+/**
+ * Analyze V8-specific API usage in a project
+ */
+export async function analyzeV8ApiUsage(
+  options: V8AnalysisOptions
+): Promise<V8AnalysisResult> {
+  const { rootPath, skipDirs = SKIP_DIRS, verbose = false } = options;
+
+  const files = options.filePaths
+    ? options.filePaths.map(f => path.resolve(rootPath, f))
+    : await getSourceFiles(rootPath, skipDirs);
+
+  if (verbose) {
+    process.stderr.write(`[v8] Analyzing ${files.length} source files for V8-specific APIs\n`);
+  }
+
+  const usages: V8ApiUsageInfo[] = [];
+  for (const filePath of files) {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      usages.push(...scanV8Apis(content, path.relative(rootPath, filePath)));
+    } catch {
+      // Skip files we can't read
+    }
+  }
+
+  const bySeverity = { green: 0, yellow: 0, red: 0 };
+  for (const u of usages) {
+    bySeverity[u.severity]++;
+  }
+
+  const findings: Finding[] = [];
+  if (usages.length > 0) {
+    const details: string[] = [];
+    const apis = stableSort(Array.from(new Set(usages.map(u => u.api))), x => x);
+    const order: Severity[] = ['red', 'yellow', 'green'];
+
+    for (const severity of order) {
+      for (const api of apis) {
+        const sites = usages.filter(u => u.api === api && u.severity === severity);
+        if (sites.length === 0) continue;
+        details.push(`${api} [${severity}] (${sites.length} sites) - ${sites[0]?.hint ?? ''}`);
+        for (const site of sites.slice(0, 5)) {
+          details.push(`  - ${site.file}:${site.line}`);
+        }
+        if (sites.length > 5) {
+          details.push(`  - ... and ${sites.length - 5} more`);
+        }
+      }
+    }
+
+    const severity: Severity = bySeverity.red > 0 ? 'red' : bySeverity.yellow > 0 ? 'yellow' : 'green';
+    findings.push({
+      id: 'api.v8_specific',
+      title: `V8-specific APIs detected: ${usages.length} sites (${bySeverity.red} red, ${bySeverity.yellow} yellow)`,
+      severity,
+      details,
+      hints: [
+        'Bun runs on JavaScriptCore; V8 engine hooks either behave differently or do nothing.',
+        'Branch on process.versions.bun where engine-specific code cannot be removed.',
+      ],
+    });
+  }
+
+  return {
+    findings,
+    usages,
+    summary: {
+      totalFiles: files.length,
+      filesWithV8Apis: new Set(usages.map(u => u.file)).size,
+      bySeverity,
+    },
+  };
+}
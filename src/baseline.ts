@@ -46,9 +46,11 @@ export function calculateBaselineMetrics(
   const yellowCount = findings.filter((f) => f.severity === "yellow").length;
   const redCount = findings.filter((f) => f.severity === "red").length;
 
-  const packagesGreen = packages.filter((p) => p.severity === "green").length;
-  const packagesYellow = packages.filter((p) => p.severity === "yellow").length;
-  const packagesRed = packages.filter((p) => p.severity === "red").length;
+  // Packages that target another platform are not graded
+  const graded = packages.filter((p) => !p.notApplicable);
+  const packagesGreen = graded.filter((p) => p.severity === "green").length;
+  const packagesYellow = graded.filter((p) => p.severity === "yellow").length;
+  const packagesRed = graded.filter((p) => p.severity === "red").length;
 
   return {
     totalFindings: findings.length,
@@ -0,0 +1,184 @@
+/**
+ * Builtin Export Probe
+ *
+ * Runs a generated script under the local `bun` (and `node`, when installed)
+ * that lists the exports of every `node:` builtin, then compares the two
+ * listings. Missing modules, missing exports and exports of a different type
+ * become ground truth for analyzeNodeApiUsage.
+ */
+
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { exec } from './spawn.js';
+import { NODE_BUILTIN_NAMES } from './node_builtins.js';
+
+/**
+ * Exports of each builtin as name -> typeof; null when the module fails to load
+ */
+export type BuiltinListing = Record<string, Record<string, string> | null>;
+
+/**
+ * Output of the probe script under one runtime
+ */
+export interface RuntimeListing {
+  /** process.versions.bun or process.versions.node */
+  version: string;
+  modules: BuiltinListing;
+}
+
+/**
+ * Difference for a single builtin module
+ */
+export interface BuiltinProbeModule {
+  /** Module name without the node: prefix */
+  module: string;
+  /** The module cannot be loaded under Bun */
+  missingModule: boolean;
+  /** Exports present in Node but not in Bun */
+  missing: string[];
+  /** Exports whose typeof differs between Node and Bun */
+  differs: Array<{ name: string; bun: string; node: string }>;
+}
+
+/**
+ * Result of probing the local runtimes
+ */
+export interface BuiltinProbeResult {
+  bunVersion: string;
+  /** null when node is not installed; only modules that fail to load are reported then */
+  nodeVersion: string | null;
+  /** Modules with at least one difference */
+  modules: BuiltinProbeModule[];
+}
+
+/**
+ * Script run under both runtimes; CommonJS so the same file works in node and bun
+ */
+const probeScript = (modules: string[]): string => `'use strict';
+const modules = ${JSON.stringify(modules)};
+const out = {};
+for (const name of modules) {
+  try {
+    const mod = require('node:' + name);
+    const exports = {};
+    for (const key of Object.keys(mod)) {
+      if (key === 'default') continue;
+      try { exports[key] = typeof mod[key]; } catch { exports[key] = 'getter-throws'; }
+    }
+    out[name] = exports;
+  } catch {
+    out[name] = null;
+  }
+}
+const version = process.versions.bun || process.versions.node;
+process.stdout.write(JSON.stringify({ version, modules: out }));
+`;
+
+/**
+ * Run the probe script under one runtime; null when the runtime is missing or fails
+ */
+async function runProbe(runtime: 'bun' | 'node', scriptPath: string, cwd: string): Promise<RuntimeListing | null> {
+  try {
+    const res = await exec(runtime, [scriptPath], cwd);
+    if (res.code !== 0) return null;
+    const parsed = JSON.parse(res.stdout) as RuntimeListing;
+    return typeof parsed.version === 'string' && parsed.modules ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compare the Bun listing with the Node listing (when available)
+ */
+export function compareBuiltinExports(bun: BuiltinListing, node: BuiltinListing | null): BuiltinProbeModule[] {
+  const result: BuiltinProbeModule[] = [];
+  const names = Array.from(new Set([...Object.keys(bun), ...Object.keys(node ?? {})])).sort();
+
+  for (const module of names) {
+    const bunExports = bun[module];
+    const nodeExports = node ? node[module] : undefined;
+    // Not a builtin in the local Node either; nothing to compare against
+    if (node && !nodeExports) continue;
+
+    if (!bunExports) {
+      result.push({ module, missingModule: true, missing: Object.keys(nodeExports ?? {}).sort(), differs: [] });
+      continue;
+    }
+    if (!nodeExports) continue;
+
+    const missing: string[] = [];
+    const differs: BuiltinProbeModule['differs'] = [];
+    for (const [name, nodeType] of Object.entries(nodeExports)) {
+      const bunType = bunExports[name];
+      if (bunType === undefined || bunType === 'undefined') {
+        if (nodeType !== 'undefined') missing.push(name);
+      } else if (bunType !== nodeType) {
+        differs.push({ name, bun: bunType, node: nodeType });
+      }
+    }
+    if (missing.length > 0 || differs.length > 0) {
+      result.push({
+        module,
+        missingModule: false,
+        missing: missing.sort(),
+        differs: differs.sort((a, b) => a.name.localeCompare(b.name)),
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Probe the builtin exports of the local Bun (and Node, if present).
+ * Returns null when bun cannot be run.
+ */
+export async function probeBuiltinExports(
+  modules: string[] = Array.from(NODE_BUILTIN_NAMES)
+): Promise<BuiltinProbeResult | null> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bun-ready-probe-'));
+  try {
+    const scriptPath = path.join(dir, 'probe.cjs');
+    await fs.writeFile(scriptPath, probeScript(modules), 'utf8');
+
+    const bun = await runProbe('bun', scriptPath, dir);
+    if (!bun) return null;
+    const node = await runProbe('node', scriptPath, dir);
+
+    return {
+      bunVersion: bun.version,
+      nodeVersion: node?.version ?? null,
+      modules: compareBuiltinExports(bun.modules, node?.modules ?? null),
+    };
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true }).catch(() => undefined);
+  }
+}
+
+/**
+ * Look up the probe verdict for one import: the module, or one of its members
+ */
+export function probeLookup(
+  probe: BuiltinProbeResult,
+  modulePath: string,
+  member?: string
+): { kind: 'missing-module' | 'missing' | 'differs'; note: string } | null {
+  const module = modulePath.replace(/^node:/, '');
+  const entry = probe.modules.find(m => m.module === module);
+  if (!entry) return null;
+
+  if (entry.missingModule) {
+    return { kind: 'missing-module', note: `node:${module} cannot be loaded under Bun ${probe.bunVersion} (probed)` };
+  }
+  if (!member) return null;
+  if (entry.missing.includes(member)) {
+    return { kind: 'missing', note: `not exported by node:${module} under Bun ${probe.bunVersion} (probed against Node ${probe.nodeVersion})` };
+  }
+  const differs = entry.differs.find(d => d.name === member);
+  if (differs) {
+    return { kind: 'differs', note: `${differs.bun} under Bun ${probe.bunVersion}, ${differs.node} under Node ${probe.nodeVersion} (probed)` };
+  }
+  return null;
+}
@@ -1,15 +1,18 @@
 import { exec } from "./spawn.js";
+import type { BunVersionInfo } from "./types.js";
 
 /**
- * Check if Bun is available in the system
+ * Check if Bun is available in the system, and which version it is
  */
-export async function checkBunAvailable(): Promise<{ available: boolean; error?: string }> {
+export async function checkBunAvailable(): Promise<{ available: boolean; version?: string; error?: string }> {
   try {
     // Try to run bun --version
     const res = await exec("bun", ["--version"], process.cwd());
     
-    if (res.code === 0 && res.stdout.includes("bun")) {
-      return { available: true };
+    // Prints the bare version ("1.1.30"); some builds add a suffix ("1.2.0-canary.12+abc")
+    const version = res.stdout.trim().match(/^v?(\d+\.\d+\.\d+[\w.+-]*)/)?.[1];
+    if (res.code === 0 && version) {
+      return { available: true, version };
     }
     
     return { 
@@ -32,3 +35,15 @@ export async function checkBunAvailable(): Promise<{ available: boolean; error?:
     };
   }
 }
+
+/**
+ * Bun version to judge compatibility against: the requested one (--bun-version),
+ * otherwise the installed Bun; null when neither is known
+ */
+export async function resolveBunVersion(requested?: string): Promise<BunVersionInfo | null> {
+  if (requested) {
+    return { version: requested.replace(/^v/, ""), source: "option" };
+  }
+  const bunCheck = await checkBunAvailable();
+  return bunCheck.version ? { version: bunCheck.version, source: "installed" } : null;
+}
@@ -1,6 +1,7 @@
 // File: src/ci_summary.ts
 // CI summary generator for stable CI output
 
+import path from "node:path";
 import type {
   Finding,
   OverallResult,
@@ -96,8 +97,11 @@ export function generateCISummary(
   result: OverallResult,
   failOn: FailOnPolicy | undefined
 ): CISummary {
-  const topFindings = getTopFindings(result.findings, 3);
-  const nextActions = generateNextActions(result.findings);
+  // Root findings do not count when the root targets another platform (Electron, React Native, ...)
+  const rootNotApplicable = (result.packages ?? []).some((p) => p.notApplicable && p.path === path.dirname(result.repo.packageJsonPath));
+  const findings = rootNotApplicable ? [] : result.findings;
+  const topFindings = getTopFindings(findings, 3);
+  const nextActions = generateNextActions(findings);
   const exitCode = calculateExitCode(result.severity, failOn);
 
   return {
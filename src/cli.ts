@@ -2,7 +2,7 @@
 import { promises as fs } from "node:fs";
 import path from "node:path";
 import { createHash } from "node:crypto";
-import type { ReportFormat, Severity, FailOnPolicy, ScanOptions, CIOptions, PolicyConfig, PackageAnalysis, ChangedOnlyOptions, ExtendedAnalysisOptions, ExtendedAnalysisMode, ExtendedAnalysisResult } from "./types.js";
+import type { ReportFormat, Severity, FailOnPolicy, ScanOptions, CIOptions, PolicyConfig, PackageAnalysis, ChangedOnlyOptions, ExtendedAnalysisOptions, ExtendedAnalysisMode, ExtendedAnalysisKind, ExtendedAnalysisResult } from "./types.js";
 import { analyzeRepoOverall } from "./analyze.js";
 import { renderMarkdown, renderDetailedReport } from "./report_md.js";
 import { renderJson } from "./report_json.js";
@@ -14,6 +14,17 @@ import { loadBaseline, saveBaseline, compareFindings } from "./baseline.js";
 import { detectChangedPackages, mapPathsToPackages } from "./changed_only.js";
 import { analyzeNodeApiUsage } from "./analyze_api.js";
 import { analyzeModuleSystem } from "./analyze_modules.js";
+import { analyzeJestApiUsage } from "./analyze_tests.js";
+import { analyzeRuntimeHooks } from "./analyze_hooks.js";
+import { analyzeV8ApiUsage } from "./analyze_v8.js";
+import { analyzeEnvLoading } from "./analyze_env.js";
+import { collectTrustCandidates, renderTrustReport, writeTrustedDependencies } from "./trust.js";
+import { readRegistryConfig, renderBunfig } from "./registry_config.js";
+import { readConfig } from "./config.js";
+import { loadCompatDb, renderCompatDb } from "./compat_db.js";
+import { probeBuiltinExports } from "./builtin_probe.js";
+import { fileExists, normalizeRepoPath } from "./util.js";
+import { parseVersion } from "./semver.js";
 
 const usage = (): string => {
   return [
@@ -21,6 +32,9 @@ const usage = (): string => {
     "",
     "Usage:",
     "  bun-ready scan <path> [options]",
+    "  bun-ready trust <path> [--write] [--no-install]",
+    "  bun-ready bunfig <path> [--write]",
+    "  bun-ready db <path> [--json]",
     "",
     "Options:",
     "  --format md|json|sarif       Output format (default: md)",
@@ -39,10 +53,22 @@ const usage = (): string => {
     "  --update-baseline            Update baseline file after scan",
     "  --changed-only               Scan only changed packages (monorepos)",
     "  --since <ref>                Git ref for changed packages",
+    "  --bun-version <semver>       Bun version to judge compatibility against (default: installed bun)",
     "",
     "Extended Analysis (v0.4):",
     "  --extended, -x               Enable full extended analysis",
-    "  --analyze <list>             Selective analysis: api, modules",
+    "  --analyze <list>             Selective analysis: api, modules, tests, hooks, v8, env",
+    "  --probe                      Check builtin exports against the local bun (implies --analyze api)",
+    "",
+    "Trust options:",
+    "  --write                      Write the proposed trustedDependencies into package.json",
+    "  --no-install                 Skip bun install --dry-run (use the lockfile only)",
+    "",
+    "Bunfig options:",
+    "  --write                      Write bunfig.toml translated from .npmrc / .yarnrc.yml (fails if it exists)",
+    "",
+    "Db options:",
+    "  --json                       Print the compatibility database in effect as JSON",
     "",
     "Exit codes:",
     "  0   green",
@@ -52,7 +78,7 @@ const usage = (): string => {
   ].join("\n");
 };
 
-const parseArgs = (argv: string[]): { cmd: string; opts: { repoPath: string; format: ReportFormat; outFile: string | null; runInstall: boolean; runTest: boolean; verbose: boolean; detailed: boolean; scope: "root" | "packages" | "all"; failOn?: FailOnPolicy; ci?: CIOptions; policy?: PolicyConfig; baseline?: { file: string; update?: boolean }; changedOnly?: ChangedOnlyOptions; extended?: ExtendedAnalysisOptions } } => {
+const parseArgs = (argv: string[]): { cmd: string; opts: { repoPath: string; format: ReportFormat; outFile: string | null; runInstall: boolean; runTest: boolean; verbose: boolean; detailed: boolean; scope: "root" | "packages" | "all"; failOn?: FailOnPolicy; ci?: CIOptions; policy?: PolicyConfig; baseline?: { file: string; update?: boolean }; changedOnly?: ChangedOnlyOptions; extended?: ExtendedAnalysisOptions; bunVersion?: string } } => {
   const args = argv.slice(2);
   const cmd = args[0] ?? "";
   if (cmd !== "scan") {
@@ -87,6 +113,8 @@ const parseArgs = (argv: string[]): { cmd: string; opts: { repoPath: string; for
   let baseline: { file: string; update?: boolean } | undefined;
   let changedOnly: ChangedOnlyOptions | undefined;
   let extended: ExtendedAnalysisOptions | undefined;
+  let bunVersion: string | undefined;
+  let probe = false;
 
   for (let i = 2; i < args.length; i++) {
     const a = args[i] ?? "";
@@ -182,6 +210,15 @@ const parseArgs = (argv: string[]): { cmd: string; opts: { repoPath: string; for
       i++;
       continue;
     }
+    if (a === "--bun-version") {
+      bunVersion = args[i + 1] ?? "";
+      i++;
+      continue;
+    }
+    if (a === "--probe") {
+      probe = true;
+      continue;
+    }
     // v0.4: Extended analysis flags
     if (a === "--extended" || a === "-x") {
       extended = { enabled: true, mode: "full" };
@@ -190,17 +227,15 @@ const parseArgs = (argv: string[]): { cmd: string; opts: { repoPath: string; for
     if (a === "--analyze") {
       const v = args[i + 1] ?? "";
       // Parse comma-separated list
-      const modes = v.split(",").map(m => m.trim()).filter(m => m);
-      if (modes.length === 0) {
-        extended = { enabled: true, mode: "full" };
-      } else if (modes.includes("api") && modes.includes("modules")) {
+      const kinds: ExtendedAnalysisKind[] = ["api", "modules", "tests", "hooks", "v8", "env"];
+      const modes = v.split(",").map(m => m.trim()).filter((m): m is ExtendedAnalysisKind => kinds.includes(m as ExtendedAnalysisKind));
+      const selected = kinds.filter(k => modes.includes(k));
+      if (selected.length === 0 || selected.length === kinds.length) {
         extended = { enabled: true, mode: "full" };
-      } else if (modes.includes("api")) {
-        extended = { enabled: true, mode: "api" };
-      } else if (modes.includes("modules")) {
-        extended = { enabled: true, mode: "modules" };
+      } else if (selected.length === 1) {
+        extended = { enabled: true, mode: selected[0]! };
       } else {
-        extended = { enabled: true, mode: "full" };
+        extended = { enabled: true, mode: "full", analyses: selected };
       }
       i++;
       continue;
@@ -256,11 +291,27 @@ const parseArgs = (argv: string[]): { cmd: string; opts: { repoPath: string; for
     baseOpts.changedOnly = changedOnly;
   }
 
+  // --probe feeds the api analyzer, so make sure it runs
+  if (probe) {
+    if (!extended) {
+      extended = { enabled: true, mode: "api" };
+    } else if (extended.analyses && !extended.analyses.includes("api")) {
+      extended.analyses = ["api", ...extended.analyses];
+    } else if (extended.mode !== "full" && extended.mode !== "api" && extended.mode !== "none") {
+      extended = { enabled: true, mode: "full", analyses: ["api", extended.mode] };
+    }
+    extended = { ...extended, probe: true };
+  }
+
   // Add extended analysis if specified
   if (extended !== undefined && extended.enabled) {
     baseOpts.extended = extended;
   }
 
+  if (bunVersion !== undefined) {
+    baseOpts.bunVersion = bunVersion;
+  }
+
   return {
     cmd,
     opts: baseOpts
@@ -292,9 +343,98 @@ const exitCode = (sev: Severity, failOn: FailOnPolicy | undefined): number => {
   return 3;
 };
 
+const parseTrustArgs = (argv: string[]): { repoPath: string; write: boolean; runInstall: boolean } => {
+  const args = argv.slice(3);
+  const repoPath = args[0] && !args[0].startsWith("-") ? args[0] : ".";
+  return {
+    repoPath,
+    write: args.includes("--write"),
+    runInstall: !args.includes("--no-install")
+  };
+};
+
+const runTrust = async (argv: string[]): Promise<void> => {
+  const opts = parseTrustArgs(argv);
+  const report = await collectTrustCandidates({ repoPath: opts.repoPath, runInstall: opts.runInstall });
+  process.stdout.write(renderTrustReport(report) + "\n");
+
+  if (opts.write && report.candidates.some((c) => c.propose)) {
+    await writeTrustedDependencies(report);
+    process.stdout.write(`\nWrote trustedDependencies (${report.proposed.length}) to ${report.packageJsonPath}\n`);
+  }
+
+  // Ensure stdout is flushed before exiting
+  await new Promise<void>((resolve) => setImmediate(() => resolve()));
+  process.exit(0);
+};
+
+const runBunfig = async (argv: string[]): Promise<void> => {
+  const args = argv.slice(3);
+  const repoPath = normalizeRepoPath(args[0] && !args[0].startsWith("-") ? args[0] : ".");
+  const write = args.includes("--write");
+
+  const registry = await readRegistryConfig([repoPath]);
+  if (!registry) {
+    process.stderr.write(`No .npmrc or .yarnrc.yml found in ${repoPath}\n`);
+    process.exit(1);
+  }
+
+  const toml = renderBunfig(registry);
+  if (!write) {
+    process.stdout.write(toml);
+    await new Promise<void>((resolve) => setImmediate(() => resolve()));
+    process.exit(0);
+  }
+
+  const target = path.join(repoPath, "bunfig.toml");
+  if (await fileExists(target)) {
+    process.stderr.write(`${target} already exists; merge this [install] section manually:\n\n${toml}`);
+    process.exit(1);
+  }
+  await fs.writeFile(target, toml, "utf8");
+  process.stdout.write(`Wrote ${target}\n`);
+  await new Promise<void>((resolve) => setImmediate(() => resolve()));
+  process.exit(0);
+};
+
+const runDb = async (argv: string[]): Promise<void> => {
+  const args = argv.slice(3);
+  const repoPath = normalizeRepoPath(args[0] && !args[0].startsWith("-") ? args[0] : ".");
+
+  const loaded = await loadCompatDb(repoPath, await readConfig(repoPath));
+  if (loaded.error) {
+    process.stderr.write(`Compatibility database overlay not applied: ${loaded.error}\n`);
+    await new Promise<void>((resolve) => setImmediate(() => resolve()));
+    process.exit(1);
+  }
+
+  if (args.includes("--json")) {
+    process.stdout.write(JSON.stringify({ overlayFile: loaded.overlayFile, changes: loaded.changes, db: loaded.db }, null, 2) + "\n");
+  } else {
+    process.stdout.write(renderCompatDb(loaded) + "\n");
+  }
+  await new Promise<void>((resolve) => setImmediate(() => resolve()));
+  process.exit(0);
+};
+
 const main = async (): Promise<void> => {
   const { cmd, opts } = parseArgs(process.argv);
 
+  if (cmd === "trust") {
+    await runTrust(process.argv);
+    return;
+  }
+
+  if (cmd === "bunfig") {
+    await runBunfig(process.argv);
+    return;
+  }
+
+  if (cmd === "db") {
+    await runDb(process.argv);
+    return;
+  }
+
   if (cmd !== "scan") {
     process.stderr.write(usage() + "\n");
     // Ensure stderr is flushed before exiting
@@ -302,6 +442,12 @@ const main = async (): Promise<void> => {
     process.exit(1);
   }
 
+  if (opts.bunVersion !== undefined && !parseVersion(opts.bunVersion.replace(/^v/, ""))) {
+    process.stderr.write(`Invalid --bun-version "${opts.bunVersion}": expected a version like 1.1.30\n`);
+    await new Promise<void>((resolve) => setImmediate(() => resolve()));
+    process.exit(1);
+  }
+
   // Load config
   const configOpts: any = {};
   if (opts.failOn !== undefined) {
@@ -334,6 +480,10 @@ const main = async (): Promise<void> => {
     scanOpts.ci = opts.ci;
   }
 
+  if (opts.bunVersion !== undefined) {
+    scanOpts.bunVersion = opts.bunVersion;
+  }
+
   if (mergedPolicy !== undefined) {
     scanOpts.policy = mergedPolicy;
   }
@@ -344,14 +494,25 @@ const main = async (): Promise<void> => {
   let extendedAnalysisResult: ExtendedAnalysisResult | undefined;
   if (opts.extended?.enabled) {
     const extendedFindings: any[] = [];
+    const extendedOpts = opts.extended;
+    const shouldRun = (kind: ExtendedAnalysisKind): boolean =>
+      extendedOpts.analyses ? extendedOpts.analyses.includes(kind) : extendedOpts.mode === 'full' || extendedOpts.mode === kind;
     
-    if (opts.extended.mode === 'full' || opts.extended.mode === 'api') {
+    if (shouldRun('api')) {
       if (opts.verbose) {
         process.stderr.write('[extended] Running Node.js API analysis...\n');
       }
+      const compat = await loadCompatDb(normalizeRepoPath(opts.repoPath), res.config ?? null);
+      const probe = extendedOpts.probe ? await probeBuiltinExports() : null;
+      if (extendedOpts.probe && !probe) {
+        process.stderr.write('Warning: --probe needs a working bun on PATH; using the static compatibility data\n');
+      }
       const apiResult = await analyzeNodeApiUsage({
         rootPath: opts.repoPath,
         verbose: opts.verbose,
+        compatDb: compat.db,
+        bunVersion: res.bunVersion ?? null,
+        probe,
       });
       extendedFindings.push(...apiResult.findings);
       extendedAnalysisResult = {
@@ -361,7 +522,7 @@ const main = async (): Promise<void> => {
       };
     }
     
-    if (opts.extended.mode === 'full' || opts.extended.mode === 'modules') {
+    if (shouldRun('modules')) {
       if (opts.verbose) {
         process.stderr.write('[extended] Running ESM/CJS module analysis...\n');
       }
@@ -377,6 +538,70 @@ const main = async (): Promise<void> => {
       };
     }
     
+    if (shouldRun('tests')) {
+      if (opts.verbose) {
+        process.stderr.write('[extended] Running Jest API analysis...\n');
+      }
+      const testResult = await analyzeJestApiUsage({
+        rootPath: opts.repoPath,
+        verbose: opts.verbose,
+      });
+      extendedFindings.push(...testResult.findings);
+      extendedAnalysisResult = {
+        ...extendedAnalysisResult,
+        testAnalysis: testResult.summary,
+        findings: extendedFindings,
+      };
+    }
+    
+    if (shouldRun('hooks')) {
+      if (opts.verbose) {
+        process.stderr.write('[extended] Running low-level runtime hooks analysis...\n');
+      }
+      const hookResult = await analyzeRuntimeHooks({
+        rootPath: opts.repoPath,
+        verbose: opts.verbose,
+      });
+      extendedFindings.push(...hookResult.findings);
+      extendedAnalysisResult = {
+        ...extendedAnalysisResult,
+        hookAnalysis: hookResult.summary,
+        findings: extendedFindings,
+      };
+    }
+    
+    if (shouldRun('v8')) {
+      if (opts.verbose) {
+        process.stderr.write('[extended] Running V8-specific API analysis...\n');
+      }
+      const v8Result = await analyzeV8ApiUsage({
+        rootPath: opts.repoPath,
+        verbose: opts.verbose,
+      });
+      extendedFindings.push(...v8Result.findings);
+      extendedAnalysisResult = {
+        ...extendedAnalysisResult,
+        v8Analysis: v8Result.summary,
+        findings: extendedFindings,
+      };
+    }
+    
+    if (shouldRun('env')) {
+      if (opts.verbose) {
+        process.stderr.write('[extended] Running .env loading analysis...\n');
+      }
+      const envResult = await analyzeEnvLoading({
+        rootPath: opts.repoPath,
+        verbose: opts.verbose,
+      });
+      extendedFindings.push(...envResult.findings);
+      extendedAnalysisResult = {
+        ...extendedAnalysisResult,
+        envAnalysis: envResult.summary,
+        findings: extendedFindings,
+      };
+    }
+    
     // Merge extended findings with main findings
     if (extendedFindings.length > 0) {
       res.findings = [...res.findings, ...extendedFindings];
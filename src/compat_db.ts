@@ -0,0 +1,294 @@
+// File: src/compat_db.ts
+// Versioned compatibility database (bundled JSON) with a per-repo overlay from bun-ready.config.json
+
+import path from "node:path";
+import type { BunReadyConfig, BunVersionInfo } from "./types.js";
+import type { ModuleCategory, NodeExport, NodeModule } from "./node_builtins.js";
+import { isValidRange, parseVersion, satisfies } from "./semver.js";
+import { fileExists, readJsonFile } from "./util.js";
+import bundled from "./compat_db.json";
+
+export interface CompatDb {
+  /** Schema version; overlays written for a newer schema are rejected */
+  version: number;
+  /** Package names checked by detectNativeAddonRisk */
+  nativeSuspects: string[];
+  /** Package names checked by detectNativeAddonRiskV2 */
+  nativeSuspectsExtended: string[];
+  /** Test runners and browser tools reported as runtime.dev_tools */
+  devTools: string[];
+  /** Transpilers and bundlers reported as runtime.build_tools */
+  runtimeTools: string[];
+  /** Node.js built-ins with their compatibility zone */
+  nodeModules: NodeModule[];
+  /** Member-level entries, keyed by module name without the node: prefix */
+  nodeExports: Record<string, NodeExport[]>;
+}
+
+export type CompatPackageList = "nativeSuspects" | "nativeSuspectsExtended" | "devTools" | "runtimeTools";
+
+export const COMPAT_PACKAGE_LISTS: CompatPackageList[] = ["nativeSuspects", "nativeSuspectsExtended", "devTools", "runtimeTools"];
+
+/**
+ * Repo overlay file: package lists are edited with add/remove,
+ * modules and exports are added or reclassified by name
+ */
+export interface CompatDbOverlay {
+  version?: number;
+  nativeSuspects?: { add?: string[]; remove?: string[] };
+  nativeSuspectsExtended?: { add?: string[]; remove?: string[] };
+  devTools?: { add?: string[]; remove?: string[] };
+  runtimeTools?: { add?: string[]; remove?: string[] };
+  nodeModules?: Array<Partial<NodeModule> & { name: string }>;
+  nodeExports?: Record<string, NodeExport[]>;
+}
+
+export interface CompatDbChange {
+  /** Database section: a package list, "nodeModules" or "nodeExports" */
+  section: string;
+  /** Package, module or "module.export" name */
+  entry: string;
+  action: "added" | "removed" | "reclassified";
+  /** e.g. "red -> yellow" for reclassified entries */
+  detail?: string;
+}
+
+export interface LoadedCompatDb {
+  db: CompatDb;
+  /** Overlay file relative to the repo, null when only the bundled database is used */
+  overlayFile: string | null;
+  changes: CompatDbChange[];
+  /** Why the overlay was not applied */
+  error?: string;
+}
+
+export const BUNDLED_COMPAT_DB: CompatDb = bundled as CompatDb;
+
+const CATEGORIES: ModuleCategory[] = ["green", "yellow", "red"];
+
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every((x) => typeof x === "string");
+
+/**
+ * Check fixedIn (a version) and brokenIn (a range) of one entry
+ */
+const validateVersions = (label: string, e: Record<string, unknown>): string | null => {
+  if (e.fixedIn !== undefined && (typeof e.fixedIn !== "string" || !parseVersion(e.fixedIn))) return `${label}: fixedIn must be a version like "1.1.30"`;
+  if (e.brokenIn !== undefined && (typeof e.brokenIn !== "string" || !isValidRange(e.brokenIn))) return `${label}: brokenIn must be a semver range`;
+  return null;
+};
+
+/**
+ * Check the overlay shape; returns an error message or null
+ */
+const validateOverlay = (overlay: unknown, base: CompatDb): string | null => {
+  if (!overlay || typeof overlay !== "object" || Array.isArray(overlay)) return "expected a JSON object";
+  const o = overlay as Record<string, unknown>;
+
+  if (o.version !== undefined && (typeof o.version !== "number" || o.version > base.version)) {
+    return `written for database version ${String(o.version)}, this bun-ready supports version ${base.version}`;
+  }
+  for (const list of COMPAT_PACKAGE_LISTS) {
+    const edit = o[list] as Record<string, unknown> | undefined;
+    if (edit === undefined) continue;
+    if (typeof edit !== "object" || (edit.add !== undefined && !isStringArray(edit.add)) || (edit.remove !== undefined && !isStringArray(edit.remove))) {
+      return `${list} must be { "add": [...], "remove": [...] }`;
+    }
+  }
+  if (o.nodeModules !== undefined) {
+    if (!Array.isArray(o.nodeModules)) return "nodeModules must be an array";
+    for (const m of o.nodeModules as Array<Record<string, unknown>>) {
+      if (typeof m?.name !== "string") return "nodeModules entries need a name";
+      if (m.category !== undefined && !CATEGORIES.includes(m.category as ModuleCategory)) return `nodeModules.${m.name}: category must be green, yellow or red`;
+      const versions = validateVersions(`nodeModules.${m.name}`, m);
+      if (versions) return versions;
+    }
+  }
+  if (o.nodeExports !== undefined) {
+    if (typeof o.nodeExports !== "object" || Array.isArray(o.nodeExports)) return "nodeExports must map module names to arrays";
+    for (const [mod, exports] of Object.entries(o.nodeExports as Record<string, unknown>)) {
+      if (!Array.isArray(exports)) return `nodeExports.${mod} must be an array`;
+      for (const e of exports as Array<Record<string, unknown>>) {
+        if (typeof e?.name !== "string" || !CATEGORIES.includes(e.category as ModuleCategory)) {
+          return `nodeExports.${mod} entries need a name and a category (green, yellow or red)`;
+        }
+        const versions = validateVersions(`nodeExports.${mod}.${e.name}`, e);
+        if (versions) return versions;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Category of a module or export on a given Bun version (fixedIn / brokenIn applied).
+ * The note spells out the version dependence, e.g. "yellow on Bun >=1.1.25, red on your 1.1.8";
+ * it is null when the version makes no difference.
+ */
+export function categoryForBun(
+  entry: { category: ModuleCategory; fixedIn?: string; brokenIn?: string },
+  bun: BunVersionInfo | null
+): { category: ModuleCategory; note: string | null } {
+  const current = bun ? `${bun.source === "installed" ? "your " : ""}${bun.version}` : null;
+
+  if (entry.brokenIn) {
+    const broken = bun ? satisfies(bun.version, entry.brokenIn) : null;
+    if (broken) return { category: "red", note: `broken on Bun ${entry.brokenIn}, red on ${current}` };
+    if (!bun) return { category: entry.category, note: `red on Bun ${entry.brokenIn}` };
+  }
+  if (entry.fixedIn) {
+    const fixed = bun ? satisfies(bun.version, `>=${entry.fixedIn}`) : null;
+    if (fixed === false) return { category: "red", note: `${entry.category} on Bun >=${entry.fixedIn}, red on ${current}` };
+    if (!bun) return { category: entry.category, note: `${entry.category} on Bun >=${entry.fixedIn}, red before` };
+  }
+  return { category: entry.category, note: null };
+}
+
+/**
+ * Apply an overlay to a database without modifying it
+ */
+export function applyCompatOverlay(base: CompatDb, overlay: CompatDbOverlay): { db: CompatDb; changes: CompatDbChange[] } {
+  const changes: CompatDbChange[] = [];
+  const db: CompatDb = {
+    ...base,
+    nodeModules: base.nodeModules.map((m) => ({ ...m })),
+    nodeExports: Object.fromEntries(Object.entries(base.nodeExports).map(([k, v]) => [k, v.map((e) => ({ ...e }))]))
+  };
+
+  for (const list of COMPAT_PACKAGE_LISTS) {
+    const edit = overlay[list];
+    if (!edit) continue;
+    let names = [...base[list]];
+    for (const name of edit.remove ?? []) {
+      if (!names.includes(name)) continue;
+      names = names.filter((n) => n !== name);
+      changes.push({ section: list, entry: name, action: "removed" });
+    }
+    for (const name of edit.add ?? []) {
+      if (names.includes(name)) continue;
+      names.push(name);
+      changes.push({ section: list, entry: name, action: "added" });
+    }
+    db[list] = names;
+  }
+
+  // A module entry without the prefix also updates its node: twin
+  for (const entry of overlay.nodeModules ?? []) {
+    const targets = db.nodeModules.filter((m) => m.name === entry.name || (!entry.name.startsWith("node:") && m.name === `node:${entry.name}`));
+    if (targets.length === 0) {
+      db.nodeModules.push({ category: "green", ...entry });
+      changes.push({ section: "nodeModules", entry: entry.name, action: "added", detail: entry.category ?? "green" });
+      continue;
+    }
+    for (const target of targets) {
+      const before = target.category;
+      Object.assign(target, entry, { name: target.name });
+      changes.push({ section: "nodeModules", entry: target.name, action: "reclassified", detail: `${before} -> ${target.category}` });
+    }
+  }
+
+  for (const [mod, exports] of Object.entries(overlay.nodeExports ?? {})) {
+    const key = mod.replace(/^node:/, "");
+    const list = db.nodeExports[key] ?? (db.nodeExports[key] = []);
+    for (const entry of exports) {
+      const existing = list.find((e) => e.name === entry.name);
+      if (existing) {
+        const before = existing.category;
+        Object.assign(existing, entry);
+        changes.push({ section: "nodeExports", entry: `${key}.${entry.name}`, action: "reclassified", detail: `${before} -> ${existing.category}` });
+      } else {
+        list.push({ ...entry });
+        changes.push({ section: "nodeExports", entry: `${key}.${entry.name}`, action: "added", detail: entry.category });
+      }
+    }
+  }
+
+  return { db, changes };
+}
+
+/**
+ * Load the database in effect for a repo: the bundled one, plus the overlay named by
+ * `compatDb` in bun-ready.config.json (relative to the repo root).
+ * An unreadable or invalid overlay is reported in `error` and the bundled database is used.
+ */
+export async function loadCompatDb(rootPath: string, config: BunReadyConfig | null): Promise<LoadedCompatDb> {
+  if (!config?.compatDb) {
+    return { db: BUNDLED_COMPAT_DB, overlayFile: null, changes: [] };
+  }
+
+  const overlayPath = path.resolve(rootPath, config.compatDb);
+  const overlayFile = path.relative(rootPath, overlayPath).replace(/\\/g, "/");
+  if (!(await fileExists(overlayPath))) {
+    return { db: BUNDLED_COMPAT_DB, overlayFile: null, changes: [], error: `${overlayFile} not found` };
+  }
+
+  let overlay: unknown;
+  try {
+    overlay = await readJsonFile<unknown>(overlayPath);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return { db: BUNDLED_COMPAT_DB, overlayFile: null, changes: [], error: `${overlayFile}: ${msg}` };
+  }
+
+  const problem = validateOverlay(overlay, BUNDLED_COMPAT_DB);
+  if (problem) {
+    return { db: BUNDLED_COMPAT_DB, overlayFile: null, changes: [], error: `${overlayFile}: ${problem}` };
+  }
+
+  const { db, changes } = applyCompatOverlay(BUNDLED_COMPAT_DB, overlay as CompatDbOverlay);
+  return { db, overlayFile, changes };
+}
+
+const LIST_LABELS: Record<CompatPackageList, string> = {
+  nativeSuspects: "Native addon suspects",
+  nativeSuspectsExtended: "Extended native addon suspects",
+  devTools: "Dev tools",
+  runtimeTools: "Runtime/build tools"
+};
+
+/**
+ * Render the entries in effect for `bun-ready db`; overlay entries are marked with *
+ */
+export function renderCompatDb(loaded: LoadedCompatDb): string {
+  const { db, changes } = loaded;
+  const touched = new Set(changes.filter((c) => c.action !== "removed").map((c) => `${c.section}:${c.entry}`));
+  const mark = (section: string, entry: string): string => (touched.has(`${section}:${entry}`) ? `${entry}*` : entry);
+  const lines: string[] = [];
+
+  lines.push(`Compatibility database v${db.version}`);
+  lines.push(loaded.overlayFile ? `Overlay: ${loaded.overlayFile} (${changes.length} changes)` : "Overlay: none (bundled database only)");
+
+  if (changes.length > 0) {
+    lines.push("");
+    lines.push("Overlay changes:");
+    const symbol = { added: "+", removed: "-", reclassified: "~" };
+    for (const c of changes) {
+      lines.push(`  ${symbol[c.action]} ${c.section}: ${c.entry}${c.detail ? ` (${c.detail})` : ""}`);
+    }
+  }
+
+  for (const list of COMPAT_PACKAGE_LISTS) {
+    lines.push("");
+    lines.push(`${LIST_LABELS[list]} (${db[list].length}):`);
+    lines.push(`  ${db[list].map((n) => mark(list, n)).join(", ")}`);
+  }
+
+  lines.push("");
+  lines.push(`Node.js modules (${db.nodeModules.length}):`);
+  for (const category of CATEGORIES) {
+    const names = db.nodeModules.filter((m) => m.category === category).map((m) => mark("nodeModules", m.name));
+    lines.push(`  ${category} (${names.length}): ${names.join(", ")}`);
+  }
+
+  const exportLines: string[] = [];
+  for (const mod of Object.keys(db.nodeExports).sort()) {
+    for (const e of db.nodeExports[mod] ?? []) {
+      if (e.category === "green" && !touched.has(`nodeExports:${mod}.${e.name}`)) continue;
+      exportLines.push(`  ${mark("nodeExports", `${mod}.${e.name}`)} [${e.category}]${e.notes ? ` - ${e.notes}` : ""}`);
+    }
+  }
+  lines.push("");
+  lines.push(`Node.js exports graded yellow or red (${exportLines.length}):`);
+  lines.push(...exportLines);
+
+  return lines.join("\n");
+}
@@ -75,6 +75,11 @@ function validateConfig(config: unknown): BunReadyConfig | null {
     result.detailed = cfg.detailed;
   }
 
+  // Validate compatDb
+  if (typeof cfg.compatDb === "string" && cfg.compatDb.length > 0) {
+    result.compatDb = cfg.compatDb;
+  }
+
   // Return null if no valid fields found
   if (Object.keys(result).length === 0) {
     return null;
@@ -0,0 +1,181 @@
+// File: src/dep_specifiers.ts
+// Classify dependency specifiers (workspace:, link:, file:, patch:, portal:, git, ...) by protocol
+
+import path from "node:path";
+import type { RepoInfo } from "./types.js";
+import { fileExists, readJsonFile } from "./util.js";
+
+export type SpecifierProtocol =
+  | "registry"
+  | "npm-alias"
+  | "workspace"
+  | "link"
+  | "file"
+  | "tarball"
+  | "git"
+  | "catalog"
+  | "patch"
+  | "portal"
+  | "exec"
+  | "unknown";
+
+/**
+ * supported: Bun installs it the same way
+ * different: Bun installs it, but the result or the setup it needs differs
+ * unsupported: bun install fails on it
+ * unknown: depends on the installed package, which is not in node_modules
+ */
+export type SpecifierSupport = "supported" | "different" | "unsupported" | "unknown";
+
+export interface DependencySpecifier {
+  name: string;
+  spec: string;
+  field: "dependencies" | "devDependencies" | "optionalDependencies";
+  protocol: SpecifierProtocol;
+  support: SpecifierSupport;
+  /** What differs and how to migrate; set when support is not "supported" */
+  hint?: string;
+}
+
+const GIT_PREFIXES = ["git+ssh://", "git+https://", "git+http://", "git+file://", "git://", "ssh://", "github:", "gitlab:", "bitbucket:", "gist:"];
+
+// "user/repo" or "user/repo#ref" (GitHub shorthand)
+const GITHUB_SHORTHAND = /^[a-zA-Z0-9][\w.-]*\/[\w.-]+(#.*)?$/;
+
+// Exact version: no range operators, wildcards or tags
+const EXACT_VERSION = /^\d+\.\d+\.\d+(-[\w.]+)?(\+[\w.]+)?$/;
+
+/**
+ * Classify one dependency specifier
+ */
+export function classifySpecifier(spec: string): { protocol: SpecifierProtocol; support: SpecifierSupport; hint?: string } {
+  const s = spec.trim();
+
+  if (s.startsWith("workspace:")) return { protocol: "workspace", support: "supported" };
+  if (s.startsWith("link:")) return { protocol: "link", support: "supported" };
+  if (s.startsWith("file:") || s.startsWith("./") || s.startsWith("../") || s.startsWith("/")) return { protocol: "file", support: "supported" };
+
+  if (s.startsWith("npm:")) {
+    const target = s.slice("npm:".length);
+    const at = target.indexOf("@", 1);
+    const range = at === -1 ? "" : target.slice(at + 1);
+    if (EXACT_VERSION.test(range)) return { protocol: "npm-alias", support: "supported" };
+    return {
+      protocol: "npm-alias",
+      support: "different",
+      hint: `alias range "${range || "latest"}" is re-resolved when bun.lock is created; pin an exact version (npm:${at === -1 ? target : target.slice(0, at)}@<version>) to keep the current copy`
+    };
+  }
+
+  if (s.startsWith("catalog:")) {
+    return {
+      protocol: "catalog",
+      support: "different",
+      hint: "Bun reads catalogs from the root package.json (workspaces.catalog / workspaces.catalogs), not pnpm-workspace.yaml; move the catalog there"
+    };
+  }
+
+  if (s.startsWith("patch:")) {
+    return {
+      protocol: "patch",
+      support: "unsupported",
+      hint: "yarn patch: protocol is not supported; use the plain version and re-create the patch with `bun patch` (patchedDependencies)"
+    };
+  }
+
+  if (s.startsWith("portal:")) {
+    return {
+      protocol: "portal",
+      support: "unsupported",
+      hint: "yarn portal: protocol is not supported; use link: (or file:) for the local package"
+    };
+  }
+
+  if (s.startsWith("exec:")) {
+    return {
+      protocol: "exec",
+      support: "unsupported",
+      hint: "yarn exec: protocol is not supported; build the package ahead of time and depend on it with file:"
+    };
+  }
+
+  if (GIT_PREFIXES.some((p) => s.startsWith(p)) || GITHUB_SHORTHAND.test(s)) {
+    return { protocol: "git", support: "supported" };
+  }
+
+  if (s.startsWith("http://") || s.startsWith("https://")) return { protocol: "tarball", support: "supported" };
+
+  if (/^[a-z][a-z0-9+.-]*:/i.test(s)) {
+    return { protocol: "unknown", support: "different", hint: `unrecognized protocol "${s.slice(0, s.indexOf(":") + 1)}"; check that bun install resolves it` };
+  }
+
+  return { protocol: "registry", support: "supported" };
+}
+
+/**
+ * Classify every specifier in dependencies, devDependencies and optionalDependencies.
+ * Git dependencies are flagged when they have a prepare script, and unknown when they are not installed.
+ *
+ * @param prepareScripts - prepare script by installed git dependency (null = installed without one); null when node_modules is missing
+ */
+export function classifyDependencies(
+  deps: Pick<RepoInfo, DependencySpecifier["field"]>,
+  prepareScripts: Map<string, string | null> | null
+): DependencySpecifier[] {
+  const result: DependencySpecifier[] = [];
+  const fields: Array<DependencySpecifier["field"]> = ["dependencies", "devDependencies", "optionalDependencies"];
+
+  for (const field of fields) {
+    for (const [name, spec] of Object.entries(deps[field])) {
+      const c = classifySpecifier(spec);
+
+      if (c.protocol === "git") {
+        const prepare = prepareScripts?.get(name);
+        if (prepare) {
+          result.push({ name, spec, field, protocol: "git", support: "different", hint: `relies on prepare script "${prepare}", which Bun does not run for git dependencies; publish a built package or depend on a release tarball` });
+          continue;
+        }
+        if (prepare === undefined) {
+          result.push({ name, spec, field, protocol: "git", support: "unknown", hint: "not installed, so a prepare build step cannot be ruled out; install and re-run to check it" });
+          continue;
+        }
+      }
+
+      result.push({ name, spec, field, ...c });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Read the prepare script of installed git dependencies
+ *
+ * @returns null when no node_modules directory exists
+ */
+export async function readGitPrepareScripts(searchPaths: string[], deps: Record<string, string>): Promise<Map<string, string | null> | null> {
+  const nodeModulesDirs: string[] = [];
+  for (const p of searchPaths) {
+    const nm = path.join(p, "node_modules");
+    if (!nodeModulesDirs.includes(nm) && (await fileExists(nm))) nodeModulesDirs.push(nm);
+  }
+  if (nodeModulesDirs.length === 0) return null;
+
+  const result = new Map<string, string | null>();
+  for (const [name, spec] of Object.entries(deps)) {
+    if (classifySpecifier(spec).protocol !== "git") continue;
+    for (const nm of nodeModulesDirs) {
+      const pkgJson = path.join(nm, name, "package.json");
+      if (!(await fileExists(pkgJson))) continue;
+      try {
+        const pkg = await readJsonFile<{ scripts?: Record<string, string> }>(pkgJson);
+        result.set(name, pkg.scripts?.prepare ?? null);
+      } catch {
+        result.set(name, null);
+      }
+      break;
+    }
+  }
+
+  return result;
+}
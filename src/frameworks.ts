@@ -0,0 +1,216 @@
+// File: src/frameworks.ts
+// Framework detection and per-framework Bun readiness profiles
+
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import type { FrameworkCheck, FrameworkName, FrameworkProfile, Severity } from "./types.js";
+import type { TsconfigInfo } from "./tsconfig.js";
+import { ownSourceFiles } from "./test_runners.js";
+import { fileExists } from "./util.js";
+
+type PackageInfo = { dependencies?: Record<string, string>; devDependencies?: Record<string, string>; scripts?: Record<string, string> };
+
+interface FrameworkSpec {
+  label: string;
+  /** Any of these dependencies marks the framework */
+  packages: string[];
+  configFiles: string[];
+}
+
+const FRAMEWORKS: Record<FrameworkName, FrameworkSpec> = {
+  express: { label: "Express", packages: ["express"], configFiles: [] },
+  fastify: { label: "Fastify", packages: ["fastify"], configFiles: [] },
+  nestjs: { label: "NestJS", packages: ["@nestjs/core"], configFiles: ["nest-cli.json", ".nestcli.json"] },
+  nextjs: { label: "Next.js", packages: ["next"], configFiles: ["next.config.js", "next.config.mjs", "next.config.ts"] },
+  remix: { label: "Remix", packages: ["@remix-run/node", "@remix-run/dev", "@remix-run/serve", "@remix-run/express"], configFiles: ["remix.config.js", "remix.config.mjs"] },
+  nuxt: { label: "Nuxt", packages: ["nuxt", "nuxt3"], configFiles: ["nuxt.config.ts", "nuxt.config.js", "nuxt.config.mjs"] }
+};
+
+const VERDICTS: Record<Severity, string> = {
+  green: "should run on Bun as is",
+  yellow: "runs on Bun with changes",
+  red: "blocked on Bun"
+};
+
+// Libraries built on async_hooks.createHook, whose callbacks Bun never calls
+const ASYNC_HOOK_LIBRARIES = ["cls-hooked", "continuation-local-storage", "fastify-request-context", "express-http-context"];
+
+const lineAtIndex = (content: string, index: number): number => content.slice(0, index).split("\n").length;
+
+/**
+ * "file:line" for every match of a pattern in the package's sources
+ */
+const findSites = (sources: Map<string, string>, regex: RegExp): string[] => {
+  const sites: string[] = [];
+  for (const [file, content] of sources) {
+    regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(content)) !== null) {
+      sites.push(`${file}:${lineAtIndex(content, match.index)}`);
+    }
+  }
+  return sites;
+};
+
+const scriptsRunning = (scripts: Record<string, string>, regex: RegExp): string[] =>
+  Object.entries(scripts)
+    .filter(([, cmd]) => regex.test(cmd))
+    .map(([name]) => name)
+    .sort();
+
+const asyncHookChecks = (deps: Record<string, string>, sources: Map<string, string>): FrameworkCheck[] => {
+  const checks: FrameworkCheck[] = [];
+  const libs = ASYNC_HOOK_LIBRARIES.filter((l) => deps[l] !== undefined);
+  if (libs.length > 0) {
+    checks.push({ check: "async_hooks libraries", severity: "red", detail: `${libs.join(", ")} rely on async_hooks.createHook, which never fires in Bun; request context is lost - move to AsyncLocalStorage (e.g. @fastify/request-context)`, sites: [] });
+  }
+  const sites = findSites(sources, /\b(?:createHook|executionAsyncId|triggerAsyncId)\s*\(/g);
+  if (sites.length > 0) {
+    checks.push({ check: "async_hooks.createHook", severity: "yellow", detail: "createHook callbacks are not called by Bun and async ids are not tracked; AsyncLocalStorage works", sites });
+  }
+  return checks;
+};
+
+const profileExpress = (deps: Record<string, string>, sources: Map<string, string>): FrameworkCheck[] => {
+  const checks: FrameworkCheck[] = [{ check: "node:http server", severity: "green", detail: "Express runs on Bun's node:http implementation", sites: [] }];
+  if (deps.spdy !== undefined) {
+    checks.push({ check: "spdy", severity: "red", detail: "spdy (HTTP/2 for Express) parses requests through process.binding('http_parser'), which Bun does not provide; use node:http2 or a TLS-terminating proxy", sites: [] });
+  }
+  return [...checks, ...asyncHookChecks(deps, sources)];
+};
+
+const profileFastify = (deps: Record<string, string>, sources: Map<string, string>): FrameworkCheck[] => {
+  const checks: FrameworkCheck[] = [{ check: "node:http server", severity: "green", detail: "Fastify and its core plugins run on Bun's node:http implementation", sites: [] }];
+  if (deps["@fastify/under-pressure"] !== undefined || deps["under-pressure"] !== undefined) {
+    checks.push({ check: "@fastify/under-pressure", severity: "yellow", detail: "event loop delay sampling uses perf_hooks.monitorEventLoopDelay, which Bun does not implement; set maxEventLoopDelay: 0", sites: [] });
+  }
+  return [...checks, ...asyncHookChecks(deps, sources)];
+};
+
+const profileNest = (deps: Record<string, string>, scripts: Record<string, string>, tsconfig: TsconfigInfo | null): FrameworkCheck[] => {
+  const checks: FrameworkCheck[] = [];
+  const enabled = (option: string): boolean => tsconfig?.settings.some((s) => s.option === option && s.value === "true") ?? false;
+
+  if (!enabled("experimentalDecorators")) {
+    checks.push({ check: "experimentalDecorators", severity: "red", detail: "not enabled in tsconfig.json; Bun then compiles decorators as TC39 decorators and Nest's parameter decorators fail", sites: [] });
+  }
+  if (!enabled("emitDecoratorMetadata")) {
+    checks.push({ check: "emitDecoratorMetadata", severity: "red", detail: "not enabled in tsconfig.json; without design:paramtypes Nest cannot resolve constructor dependencies", sites: [] });
+  } else {
+    checks.push({ check: "emitDecoratorMetadata", severity: "green", detail: "enabled; Bun emits metadata without a type checker, so interface and `import type` parameters need @Inject(token)", sites: [] });
+  }
+  if (deps["reflect-metadata"] === undefined) {
+    checks.push({ check: "reflect-metadata", severity: "yellow", detail: "not a dependency; Nest reads decorator metadata through it, so add it explicitly instead of relying on hoisting", sites: [] });
+  }
+  const nestStart = scriptsRunning(scripts, /\bnest\s+start\b/);
+  if (nestStart.length > 0) {
+    checks.push({ check: "nest start", severity: "yellow", detail: `scripts ${nestStart.join(", ")} compile with tsc and spawn node; run the entry with \`bun src/main.ts\` (or \`bun --watch\`) instead`, sites: [] });
+  }
+  return checks;
+};
+
+const profileNext = (scripts: Record<string, string>): FrameworkCheck[] => {
+  const checks: FrameworkCheck[] = [];
+  const dev = scriptsRunning(scripts, /\bnext\s+dev\b/);
+  if (dev.length > 0) {
+    checks.push({ check: "next dev", severity: "yellow", detail: `scripts ${dev.join(", ")}: \`bun run\` starts next under Node (the next bin has a node shebang); \`bun --bun next dev\` runs the dev server on Bun, which Next.js does not officially support`, sites: [] });
+  }
+  const prod = scriptsRunning(scripts, /\bnext\s+(?:build|start)\b/);
+  if (prod.length > 0) {
+    checks.push({ check: "next build / next start", severity: "green", detail: `scripts ${prod.join(", ")}: run with \`bun --bun\` to build and serve on Bun`, sites: [] });
+  }
+  checks.push({ check: "edge runtime", severity: "green", detail: "middleware and edge routes run in Next's own sandbox, not in Bun", sites: [] });
+  return checks;
+};
+
+const profileRemix = (scripts: Record<string, string>, sources: Map<string, string>): FrameworkCheck[] => {
+  const checks: FrameworkCheck[] = [];
+  const globals = findSites(sources, /\binstallGlobals\s*\(/g);
+  if (globals.length > 0) {
+    checks.push({ check: "installGlobals()", severity: "yellow", detail: "replaces Bun's fetch, Request, Response and FormData with undici's polyfills; skip it under Bun", sites: globals });
+  }
+  const serve = scriptsRunning(scripts, /\bremix-serve\b/);
+  if (serve.length > 0) {
+    checks.push({ check: "remix-serve", severity: "yellow", detail: `scripts ${serve.join(", ")}: remix-serve has a node shebang; use \`bun --bun remix-serve\` or a Bun.serve entry with @remix-run/server-runtime`, sites: [] });
+  }
+  const classic = scriptsRunning(scripts, /\bremix\s+(?:dev|build|watch)\b/);
+  if (classic.length > 0) {
+    checks.push({ check: "remix compiler", severity: "green", detail: `scripts ${classic.join(", ")}: the compiler runs under Bun; the Vite plugin (remix vite:dev) works as well`, sites: [] });
+  }
+  return checks;
+};
+
+const profileNuxt = (scripts: Record<string, string>, configText: string | null): FrameworkCheck[] => {
+  const checks: FrameworkCheck[] = [];
+  const dev = scriptsRunning(scripts, /\bnuxi?\s+dev\b/);
+  if (dev.length > 0) {
+    checks.push({ check: "nuxt dev", severity: "green", detail: `scripts ${dev.join(", ")}: use \`bun --bun nuxi dev\` to run the dev server on Bun rather than Node`, sites: [] });
+  }
+  const preset = configText?.match(/\bpreset\s*:\s*['"`]([\w-]+)['"`]/)?.[1];
+  if (preset && preset !== "bun" && preset !== "node-server") {
+    checks.push({ check: "nitro preset", severity: "yellow", detail: `nitro preset "${preset}" targets another platform; build with NITRO_PRESET=bun to serve the output with Bun`, sites: [] });
+  } else {
+    checks.push({ check: "nitro preset", severity: "green", detail: preset === "bun" ? "nitro builds a Bun-native server" : "node-server output runs under bun; NITRO_PRESET=bun builds a Bun-native server", sites: [] });
+  }
+  return checks;
+};
+
+const worst = (checks: FrameworkCheck[]): Severity =>
+  checks.some((c) => c.severity === "red") ? "red" : checks.some((c) => c.severity === "yellow") ? "yellow" : "green";
+
+/**
+ * Detect the frameworks a package uses and check their known Bun problem areas
+ */
+export async function profileFrameworks(packagePath: string, pkg: PackageInfo, tsconfig: TsconfigInfo | null): Promise<FrameworkProfile[]> {
+  const deps = { ...pkg.devDependencies, ...pkg.dependencies };
+  const scripts = pkg.scripts ?? {};
+
+  const detected: Array<{ name: FrameworkName; version: string; configFiles: string[] }> = [];
+  for (const [name, spec] of Object.entries(FRAMEWORKS) as Array<[FrameworkName, FrameworkSpec]>) {
+    const dep = spec.packages.find((p) => deps[p] !== undefined);
+    const configFiles: string[] = [];
+    for (const f of spec.configFiles) {
+      if (await fileExists(path.join(packagePath, f))) configFiles.push(f);
+    }
+    if (dep || configFiles.length > 0) {
+      detected.push({ name, version: dep ? deps[dep] ?? "" : "", configFiles });
+    }
+  }
+  if (detected.length === 0) return [];
+
+  const sources = new Map<string, string>();
+  for (const file of await ownSourceFiles(packagePath)) {
+    try {
+      sources.set(path.relative(packagePath, file).replace(/\\/g, "/"), await fs.readFile(file, "utf8"));
+    } catch {
+      // Skip unreadable files
+    }
+  }
+
+  const profiles: FrameworkProfile[] = [];
+  for (const { name, version, configFiles } of detected) {
+    let checks: FrameworkCheck[] = [];
+    if (name === "express") checks = profileExpress(deps, sources);
+    if (name === "fastify") checks = profileFastify(deps, sources);
+    if (name === "nestjs") checks = profileNest(deps, scripts, tsconfig);
+    if (name === "nextjs") checks = profileNext(scripts);
+    if (name === "remix") checks = profileRemix(scripts, sources);
+    if (name === "nuxt") {
+      const configText = configFiles[0] ? await fs.readFile(path.join(packagePath, configFiles[0]), "utf8").catch(() => null) : null;
+      checks = profileNuxt(scripts, configText);
+    }
+
+    const severity = worst(checks);
+    const firstIssue = checks.find((c) => c.severity === severity && severity !== "green");
+    profiles.push({
+      framework: name,
+      label: FRAMEWORKS[name].label,
+      version,
+      configFiles,
+      severity,
+      verdict: `${FRAMEWORKS[name].label} ${VERDICTS[severity]}${firstIssue ? ` (${firstIssue.check})` : ""}`,
+      checks
+    });
+  }
+  return profiles;
+}
@@ -1,140 +1,21 @@
-import type { BunReadyConfig, FindingsSummary, Finding, PackageStats, RepoInfo, Severity } from "./types.js";
+import type { BunReadyConfig, FindingsSummary, Finding, FrameworkProfile, PackageStats, PackageUsageStats, PlatformTarget, RepoInfo, Severity } from "./types.js";
 import type { PackageJson } from "./internal_types.js";
+import { NATIVE_BUILD_HELPERS, resolveDirectDependents, type LockfileData } from "./lockfile.js";
+import type { InstalledNativeScan, NativeConfidence } from "./native_evidence.js";
+import type { RegistryConfig } from "./registry_config.js";
+import { collectOverrides } from "./overrides.js";
+import { classifyDependencies } from "./dep_specifiers.js";
+import { bunPatchEntry, type PatchInfo } from "./patches.js";
+import { extractNodeFlags, type NodeFlagMapping } from "./node_flags.js";
+import type { TestRunnerLevel, TestRunnerProfile } from "./test_runners.js";
+import type { ToolchainInfo } from "./toolchain.js";
+import type { TsconfigInfo, TsconfigLevel } from "./tsconfig.js";
+import { BUNDLED_COMPAT_DB, type CompatDb } from "./compat_db.js";
+import { findReplacements } from "./replacements.js";
+import { findPolyfills, REDUNDANT_POLYFILLS } from "./polyfills.js";
 import { stableSort } from "./util.js";
 
-const NATIVE_SUSPECTS = [
-  "node-gyp",
-  "node-pre-gyp",
-  "prebuild-install",
-  "bindings",
-  "nan",
-  "node-addon-api",
-  "node-sass",
-  "sharp",
-  "canvas",
-  "better-sqlite3",
-  "sqlite3",
-  "bcrypt",
-  "argon2",
-  "bufferutil",
-  "utf-8-validate",
-  "fsevents"
-];
-
-// Expanded list of native addon suspects for v0.2
-const NATIVE_SUSPECTS_V2 = [
-  // Existing suspects
-  "node-gyp",
-  "node-pre-gyp",
-  "prebuild-install",
-  "bindings",
-  "nan",
-  "node-addon-api",
-  "node-sass",
-  "sharp",
-  "canvas",
-  "better-sqlite3",
-  "sqlite3",
-  "bcrypt",
-  "argon2",
-  "bufferutil",
-  "utf-8-validate",
-  "fsevents",
-  // Additional v0.2 suspects
-  "grpc",
-  "@grpc/grpc-js",
-  "grpc-js",
-  "bcryptjs", // some use native variant
-  "bcrypt",
-  "sodium",
-  "libsodium",
-  "leveldb",
-  "level",
-  "rocksdb",
-  "mysql2",
-  "pg", // some versions have native bindings
-  "oracledb",
-  "nodegit",
-  "ffi-napi",
-  "node-ffi",
-  "ref-napi",
-  "skia-canvas",
-  "jimp",
-  "pdfkit",
-  "sharp",
-  "pixelmatch",
-  "cheerio", // some versions use native
-  "node-wav",
-  "lamejs",
-  "flac-bindings",
-  "opus-recorder",
-  "silk-wasm",
-  "zeromq",
-  "zeromq.js",
-  "mongodb", // some versions
-  "redis", // hiredis
-  "ioredis",
-  "elasticsearch",
-  "snappy",
-  "snappyjs",
-  "iltorb",
-  "brotli",
-  "node-sha3",
-  "ursa",
-  "node-forge", // pure JS but often used with native
-  "jsonwebtoken", // pure JS but check usage
-  "node-cron", // pure JS but check
-  "bull", // pure JS but uses ioredis
-  "bullmq" // pure JS but uses ioredis
-];
-
-// Dev tools that may need migration attention
-const DEV_TOOL_SUSPECTS = [
-  "jest",
-  "vitest",
-  "mocha",
-  "chai",
-  "ava",
-  "tap",
-  "jasmine",
-  "karma",
-  "cypress",
-  "playwright",
-  "puppeteer",
-  "selenium-webdriver",
-  "webdriverio",
-  "nightwatch",
-  "testcafe",
-  "protractor"
-];
-
-// Runtime/build tools that may need Bun compatibility checks
-const RUNTIME_TOOL_SUSPECTS = [
-  "ts-node",
-  "tsx",
-  "ts-node-dev",
-  "nodemon",
-  "babel",
-  "@babel/core",
-  "@babel/node",
-  "babel-cli",
-  "babel-register",
-  "babel-preset-env",
-  "webpack",
-  "webpack-cli",
-  "rollup",
-  "@rollup/plugin",
-  "esbuild",
-  "vite",
-  "@vitejs/plugin",
-  "swc",
-  "@swc/core",
-  "@swc/register",
-  "turbopack",
-  "snowpack",
-  "parcel",
-  "browserify"
-];
+// Native addon, dev tool and runtime tool names come from the compatibility database (compat_db.json)
 
 // Package manager specific commands
 const PM_SPECIFIC_COMMANDS = [
@@ -208,7 +89,55 @@ export const detectScriptRisks = (repo: RepoInfo): Finding[] => {
   return findings;
 };
 
-export const detectNativeAddonRisk = (repo: RepoInfo): Finding[] => {
+const NODE_FLAG_MAPPING_LABELS: Record<NodeFlagMapping, string> = {
+  "bun-flag": "Bun flag",
+  preload: "preload",
+  "not-needed": "not needed",
+  unsupported: "unsupported"
+};
+
+/**
+ * Detect node CLI flags, loaders and NODE_OPTIONS in scripts, mapped per script to
+ * a Bun flag, a bunfig.toml preload, "not needed" or "unsupported"
+ * - yellow: a flag needs a preload or has no Bun equivalent
+ * - green: every flag maps to a Bun flag or is not needed
+ */
+export const detectNodeFlags = (repo: RepoInfo): Finding[] => {
+  const details: string[] = [];
+  let needsWork = false;
+
+  for (const name of stableSort(Object.keys(repo.scripts), (x) => x)) {
+    const script = repo.scripts[name] ?? "";
+    const usages = extractNodeFlags(script);
+    if (usages.length === 0) continue;
+
+    details.push(`${name}: ${script}`);
+    for (const u of usages) {
+      const source = u.source === "node" ? "" : ` (${u.source})`;
+      const target = u.bun ? ` -> ${u.bun}` : "";
+      details.push(`  - ${u.flag}${source}: ${NODE_FLAG_MAPPING_LABELS[u.mapping]}${target} - ${u.note}`);
+      if (u.mapping === "preload" || u.mapping === "unsupported") needsWork = true;
+    }
+  }
+
+  if (details.length === 0) return [];
+
+  return [
+    {
+      id: "scripts.node_flags",
+      title: needsWork ? "Scripts pass node flags that need changes under Bun" : "Scripts pass node flags that Bun supports",
+      severity: needsWork ? "yellow" : "green",
+      details,
+      hints: [
+        "--require/--import modules move to bunfig.toml `preload` (or `bun --preload`).",
+        "Loaders for TypeScript/ESM (ts-node, tsx, @babel/register) can be dropped; custom loaders need a Bun plugin.",
+        "V8 tuning flags such as --max-old-space-size have no effect on Bun's JavaScriptCore engine."
+      ]
+    }
+  ];
+};
+
+export const detectNativeAddonRisk = (repo: RepoInfo, db: CompatDb = BUNDLED_COMPAT_DB): Finding[] => {
   const allDeps = {
     ...repo.dependencies,
     ...repo.devDependencies,
@@ -216,7 +145,7 @@ export const detectNativeAddonRisk = (repo: RepoInfo): Finding[] => {
   };
 
   const names = Object.keys(allDeps);
-  const suspects = stableSort(names.filter((n) => NATIVE_SUSPECTS.includes(n) || includesAny(n, ["napi", "node-gyp", "prebuild", "ffi"])), (x) => x);
+  const suspects = stableSort(names.filter((n) => db.nativeSuspects.includes(n) || includesAny(n, ["napi", "node-gyp", "prebuild", "ffi"])), (x) => x);
 
   if (suspects.length === 0) return [];
 
@@ -280,14 +209,21 @@ export const detectLockfileSignals = (repo: RepoInfo): Finding[] => {
 /**
  * Detect Node runtime API reliance risks
  * - engines.node < 18 is a yellow signal (older packages/infra)
+ *   unless the toolchain was collected (see detectToolchain), which checks the range itself
  * - ts-node, tsx, babel, swc, webpack are yellow (check runtime/bundling compatibility)
  * - jest, vitest are yellow (may need migration to bun:test or config adjustments)
+ *   unless the runner was profiled (see detectTestRunners)
  */
-export const detectRuntimeApiRisks = (repo: RepoInfo): Finding[] => {
+export const detectRuntimeApiRisks = (
+  repo: RepoInfo,
+  testRunners?: TestRunnerProfile[] | null,
+  db: CompatDb = BUNDLED_COMPAT_DB,
+  toolchain?: ToolchainInfo | null
+): Finding[] => {
   const findings: Finding[] = [];
 
   // Check engines.node
-  if (repo.packageJson?.engines?.node) {
+  if (repo.packageJson?.engines?.node && !toolchain?.entries.some((e) => e.field === "engines.node")) {
     const nodeVersion = repo.packageJson.engines.node;
     const match = nodeVersion.match(/>=?(\d+)/);
     if (match && match[1]) {
@@ -312,8 +248,9 @@ export const detectRuntimeApiRisks = (repo: RepoInfo): Finding[] => {
   const deps = Object.keys(allDeps);
 
   // Dev tools
-  const devToolHits = deps.filter((d) => DEV_TOOL_SUSPECTS.includes(d) || deps.some((x) => x.startsWith(`${d}/`)));
-  const relevantDevTools = devToolHits.filter((d) => allDeps[d]); // Only direct deps
+  const devToolHits = deps.filter((d) => db.devTools.includes(d) || deps.some((x) => x.startsWith(`${d}/`)));
+  const profiled = new Set((testRunners ?? []).map((p) => p.runner as string));
+  const relevantDevTools = devToolHits.filter((d) => allDeps[d] && !profiled.has(d)); // Only direct deps
   if (relevantDevTools.length > 0) {
     findings.push({
       id: "runtime.dev_tools",
@@ -329,7 +266,7 @@ export const detectRuntimeApiRisks = (repo: RepoInfo): Finding[] => {
   }
 
   // Runtime tools
-  const runtimeToolHits = deps.filter((d) => RUNTIME_TOOL_SUSPECTS.includes(d) || deps.some((x) => x.startsWith(`${d}/`)));
+  const runtimeToolHits = deps.filter((d) => db.runtimeTools.includes(d) || deps.some((x) => x.startsWith(`${d}/`)));
   const relevantRuntimeTools = runtimeToolHits.filter((d) => allDeps[d]);
   if (relevantRuntimeTools.length > 0) {
     findings.push({
@@ -412,8 +349,10 @@ export const detectPmAssumptions = (repo: RepoInfo): Finding[] => {
  * - Expanded list of native addon suspects
  * - RED for explicit node-gyp, node-sass or node-gyp rebuild in scripts
  * - YELLOW for other native addon suspects
+ * - When node_modules is installed, real native markers confirm or replace the name guesses:
+ *   installed suspects without markers are dropped, packages with markers are added
  */
-export const detectNativeAddonRiskV2 = (repo: RepoInfo, config?: BunReadyConfig): Finding[] => {
+export const detectNativeAddonRiskV2 = (repo: RepoInfo, config?: BunReadyConfig, installed?: InstalledNativeScan | null, db: CompatDb = BUNDLED_COMPAT_DB): Finding[] => {
   const allDeps = {
     ...repo.dependencies,
     ...repo.devDependencies,
@@ -424,25 +363,50 @@ export const detectNativeAddonRiskV2 = (repo: RepoInfo, config?: BunReadyConfig)
   
   // Check for allowlist
   const allowlist = config?.nativeAddonAllowlist || [];
-  
-  const suspects = names.filter((n) => {
-    // Skip if in allowlist
-    if (allowlist.includes(n)) return false;
-    
-    // Check if in NATIVE_SUSPECTS_V2 list
-    const inList = NATIVE_SUSPECTS_V2.includes(n);
+
+  const matchesName = (n: string): boolean => {
+    // Check the extended native suspects list
+    const inList = db.nativeSuspectsExtended.includes(n);
     if (inList) return true;
     
     // Check for keyword matches - use more specific patterns to avoid false positives
     const keywords = ["@napi-rs/", "napi-rs", "node-napi", "neon", "node-gyp", "prebuild", "ffi", "bindings", "native", "native-module"];
-    const keywordMatch = includesAny(n, keywords);
-    
-    if (keywordMatch) {
-      return true;
+    return includesAny(n, keywords);
+  };
+
+  const suspects: Array<{ name: string; confidence: NativeConfidence; evidence: string }> = [];
+  const ruledOut: string[] = [];
+
+  for (const n of names) {
+    // Skip if in allowlist
+    if (allowlist.includes(n)) continue;
+
+    const evidence = installed?.evidence.get(n);
+    if (evidence) {
+      suspects.push({ name: n, confidence: evidence.confidence, evidence: evidence.evidence });
+      continue;
+    }
+
+    // Build toolchain packages are evidence of native compilation on their own
+    if (NATIVE_BUILD_HELPERS.includes(n)) {
+      suspects.push({ name: n, confidence: "medium", evidence: "native build toolchain package" });
+      continue;
     }
-    
-    return false;
-  });
+
+    if (!matchesName(n)) continue;
+
+    // Installed and no native markers: the name guess was wrong
+    if (installed && installed.installed.has(n)) {
+      ruledOut.push(n);
+      continue;
+    }
+
+    suspects.push({
+      name: n,
+      confidence: "low",
+      evidence: installed ? "name match only, package not installed" : "name match only, node_modules not installed"
+    });
+  }
 
   // Check scripts for node-gyp rebuild
   const scriptNames = Object.keys(repo.scripts);
@@ -454,25 +418,284 @@ export const detectNativeAddonRiskV2 = (repo: RepoInfo, config?: BunReadyConfig)
   // Return empty only if no suspects AND no node-gyp rebuild in scripts
   if (suspects.length === 0 && !hasNodeGypRebuild) return [];
 
-  const hardRed = suspects.some((n) => n === "node-gyp" || n === "node-sass") || hasNodeGypRebuild;
+  const hardRed = suspects.some((s) => s.name === "node-gyp" || s.name === "node-sass") || hasNodeGypRebuild;
   const severity: Severity = hardRed ? "red" : "yellow";
 
+  const details: string[] = [];
+  for (const s of suspects) {
+    details.push(`${s.name}@${allDeps[s.name]}`);
+    details.push(`  - confidence: ${s.confidence} (evidence: ${s.evidence})`);
+  }
+  if (ruledOut.length > 0) {
+    details.push(`Ruled out by installed package contents (no native markers): ${stableSort(ruledOut, (x) => x).join(", ")}`);
+  }
+
   return [
     {
       id: "deps.native_addons",
       title: "Potential native addons / node-gyp toolchain risk",
       severity,
-      details: suspects.map((n) => `${n}@${allDeps[n]}`),
+      details,
       hints: [
         "Native addons often require toolchains and can be sensitive to runtime differences.",
         "If you see install/build failures, try upgrading these packages or switching to pure-JS alternatives.",
         "Some packages offer optional native modules that can be disabled via configuration.",
-        "Check if native modules are in use or just installed for optional features."
+        "Check if native modules are in use or just installed for optional features.",
+        "Low-confidence entries are name guesses; run the scan after installing dependencies to confirm them from node_modules."
       ]
     }
   ];
 };
 
+/**
+ * Detect transitive dependencies that run install scripts or build native code
+ * - Reads install-script and native build markers from the parsed lockfile
+ * - Each package is attributed to the direct dependencies that pull it in; packages no direct
+ *   dependency reaches (other workspace members' dependencies in a root lockfile) are skipped
+ * - Packages already listed in trustedDependencies (the package's own or the root's) are skipped
+ */
+export const detectTransitiveInstallScripts = (repo: RepoInfo, lock: LockfileData | null, rootTrusted: string[] = []): Finding[] => {
+  if (!lock) return [];
+
+  const directDeps = Object.keys({
+    ...repo.dependencies,
+    ...repo.devDependencies,
+    ...repo.optionalDependencies
+  });
+  const trusted = [...(repo.packageJson?.trustedDependencies ?? []), ...rootTrusted];
+  const dependents = resolveDirectDependents(lock, directDeps);
+
+  const details: string[] = [];
+  const seen = new Set<string>();
+  for (const pkg of stableSort(lock.packages, (p) => `${p.name}@${p.version}`)) {
+    if (!pkg.hasInstallScript && pkg.nativeMarkers.length === 0) continue;
+    if (trusted.includes(pkg.name)) continue;
+
+    const via = dependents.get(pkg.name) ?? [];
+    if (via.length === 0) continue;
+
+    const key = `${pkg.name}@${pkg.version}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const reasons: string[] = [];
+    if (pkg.hasInstallScript) reasons.push("install script");
+    reasons.push(...pkg.nativeMarkers);
+
+    const origin = directDeps.includes(pkg.name) ? "direct dependency" : `via ${via.join(", ")}`;
+
+    details.push(`${key} (${reasons.join(", ")}) - ${origin}`);
+  }
+
+  if (details.length === 0) return [];
+
+  return [
+    {
+      id: "deps.transitive_install_scripts",
+      title: "Dependencies with install scripts or native builds (from lockfile)",
+      severity: "yellow",
+      details: [`Source: ${lock.kind}`, ...details],
+      hints: [
+        "Bun does not run dependency lifecycle scripts unless the package is listed in trustedDependencies.",
+        "Native addons that build on install may be left unbuilt; add the ones you trust to trustedDependencies.",
+        "Check whether the direct dependency offers a prebuilt or pure-JS alternative."
+      ]
+    }
+  ];
+};
+
+/**
+ * Registry settings from .npmrc / .yarnrc.yml and their bunfig.toml equivalents
+ * - GREEN when every setting translates to bunfig.toml
+ * - YELLOW when some settings have no equivalent
+ */
+export const detectRegistryConfig = (repo: RepoInfo, registry: RegistryConfig | null): Finding[] => {
+  if (!registry || registry.settings.length === 0) return [];
+
+  const translated = registry.settings.filter((s) => s.bunfig !== null);
+  const unsupported = registry.settings.filter((s) => s.bunfig === null);
+
+  const details: string[] = [];
+  for (const s of translated) {
+    details.push(`${s.file}: ${s.display} -> ${s.bunfig}`);
+  }
+  for (const s of unsupported) {
+    details.push(`${s.file}: ${s.display} -> no bunfig.toml equivalent${s.note ? ` (${s.note})` : ""}`);
+  }
+
+  const hints: string[] = [];
+  if (translated.length > 0) {
+    hints.push(
+      registry.hasBunfig
+        ? "bunfig.toml already exists; compare its [install] section with `bun-ready bunfig <path>` output."
+        : "Run `bun-ready bunfig <path>` to generate the bunfig.toml [install] section (add --write to save it)."
+    );
+    hints.push("Secrets are never copied: tokens and passwords become environment references such as $NPM_TOKEN.");
+  }
+  if (unsupported.length > 0) {
+    hints.push("Settings without a bunfig.toml equivalent must be handled outside bunfig.toml, usually with environment variables.");
+    hints.push("If `bun install` fails against a private registry, check these settings first.");
+  }
+
+  return [
+    {
+      id: "install.registry_config",
+      title: "Registry settings in .npmrc / .yarnrc.yml",
+      severity: unsupported.length > 0 ? "yellow" : "green",
+      details,
+      hints
+    }
+  ];
+};
+
+/**
+ * overrides / resolutions / pnpm.overrides / patchedDependencies that Bun does not honor as written
+ */
+export const detectOverrides = (repo: RepoInfo): Finding[] => {
+  const entries = collectOverrides(repo.packageJson);
+  const problems = entries.filter((e) => e.problem !== null);
+  if (problems.length === 0) return [];
+
+  const details: string[] = [];
+  for (const e of problems) {
+    details.push(`${e.source}: "${e.key}": ${JSON.stringify(e.value)} - ${e.problem}`);
+    if (e.suggestion) {
+      details.push(`  - use "${e.suggestion.field}": { "${e.suggestion.key}": ${JSON.stringify(e.suggestion.value)} }`);
+    } else {
+      details.push(`  - no Bun equivalent`);
+    }
+  }
+
+  const hints = [
+    "Bun honors top-level \"overrides\" and \"resolutions\" keyed by package name; nested overrides, `**/` globs and version selectors are not applied.",
+    "A flattened override applies to every copy of the package in the tree; check that this is what you want."
+  ];
+  if (problems.some((e) => e.source.startsWith("pnpm."))) {
+    hints.push("Bun does not read the \"pnpm\" field; move its overrides to top-level \"overrides\" (pnpm patches are covered by deps.patches).");
+  }
+
+  return [
+    {
+      id: "deps.overrides",
+      title: "Dependency overrides Bun does not honor as written",
+      severity: "yellow",
+      details,
+      hints
+    }
+  ];
+};
+
+/**
+ * Dependency specifiers by protocol
+ * - RED for protocols bun install rejects (yarn patch:, portal:, exec:)
+ * - YELLOW for protocols Bun handles differently (catalog:, npm: alias ranges, git deps with prepare)
+ */
+export const detectDependencySpecifiers = (repo: RepoInfo, prepareScripts: Map<string, string | null> | null): Finding[] => {
+  const specs = classifyDependencies(repo, prepareScripts);
+  const flagged = specs.filter((s) => s.support === "different" || s.support === "unsupported");
+  const unknown = specs.filter((s) => s.support === "unknown");
+  if (flagged.length === 0 && unknown.length === 0) return [];
+
+  const counts = new Map<string, number>();
+  for (const s of specs) counts.set(s.protocol, (counts.get(s.protocol) ?? 0) + 1);
+  const summary = stableSort(Array.from(counts.entries()), ([p]) => p).map(([p, n]) => `${p} ${n}`).join(", ");
+
+  const details: string[] = [`Specifiers: ${summary}`];
+  for (const s of stableSort(flagged, (x) => x.name)) {
+    details.push(`${s.name}@${s.spec} (${s.protocol}, ${s.field}) - ${s.support === "unsupported" ? "not supported by Bun" : "handled differently by Bun"}`);
+    if (s.hint) details.push(`  - ${s.hint}`);
+  }
+  if (unknown.length > 0) {
+    // Not a known difference (a fresh checkout has no node_modules), so the packages stay clean
+    details.push(`Unknown (not installed): ${stableSort(unknown, (x) => x.name).map((s) => `${s.name}@${s.spec}`).join(", ")}`);
+    details.push("  - prepare scripts of git dependencies are checked once node_modules exists; Bun does not run them");
+  }
+
+  return [
+    {
+      id: "deps.specifiers",
+      title: flagged.length > 0
+        ? "Dependency specifiers Bun does not support or treats differently"
+        : `Git dependencies not installed; prepare scripts not checked (${unknown.length})`,
+      severity: flagged.some((s) => s.support === "unsupported") ? "red" : flagged.length > 0 ? "yellow" : "green",
+      details,
+      hints: [
+        "Bun supports registry versions, workspace:, link:, file:, git and tarball URLs.",
+        "Yarn-only protocols (patch:, portal:, exec:) make bun install fail; replace them before migrating.",
+        "Git dependencies that build in a prepare script install unbuilt under Bun."
+      ]
+    }
+  ];
+};
+
+/**
+ * patch-package, pnpm and yarn patches that need to move to Bun patchedDependencies
+ * - YELLOW for every migration
+ * - RED when a patch no longer applies to the installed or locked version
+ */
+export const detectPatches = (repo: RepoInfo, patches: PatchInfo[]): Finding[] => {
+  if (patches.length === 0) return [];
+
+  const details: string[] = [];
+  const entries: Record<string, string> = {};
+  let broken = false;
+
+  for (const p of patches) {
+    details.push(`${p.name}@${p.version} (${p.source}: ${p.file})`);
+
+    if (p.lockfileVersions) {
+      if (p.lockfileVersions.length === 0) {
+        details.push(`  - not found in the lockfile`);
+      } else if (!p.lockfileVersions.includes(p.version)) {
+        details.push(`  - lockfile resolves ${p.lockfileVersions.join(", ")}; patch was made for ${p.version}`);
+        broken = true;
+      } else {
+        details.push(`  - lockfile resolves ${p.version}`);
+      }
+    }
+
+    if (p.status === "applies") details.push(`  - applies cleanly to installed ${p.name}@${p.installedVersion ?? "?"}`);
+    if (p.status === "already-applied") details.push(`  - already applied to installed ${p.name}@${p.installedVersion ?? "?"}`);
+    if (p.status === "unknown") details.push(`  - not installed; could not check that the patch applies`);
+    if (p.status === "does-not-apply") {
+      details.push(`  - does not apply${p.installedVersion ? ` to installed ${p.name}@${p.installedVersion}` : ""}: ${p.failedFile ?? p.file}`);
+      broken = true;
+    }
+    const entry = bunPatchEntry(p);
+    if (entry) {
+      entries[entry.key] = entry.path;
+      if (entry.rewrite) {
+        details.push(`  - diff paths start with node_modules/${p.name}/; write the package-relative copy Bun applies: \`${entry.rewrite}\``);
+      }
+    } else {
+      details.push(`  - not added to patchedDependencies, since it does not apply to the version Bun would install`);
+      details.push(`  - re-create it: \`bun patch ${p.name}@${p.version}\`, apply the change in node_modules/${p.name}, then \`bun patch --commit node_modules/${p.name}\``);
+    }
+  }
+
+  if (Object.keys(entries).length > 0) {
+    details.push(`Bun patchedDependencies: ${JSON.stringify(entries)}`);
+  }
+
+  const hints = [
+    "Bun applies patches listed in package.json \"patchedDependencies\" (\"name@version\": \"path/to.patch\") during install.",
+    "Re-create a patch with `bun patch <pkg>` and `bun patch --commit <path>` if it does not apply."
+  ];
+  if (patches.some((p) => p.source === "patch-package")) {
+    hints.push("Remove patch-package from postinstall once the patches are in patchedDependencies.");
+  }
+
+  return [
+    {
+      id: "deps.patches",
+      title: "Dependency patches to migrate to bun patch",
+      severity: broken ? "red" : "yellow",
+      details,
+      hints
+    }
+  ];
+};
+
 export const summarizeSeverity = (findings: Finding[], installOk: boolean | null, testOk: boolean | null): Severity => {
   let sev: Severity = "green";
   for (const f of findings) sev = maxSeverity(sev, f.severity);
@@ -565,3 +788,300 @@ export const calculateFindingsSummary = (findings: Finding[]): FindingsSummary =
     total: green + yellow + red
   };
 };
+
+const TEST_RUNNER_LEVEL_LABELS: Record<TestRunnerLevel, string> = {
+  unchanged: "unchanged",
+  shim: "preload shim",
+  blocker: "blocks migration"
+};
+
+/**
+ * Detect test runner migration effort from per-runner compatibility profiles
+ * - red: at least one item has no bun test equivalent
+ * - yellow: items need a [test] preload shim or a config change
+ * - green: the suite should run under bun test unchanged
+ */
+export const detectTestRunners = (repo: RepoInfo, profiles: TestRunnerProfile[]): Finding[] => {
+  if (profiles.length === 0) return [];
+
+  const all = profiles.flatMap((p) => p.items);
+  const severity: Severity = all.some((i) => i.level === "blocker") ? "red" : all.some((i) => i.level === "shim") ? "yellow" : "green";
+
+  const details: string[] = [];
+  for (const p of profiles) {
+    const config = p.configFiles.length > 0 ? `config: ${p.configFiles.join(", ")}` : "no config file";
+    details.push(`${p.runner}${p.version ? `@${p.version}` : ""} (${config}; ${p.testFiles} test files)`);
+    for (const level of ["unchanged", "shim", "blocker"] as TestRunnerLevel[]) {
+      const items = p.items.filter((i) => i.level === level);
+      if (items.length === 0) continue;
+      if (level === "unchanged") {
+        details.push(`  - ${TEST_RUNNER_LEVEL_LABELS[level]}: ${items.map((i) => i.item).join(", ")}`);
+        continue;
+      }
+      for (const i of items) {
+        const sites = i.sites.length > 0 ? ` (${i.sites.slice(0, 3).join(", ")}${i.sites.length > 3 ? `, +${i.sites.length - 3} more` : ""})` : "";
+        details.push(`  - ${TEST_RUNNER_LEVEL_LABELS[level]}: ${i.item}${sites}${i.hint ? ` - ${i.hint}` : ""}`);
+      }
+    }
+  }
+
+  const runners = profiles.map((p) => p.runner).join(", ");
+  return [
+    {
+      id: "runtime.test_runner",
+      title:
+        severity === "red"
+          ? `Test suite (${runners}) uses features that block a move to bun test`
+          : severity === "yellow"
+            ? `Test suite (${runners}) can run under bun test with preload shims`
+            : `Test suite (${runners}) should run under bun test unchanged`,
+      severity,
+      details,
+      hints: [
+        "Shims go in a file listed under bunfig.toml [test] preload, which runs before every test file.",
+        "Blockers need the affected tests rewritten, or kept on the current runner until they are.",
+        "Run `bun test` on a branch to confirm; the profile is based on config files and static source scans."
+      ]
+    }
+  ];
+};
+
+/**
+ * Detect packageManager / engines / volta / version-file conflicts with Bun
+ * - yellow: an entry pins another package manager or excludes the Node/Bun versions Bun provides
+ * - green: toolchain entries found, nothing conflicts
+ * The proposed package.json fields and version-file lines are listed last.
+ */
+export const detectToolchain = (repo: RepoInfo, toolchain: ToolchainInfo | null): Finding[] => {
+  if (!toolchain || toolchain.entries.length === 0) return [];
+
+  const details: string[] = [];
+  for (const e of toolchain.entries) {
+    const status = e.problem ?? e.note ?? "ok";
+    details.push(`${e.file} ${e.field}: ${e.spec} - ${status}`);
+  }
+
+  const proposed: string[] = [];
+  if (toolchain.packageJson.packageManager) proposed.push(`"packageManager": "${toolchain.packageJson.packageManager}"`);
+  if (toolchain.packageJson.engines) proposed.push(`"engines": { "bun": "${toolchain.packageJson.engines.bun}" }`);
+  if (proposed.length > 0) details.push(`Proposed package.json: ${proposed.join(", ")}`);
+  for (const line of toolchain.versionFiles) details.push(`Proposed ${line}`);
+
+  const conflicts = toolchain.entries.filter((e) => e.problem);
+  return [
+    {
+      id: "runtime.toolchain",
+      title:
+        conflicts.length > 0
+          ? `Toolchain pins conflict with Bun (${conflicts.length} of ${toolchain.entries.length} entries)`
+          : "Toolchain pins are compatible with Bun",
+      severity: conflicts.length > 0 ? "yellow" : "green",
+      details,
+      hints: [
+        "Set packageManager to bun@<version> (or drop it and disable corepack) so scripts and CI stop resolving npm/yarn/pnpm.",
+        "Replace engines.npm/pnpm/yarn with engines.bun, and widen engines.node if it excludes the Node version Bun reports.",
+        "Keep .nvmrc/.node-version only if tools still run under Node; pin Bun with .bun-version or a `bun` line in .tool-versions."
+      ]
+    }
+  ];
+};
+
+/**
+ * Detect dependencies that a Bun built-in can replace (bcrypt -> Bun.password, ws -> Bun.serve, ...)
+ * - Always green: the packages keep working, dropping them is optional
+ */
+export const detectBunReplacements = (repo: RepoInfo): Finding[] => {
+  // Polyfills (node-fetch, dotenv, ...) are reported once, by detectRedundantPolyfills
+  const matches = findReplacements({ ...repo.devDependencies, ...repo.dependencies }).filter((m) => findPolyfills({ [m.packageName]: m.version }).length === 0);
+  if (matches.length === 0) return [];
+
+  return [
+    {
+      id: "deps.bun_replacements",
+      title: `Dependencies with a Bun built-in replacement (${matches.length})`,
+      severity: "green",
+      details: matches.map((m) => `${m.replacement} can replace ${m.packageName}@${m.version} (effort: ${m.effort}): ${m.usage}`),
+      hints: [
+        "These packages work under Bun; replacing them drops a dependency (and for bcrypt/better-sqlite3/sqlite3, a native build).",
+        "Run with --detailed to see the API differences and which files import each package."
+      ]
+    }
+  ];
+};
+
+const listFiles = (files: string[]): string =>
+  files.length > 5 ? `${files.slice(0, 5).join(", ")}, ... and ${files.length - 5} more` : files.join(", ");
+
+/**
+ * Detect polyfills Bun makes redundant, with the files that import them
+ * - green: imports that can simply be removed (dropping the polyfill changes those files)
+ * - yellow: side-effect imports that replace one of Bun's own globals (import 'isomorphic-fetch')
+ */
+export const detectRedundantPolyfills = (repo: RepoInfo, usage: PackageUsageStats | null): Finding[] => {
+  const polyfills = findPolyfills({ ...repo.devDependencies, ...repo.dependencies });
+  if (polyfills.length === 0) return [];
+
+  const details: string[] = [];
+  const globalDetails: string[] = [];
+  const changedFiles = new Set<string>();
+
+  for (const name of polyfills) {
+    const polyfill = REDUNDANT_POLYFILLS[name]!;
+    const version = repo.dependencies[name] ?? repo.devDependencies[name] ?? "";
+    const files = usage?.usageByPackage.get(name)?.filePaths ?? [];
+    for (const f of files) changedFiles.add(f);
+
+    const where = !usage
+      ? "usage not analyzed"
+      : files.length === 0
+        ? "not imported; only package.json changes"
+        : `imported in ${files.length} file${files.length !== 1 ? "s" : ""}: ${listFiles(files)}`;
+    details.push(`${name}@${version} -> ${polyfill.builtIn} (${where}) - ${polyfill.note}`);
+
+    // Source files with a side-effect import, and scripts that preload it (node -r esm)
+    const preload = new RegExp(`(?:-r|--require)[\\s=]+${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?:/|\\s|$)`);
+    const globalFiles = [
+      ...(usage?.usageByPackage.get(name)?.globalImportPaths ?? []),
+      ...Object.keys(repo.scripts).filter((s) => preload.test(repo.scripts[s]!)).map((s) => `scripts.${s}`)
+    ];
+    if (polyfill.patches && globalFiles.length > 0) {
+      globalDetails.push(`${name} replaces ${polyfill.patches}: ${listFiles(globalFiles)}`);
+    }
+  }
+
+  const findings: Finding[] = [
+    {
+      id: "deps.redundant_polyfills",
+      title: usage
+        ? `Polyfills redundant under Bun (${polyfills.length}); dropping them changes ${changedFiles.size} source file${changedFiles.size !== 1 ? "s" : ""}`
+        : `Polyfills redundant under Bun (${polyfills.length})`,
+      severity: "green",
+      details,
+      hints: [
+        "Bun ships these APIs natively; remove the dependency and its imports once Node is no longer a target.",
+        "Keep a polyfill only while the same code must still run on a Node version that lacks the API."
+      ]
+    }
+  ];
+
+  if (globalDetails.length > 0) {
+    findings.push({
+      id: "deps.global_polyfills",
+      title: "Polyfills loaded for their side effects replace Bun's built-in implementations",
+      severity: "yellow",
+      details: globalDetails,
+      hints: [
+        "These imports overwrite globals or Module internals Bun already implements natively, which can be slower or behave differently.",
+        "Delete the import lines, or load the polyfill conditionally: `if (!process.versions.bun) require(\"isomorphic-fetch\")`."
+      ]
+    });
+  }
+
+  return findings;
+};
+
+const TSCONFIG_LEVEL_LABELS: Record<TsconfigLevel, string> = {
+  honored: "honored",
+  ignored: "ignored",
+  different: "handled differently"
+};
+
+/**
+ * Detect tsconfig.json settings Bun's transpiler honors, ignores or handles differently
+ * - yellow: a setting that changes runtime behavior, project references or a broken extends chain
+ * - green: the settings Bun reads behave like tsc
+ */
+export const detectTsconfig = (repo: RepoInfo, tsconfig: TsconfigInfo | null): Finding[] => {
+  if (!tsconfig) return [];
+
+  const details: string[] = [];
+  details.push(tsconfig.chain.length > 0 ? `${tsconfig.file} (extends ${tsconfig.chain.join(" -> ")})` : tsconfig.file);
+  for (const u of tsconfig.unresolved) {
+    details.push(`  - unresolved extends: ${u}`);
+  }
+  for (const level of ["different", "ignored", "honored"] as TsconfigLevel[]) {
+    for (const setting of tsconfig.settings.filter((x) => x.level === level)) {
+      const from = setting.file === tsconfig.file ? "" : ` (from ${setting.file})`;
+      details.push(`  - ${TSCONFIG_LEVEL_LABELS[level]}: ${setting.option}: ${setting.value}${from} - ${setting.note}`);
+    }
+  }
+  if (tsconfig.references.length > 0) {
+    details.push(`  - ignored: references: ${tsconfig.references.join(", ")} - Bun does not build referenced projects; imports must resolve to source through paths or workspaces`);
+  }
+
+  const attention = tsconfig.settings.filter((x) => x.attention).length + (tsconfig.references.length > 0 ? 1 : 0) + tsconfig.unresolved.length;
+  return [
+    {
+      id: "runtime.tsconfig",
+      title:
+        attention > 0
+          ? `tsconfig.json has ${attention} setting(s) Bun handles differently from tsc`
+          : "tsconfig.json settings are compatible with Bun's transpiler",
+      severity: attention > 0 ? "yellow" : "green",
+      details,
+      hints: [
+        "Bun reads the nearest tsconfig.json for paths, baseUrl, JSX and decorator settings; it never type-checks, so keep running tsc --noEmit.",
+        "Options marked ignored only matter for tsc; check the ones marked handled differently before switching the runtime."
+      ]
+    }
+  ];
+};
+
+/**
+ * Detect web frameworks and their Bun readiness from per-framework profiles
+ * - red/yellow/green: the worst framework verdict
+ */
+export const detectFrameworks = (repo: RepoInfo, profiles: FrameworkProfile[]): Finding[] => {
+  if (profiles.length === 0) return [];
+
+  const severity = profiles.reduce<Severity>((sev, p) => maxSeverity(sev, p.severity), "green");
+  const details: string[] = [];
+  for (const p of profiles) {
+    const config = p.configFiles.length > 0 ? `; config: ${p.configFiles.join(", ")}` : "";
+    details.push(`${p.verdict}${p.version ? ` [${p.version}]` : ""}${config}`);
+    for (const c of p.checks) {
+      const sites = c.sites.length > 0 ? ` (${c.sites.slice(0, 3).join(", ")}${c.sites.length > 3 ? `, +${c.sites.length - 3} more` : ""})` : "";
+      details.push(`  - ${c.severity}: ${c.check}${sites} - ${c.detail}`);
+    }
+  }
+
+  const labels = profiles.map((p) => p.label).join(", ");
+  return [
+    {
+      id: "runtime.framework",
+      title:
+        severity === "red"
+          ? `Framework profile (${labels}) found blockers for Bun`
+          : severity === "yellow"
+            ? `Framework profile (${labels}) needs changes to run on Bun`
+            : `Framework profile (${labels}) should run on Bun`,
+      severity,
+      details,
+      hints: [
+        "Profiles cover the known problem areas of each framework; run the dev server and the production entry with bun to confirm.",
+        "Scripts that start a framework CLI run it under Node unless you use `bun --bun <cli>`."
+      ]
+    }
+  ];
+};
+
+/**
+ * Report a platform target (Electron, React Native, VS Code extension) that makes a Bun migration meaningless
+ * - green: informational; the package is marked not applicable and left out of the overall verdict
+ */
+export const detectPlatformTarget = (repo: RepoInfo, target: PlatformTarget | null): Finding[] => {
+  if (!target) return [];
+
+  return [
+    {
+      id: "runtime.platform_target",
+      title: `Package targets ${target.label}; migrating it to Bun is not applicable`,
+      severity: "green",
+      details: target.evidence.map((e) => `Evidence: ${e}`),
+      hints: [
+        `${target.label} ships its own JavaScript runtime, so the package keeps running there whatever runs the rest of the repo.`,
+        "The package is excluded from the overall verdict and exit code; Bun can still install its dependencies and run its scripts."
+      ]
+    }
+  ];
+};
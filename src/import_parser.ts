@@ -12,8 +12,12 @@ export interface ParsedImport {
   modulePath: string;
   /** Type of import */
   importType: ImportType;
-  /** Named imports (for esm-named) */
+  /** Named imports (for esm-named and destructured requires) */
   namedImports?: string[];
+  /** Local binding for default, namespace and `const x = require()` imports */
+  localName?: string;
+  /** Members used: named imports, or property accesses on localName */
+  members?: ImportedMember[];
   /** Has node: prefix */
   hasNodePrefix: boolean;
   /** Line number in file */
@@ -22,6 +26,13 @@ export interface ParsedImport {
   raw: string;
 }
 
+export interface ImportedMember {
+  /** Export name (e.g., 'watch' for fs.watch) */
+  name: string;
+  /** Line number of the import or the property access */
+  line: number;
+}
+
 export interface CJSGlobalUsage {
   /** Global name (__dirname, __filename, etc.) */
   global: string;
@@ -69,6 +80,9 @@ const DYNAMIC_IMPORT_REGEX = /import\s*\(\s*['"]([^'"]+)['"]\s*\)/g;
 /** CJS require: require('module') or require("module") */
 const CJS_REQUIRE_REGEX = /require\s*\(\s*['"]([^'"]+)['"]\s*\)/g;
 
+/** Binding in front of a require: `const x = ` or `const { a, b: c } = ` */
+const CJS_BINDING_REGEX = /(?:const|let|var)\s+(\w+|\{[^{}]*\})\s*=\s*$/;
+
 /** ESM export: export ... */
 const ESM_EXPORT_REGEX = /^export\s+/gm;
 
@@ -87,8 +101,17 @@ const FILENAME_REGEX = /__filename/g;
 /** require.main usage */
 const REQUIRE_MAIN_REGEX = /require\.main/g;
 
-/** require.cache usage */
-const REQUIRE_CACHE_REGEX = /require\.cache/g;
+/** require.cache usage (and Module._cache, the same object) */
+const REQUIRE_CACHE_REGEX = /require\.cache|\b(?:Module|module\.constructor)\._cache\b/g;
+
+/** Module._resolveFilename usage (module-alias, tsconfig-paths) */
+const MODULE_RESOLVE_FILENAME_REGEX = /\b(?:Module|module\.constructor)\._resolveFilename\b/g;
+
+/** Module._extensions usage (pirates, @babel/register, rewire) */
+const MODULE_EXTENSIONS_REGEX = /\b(?:Module|module\.constructor)\._extensions\b/g;
+
+/** Module.prototype.require usage (require-in-the-middle, mock-require) */
+const MODULE_PROTOTYPE_REQUIRE_REGEX = /\b(?:Module|module\.constructor)\.prototype\.require\b/g;
 
 /** Clean regex state by resetting lastIndex */
 function resetRegex(regex: RegExp): void {
@@ -149,6 +172,7 @@ export function parseImports(content: string): ParsedImport[] {
     imports.push({
       modulePath,
       importType: 'esm-default',
+      localName: moduleName,
       hasNodePrefix: modulePath.startsWith('node:'),
       line: lineNumber,
       raw: match[0],
@@ -165,6 +189,7 @@ export function parseImports(content: string): ParsedImport[] {
     imports.push({
       modulePath,
       importType: 'esm-namespace',
+      localName: match[1],
       hasNodePrefix: modulePath.startsWith('node:'),
       line: lineNumber,
       raw: match[0],
@@ -194,9 +219,17 @@ export function parseImports(content: string): ParsedImport[] {
     
     const lineNumber = content.substring(0, match.index).split('\n').length;
     
+    // const x = require('m') / const { a, b: c } = require('m')
+    const lineStart = content.lastIndexOf('\n', match.index) + 1;
+    const binding = content.substring(lineStart, match.index).match(CJS_BINDING_REGEX)?.[1];
+    const namedImports = binding?.startsWith('{')
+      ? binding.slice(1, -1).split(',').map(s => s.split(':')[0]?.trim() || '').filter(s => s.length > 0)
+      : undefined;
+    
     imports.push({
       modulePath,
       importType: 'cjs',
+      ...(namedImports ? { namedImports } : binding ? { localName: binding } : {}),
       hasNodePrefix: modulePath.startsWith('node:'),
       line: lineNumber,
       raw: match[0],
@@ -204,11 +237,43 @@ export function parseImports(content: string): ParsedImport[] {
   }
   
   // Sort by line number and deduplicate
-  return imports
+  const unique = imports
     .sort((a, b) => a.line - b.line)
     .filter((imp, idx, arr) => 
       arr.findIndex(i => i.modulePath === imp.modulePath && i.line === imp.line) === idx
     );
+  
+  // Record the members each import uses
+  for (const imp of unique) {
+    if (imp.namedImports) {
+      imp.members = imp.namedImports.map(name => ({ name, line: imp.line }));
+    } else if (imp.localName) {
+      imp.members = trackMemberAccess(content, imp.localName);
+    }
+  }
+  
+  return unique;
+}
+
+/**
+ * Find property accesses on an import binding (`fs.watch(...)`, `cp.fork`)
+ */
+export function trackMemberAccess(content: string, binding: string): ImportedMember[] {
+  const members: ImportedMember[] = [];
+  const escaped = binding.replace(/\$/g, '\\$');
+  const regex = new RegExp(`(?<![\\w$.])${escaped}\\s*\\??\\.\\s*([A-Za-z_$][\\w$]*)`, 'g');
+  
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(content)) !== null) {
+    const name = match[1];
+    if (!name) continue;
+    const line = content.substring(0, match.index).split('\n').length;
+    if (!members.some(m => m.name === name && m.line === line)) {
+      members.push({ name, line });
+    }
+  }
+  
+  return members;
 }
 
 /**
@@ -223,6 +288,9 @@ export function parseCJSGlobals(content: string): CJSGlobalUsage[] {
     { name: '__filename', regex: FILENAME_REGEX },
     { name: 'require.main', regex: REQUIRE_MAIN_REGEX },
     { name: 'require.cache', regex: REQUIRE_CACHE_REGEX },
+    { name: 'Module._resolveFilename', regex: MODULE_RESOLVE_FILENAME_REGEX },
+    { name: 'Module._extensions', regex: MODULE_EXTENSIONS_REGEX },
+    { name: 'Module.prototype.require', regex: MODULE_PROTOTYPE_REQUIRE_REGEX },
   ];
   
   for (const { name, regex } of globalsToCheck) {
@@ -8,7 +8,24 @@ export type PackageJson = {
   dependencies?: Record<string, string>;
   devDependencies?: Record<string, string>;
   optionalDependencies?: Record<string, string>;
+  trustedDependencies?: string[];
+  overrides?: Record<string, unknown>;
+  resolutions?: Record<string, string>;
+  patchedDependencies?: Record<string, string>;
+  pnpm?: {
+    overrides?: Record<string, string>;
+    patchedDependencies?: Record<string, string>;
+  };
+  packageManager?: string;
   engines?: {
     node?: string;
+    bun?: string;
+    npm?: string;
+    pnpm?: string;
+    yarn?: string;
+    vscode?: string;
   };
+  volta?: Record<string, string>;
+  jest?: unknown;
+  mocha?: unknown;
 };
@@ -0,0 +1,320 @@
+// File: src/lockfile.ts
+// Lockfile readers for package-lock.json, yarn.lock and pnpm-lock.yaml
+
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import type { RepoInfo } from "./types.js";
+import { fileExists } from "./util.js";
+
+/**
+ * Packages whose presence as a dependency means the parent compiles or loads a native addon
+ */
+export const NATIVE_BUILD_HELPERS = [
+  "node-gyp",
+  "node-gyp-build",
+  "node-pre-gyp",
+  "@mapbox/node-pre-gyp",
+  "prebuild-install",
+  "node-addon-api",
+  "nan",
+  "bindings",
+  "cmake-js"
+];
+
+export type LockfileKind = "package-lock.json" | "yarn.lock" | "pnpm-lock.yaml";
+
+export interface LockfilePackage {
+  name: string;
+  version: string;
+  /** Names of the packages this one depends on (dependencies + optionalDependencies) */
+  dependencies: string[];
+  /** Lockfile says the package runs preinstall/install/postinstall scripts */
+  hasInstallScript: boolean;
+  /** Native build hints, e.g. "gypfile" or "depends on node-gyp-build" */
+  nativeMarkers: string[];
+}
+
+export interface LockfileData {
+  kind: LockfileKind;
+  packages: LockfilePackage[];
+}
+
+const stripQuotes = (s: string): string => s.trim().replace(/^["']|["']$/g, "");
+
+/**
+ * Split "name@range" (or "@scope/name@range") into the package name
+ */
+const nameFromSelector = (selector: string): string => {
+  const s = stripQuotes(selector);
+  const at = s.indexOf("@", 1);
+  return at === -1 ? s : s.slice(0, at);
+};
+
+const indentOf = (line: string): number => line.length - line.trimStart().length;
+
+const addNativeMarkers = (pkg: LockfilePackage): LockfilePackage => {
+  for (const dep of pkg.dependencies) {
+    if (NATIVE_BUILD_HELPERS.includes(dep)) {
+      pkg.nativeMarkers.push(`depends on ${dep}`);
+    }
+  }
+  return pkg;
+};
+
+/**
+ * Parse package-lock.json (lockfileVersion 1, 2 and 3)
+ */
+export function parsePackageLock(content: string): LockfilePackage[] {
+  let lock: Record<string, unknown>;
+  try {
+    lock = JSON.parse(content) as Record<string, unknown>;
+  } catch {
+    return [];
+  }
+
+  const result: LockfilePackage[] = [];
+
+  // v2/v3: flat "packages" map keyed by install path
+  const packages = lock.packages as Record<string, Record<string, unknown>> | undefined;
+  if (packages && typeof packages === "object") {
+    for (const [key, entry] of Object.entries(packages)) {
+      if (key === "" || !entry || entry.link === true) continue;
+      const idx = key.lastIndexOf("node_modules/");
+      if (idx === -1) continue; // workspace folders, not installed packages
+
+      const name = typeof entry.name === "string" ? entry.name : key.slice(idx + "node_modules/".length);
+      const dependencies = [
+        ...Object.keys((entry.dependencies as Record<string, string>) ?? {}),
+        ...Object.keys((entry.optionalDependencies as Record<string, string>) ?? {})
+      ];
+      const pkg: LockfilePackage = {
+        name,
+        version: typeof entry.version === "string" ? entry.version : "",
+        dependencies,
+        hasInstallScript: entry.hasInstallScript === true,
+        nativeMarkers: entry.gypfile === true ? ["gypfile"] : []
+      };
+      result.push(addNativeMarkers(pkg));
+    }
+    return result;
+  }
+
+  // v1: nested "dependencies" tree with "requires"
+  const walk = (deps: Record<string, Record<string, unknown>> | undefined): void => {
+    if (!deps) return;
+    for (const [name, entry] of Object.entries(deps)) {
+      const pkg: LockfilePackage = {
+        name,
+        version: typeof entry.version === "string" ? entry.version : "",
+        dependencies: Object.keys((entry.requires as Record<string, string>) ?? {}),
+        hasInstallScript: entry.hasInstallScript === true,
+        nativeMarkers: entry.gypfile === true ? ["gypfile"] : []
+      };
+      result.push(addNativeMarkers(pkg));
+      walk(entry.dependencies as Record<string, Record<string, unknown>> | undefined);
+    }
+  };
+  walk(lock.dependencies as Record<string, Record<string, unknown>> | undefined);
+
+  return result;
+}
+
+/**
+ * Parse yarn.lock (classic v1 and berry formats)
+ */
+export function parseYarnLock(content: string): LockfilePackage[] {
+  const result: LockfilePackage[] = [];
+  let current: LockfilePackage | null = null;
+  let inDeps = false;
+
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.replace(/\r$/, "");
+    if (line.trim() === "" || line.trimStart().startsWith("#")) continue;
+
+    const indent = indentOf(line);
+    const trimmed = line.trim();
+
+    if (indent === 0) {
+      inDeps = false;
+      current = null;
+      if (!trimmed.endsWith(":") || trimmed.startsWith("__metadata")) continue;
+      const firstSelector = trimmed.slice(0, -1).split(",")[0] ?? "";
+      current = { name: nameFromSelector(firstSelector), version: "", dependencies: [], hasInstallScript: false, nativeMarkers: [] };
+      result.push(current);
+      continue;
+    }
+
+    if (!current) continue;
+
+    if (indent === 2) {
+      inDeps = trimmed === "dependencies:" || trimmed === "optionalDependencies:";
+      const versionMatch = trimmed.match(/^version:?\s+"?([^"\s]+)"?/);
+      if (versionMatch && versionMatch[1]) {
+        current.version = versionMatch[1];
+      }
+      continue;
+    }
+
+    if (inDeps && indent >= 4) {
+      // v1: "name" "range"   berry: name: "npm:range"
+      const depMatch = trimmed.match(/^("(?:[^"]+)"|[^\s:]+):?\s/);
+      if (depMatch && depMatch[1]) {
+        current.dependencies.push(stripQuotes(depMatch[1]));
+      }
+    }
+  }
+
+  return result.map(addNativeMarkers);
+}
+
+/**
+ * Split a pnpm package key ("/foo@1.0.0", "foo@1.0.0(peer@2)", "/foo/1.0.0") into name and version
+ */
+const parsePnpmKey = (key: string): { name: string; version: string } => {
+  let k = stripQuotes(key).replace(/^\//, "");
+  const paren = k.indexOf("(");
+  if (paren !== -1) k = k.slice(0, paren);
+
+  const at = k.indexOf("@", 1);
+  if (at !== -1) {
+    return { name: k.slice(0, at), version: k.slice(at + 1) };
+  }
+
+  // lockfile v5: /name/version or /@scope/name/version
+  const slash = k.lastIndexOf("/");
+  return slash === -1 ? { name: k, version: "" } : { name: k.slice(0, slash), version: k.slice(slash + 1) };
+};
+
+/**
+ * Parse pnpm-lock.yaml (lockfile v5, v6 and v9)
+ */
+export function parsePnpmLock(content: string): LockfilePackage[] {
+  const byKey = new Map<string, LockfilePackage>();
+  let section = "";
+  let current: LockfilePackage | null = null;
+  let inDeps = false;
+
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.replace(/\r$/, "");
+    if (line.trim() === "" || line.trimStart().startsWith("#")) continue;
+
+    const indent = indentOf(line);
+    const trimmed = line.trim();
+
+    if (indent === 0) {
+      section = trimmed.replace(/:$/, "");
+      current = null;
+      inDeps = false;
+      continue;
+    }
+
+    if (section !== "packages" && section !== "snapshots") continue;
+
+    if (indent === 2 && trimmed.endsWith(":")) {
+      const { name, version } = parsePnpmKey(trimmed.slice(0, -1));
+      const id = `${name}@${version}`;
+      current = byKey.get(id) ?? null;
+      if (!current) {
+        current = { name, version, dependencies: [], hasInstallScript: false, nativeMarkers: [] };
+        byKey.set(id, current);
+      }
+      inDeps = false;
+      continue;
+    }
+
+    if (!current) continue;
+
+    if (indent === 4) {
+      inDeps = trimmed === "dependencies:" || trimmed === "optionalDependencies:";
+      if (trimmed === "requiresBuild: true") {
+        current.hasInstallScript = true;
+      }
+      continue;
+    }
+
+    if (inDeps && indent >= 6) {
+      const depMatch = trimmed.match(/^('[^']+'|"[^"]+"|[^\s:]+):/);
+      if (depMatch && depMatch[1] && !current.dependencies.includes(stripQuotes(depMatch[1]))) {
+        current.dependencies.push(stripQuotes(depMatch[1]));
+      }
+    }
+  }
+
+  return Array.from(byKey.values()).map(addNativeMarkers);
+}
+
+/**
+ * Read the lockfile present in a package directory.
+ * package-lock.json wins over pnpm-lock.yaml, which wins over yarn.lock.
+ */
+export async function readLockfile(packagePath: string, lockfiles: RepoInfo["lockfiles"]): Promise<LockfileData | null> {
+  const candidates: Array<{ present: boolean; kind: LockfileKind; parse: (c: string) => LockfilePackage[] }> = [
+    { present: lockfiles.npmLock, kind: "package-lock.json", parse: parsePackageLock },
+    { present: lockfiles.pnpmLock, kind: "pnpm-lock.yaml", parse: parsePnpmLock },
+    { present: lockfiles.yarnLock, kind: "yarn.lock", parse: parseYarnLock }
+  ];
+
+  for (const c of candidates) {
+    if (!c.present) continue;
+    try {
+      const content = await fs.readFile(path.join(packagePath, c.kind), "utf8");
+      return { kind: c.kind, packages: c.parse(content) };
+    } catch {
+      continue;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read the first lockfile found in the search paths (package directory first, then the repo root).
+ * Workspace packages usually have no lockfile of their own and share the root one.
+ */
+export async function findLockfile(searchPaths: string[]): Promise<LockfileData | null> {
+  for (const dir of Array.from(new Set(searchPaths))) {
+    const lock = await readLockfile(dir, {
+      bunLock: false,
+      bunLockb: false,
+      npmLock: await fileExists(path.join(dir, "package-lock.json")),
+      yarnLock: await fileExists(path.join(dir, "yarn.lock")),
+      pnpmLock: await fileExists(path.join(dir, "pnpm-lock.yaml"))
+    });
+    if (lock) return lock;
+  }
+  return null;
+}
+
+/**
+ * For every package in the lockfile, find which direct dependencies pull it in.
+ * Walks the dependency graph breadth-first from each direct dependency.
+ */
+export function resolveDirectDependents(lock: LockfileData, directDeps: string[]): Map<string, string[]> {
+  const graph = new Map<string, Set<string>>();
+  for (const pkg of lock.packages) {
+    const edges = graph.get(pkg.name) ?? new Set<string>();
+    for (const dep of pkg.dependencies) edges.add(dep);
+    graph.set(pkg.name, edges);
+  }
+
+  const dependents = new Map<string, string[]>();
+  for (const direct of [...directDeps].sort((a, b) => a.localeCompare(b))) {
+    const seen = new Set<string>([direct]);
+    const queue = [direct];
+    while (queue.length > 0) {
+      const name = queue.shift()!;
+      const via = dependents.get(name) ?? [];
+      if (!via.includes(direct)) via.push(direct);
+      dependents.set(name, via);
+
+      for (const next of graph.get(name) ?? []) {
+        if (!seen.has(next)) {
+          seen.add(next);
+          queue.push(next);
+        }
+      }
+    }
+  }
+
+  return dependents;
+}
@@ -0,0 +1,168 @@
+// File: src/native_evidence.ts
+// Evidence-based native addon detection from an installed node_modules tree
+
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { fileExists, readJsonFile } from "./util.js";
+
+// How deep to look for prebuilt *.node binaries inside a package (build/Release, prebuilds/<platform>, lib/binding/...)
+const MAX_BINARY_DEPTH = 3;
+
+// Directories inside a package that never hold the runtime binary
+const SKIP_BINARY_DIRS = new Set(["node_modules", "test", "tests", "docs", "example", "examples", ".git"]);
+
+export type NativeConfidence = "high" | "medium" | "low";
+
+export interface NativeEvidence {
+  packageName: string;
+  confidence: NativeConfidence;
+  /** Evidence path relative to the scanned package, e.g. "node_modules/sharp/binding.gyp" */
+  evidence: string;
+}
+
+export interface InstalledNativeScan {
+  /** Direct dependencies found in node_modules */
+  installed: Set<string>;
+  /** Native evidence by direct dependency name */
+  evidence: Map<string, NativeEvidence>;
+}
+
+type InstalledPackageJson = {
+  name?: string;
+  gypfile?: boolean;
+  binary?: unknown;
+  os?: string[];
+  cpu?: string[];
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+};
+
+const toPosix = (p: string): string => p.replace(/\\/g, "/");
+
+/**
+ * Find the first *.node binary inside a package directory
+ */
+async function findNodeBinary(dir: string, depth: number): Promise<string | null> {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return null;
+  }
+
+  for (const entry of entries) {
+    if (entry.isFile() && entry.name.endsWith(".node")) {
+      return path.join(dir, entry.name);
+    }
+  }
+
+  if (depth >= MAX_BINARY_DEPTH) return null;
+
+  for (const entry of entries) {
+    if (entry.isDirectory() && !SKIP_BINARY_DIRS.has(entry.name)) {
+      const found = await findNodeBinary(path.join(dir, entry.name), depth + 1);
+      if (found) return found;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Collect native markers for a single installed package.
+ * binding.gyp, gypfile and *.node binaries are strong evidence; binary/os/cpu fields are weaker.
+ */
+async function inspectPackage(pkgDir: string, pkg: InstalledPackageJson, relTo: string): Promise<Omit<NativeEvidence, "packageName"> | null> {
+  const rel = (p: string): string => toPosix(path.relative(relTo, p));
+
+  const gyp = path.join(pkgDir, "binding.gyp");
+  if (await fileExists(gyp)) {
+    return { confidence: "high", evidence: rel(gyp) };
+  }
+
+  if (pkg.gypfile === true) {
+    return { confidence: "high", evidence: `${rel(path.join(pkgDir, "package.json"))} (gypfile: true)` };
+  }
+
+  const binary = await findNodeBinary(pkgDir, 0);
+  if (binary) {
+    return { confidence: "high", evidence: rel(binary) };
+  }
+
+  if (pkg.binary !== undefined) {
+    return { confidence: "medium", evidence: `${rel(path.join(pkgDir, "package.json"))} (binary field)` };
+  }
+
+  if ((pkg.os && pkg.os.length > 0) || (pkg.cpu && pkg.cpu.length > 0)) {
+    return { confidence: "medium", evidence: `${rel(path.join(pkgDir, "package.json"))} (os/cpu fields)` };
+  }
+
+  return null;
+}
+
+/**
+ * Locate an installed package in the first node_modules that has it
+ */
+async function locatePackage(nodeModulesDirs: string[], name: string): Promise<{ dir: string; pkg: InstalledPackageJson } | null> {
+  for (const nm of nodeModulesDirs) {
+    const dir = path.join(nm, name);
+    const pkgJson = path.join(dir, "package.json");
+    if (await fileExists(pkgJson)) {
+      try {
+        return { dir, pkg: await readJsonFile<InstalledPackageJson>(pkgJson) };
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Look for real native addon markers of direct dependencies in node_modules.
+ * A dependency without its own markers still counts (medium confidence) when one of its
+ * dependencies ships the binary, e.g. sharp -> @img/sharp-linux-x64.
+ *
+ * @param searchPaths - Package directories whose node_modules should be searched, in priority order
+ * @param depNames - Direct dependency names
+ * @returns null when no node_modules directory exists
+ */
+export async function scanInstalledNativeAddons(searchPaths: string[], depNames: string[]): Promise<InstalledNativeScan | null> {
+  const nodeModulesDirs: string[] = [];
+  for (const p of searchPaths) {
+    const nm = path.join(p, "node_modules");
+    if (!nodeModulesDirs.includes(nm) && (await fileExists(nm))) {
+      nodeModulesDirs.push(nm);
+    }
+  }
+  if (nodeModulesDirs.length === 0) return null;
+
+  const relTo = searchPaths[0] ?? process.cwd();
+  const installed = new Set<string>();
+  const evidence = new Map<string, NativeEvidence>();
+
+  for (const name of depNames) {
+    const located = await locatePackage(nodeModulesDirs, name);
+    if (!located) continue;
+    installed.add(name);
+
+    const own = await inspectPackage(located.dir, located.pkg, relTo);
+    if (own) {
+      evidence.set(name, { packageName: name, ...own });
+      continue;
+    }
+
+    const children = Object.keys({ ...located.pkg.dependencies, ...located.pkg.optionalDependencies });
+    for (const child of children.sort((a, b) => a.localeCompare(b))) {
+      const childLocated = await locatePackage([path.join(located.dir, "node_modules"), ...nodeModulesDirs], child);
+      if (!childLocated) continue;
+      const childEvidence = await inspectPackage(childLocated.dir, childLocated.pkg, relTo);
+      if (childEvidence && childEvidence.confidence === "high") {
+        evidence.set(name, { packageName: name, confidence: "medium", evidence: `${childEvidence.evidence} (via ${child})` });
+        break;
+      }
+    }
+  }
+
+  return { installed, evidence };
+}
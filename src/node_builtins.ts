@@ -3,10 +3,26 @@
  * 
  * This file contains the classification of Node.js built-in modules
  * based on their compatibility with Bun runtime.
+ * The data itself lives in the compatibility database (compat_db.json).
  */
 
+import { BUNDLED_COMPAT_DB, type CompatDb } from './compat_db.js';
+
 export type ModuleCategory = 'green' | 'yellow' | 'red';
 
+export interface NodeExport {
+  /** Export name (e.g., 'watch' for fs.watch) */
+  name: string;
+  /** Compatibility category of this export */
+  category: ModuleCategory;
+  /** What differs in Bun */
+  notes?: string;
+  /** First Bun version where the category applies; older versions are red */
+  fixedIn?: string;
+  /** Range of Bun versions where the export is broken (red), e.g. ">=1.1.20 <1.1.22" */
+  brokenIn?: string;
+}
+
 export interface NodeModule {
   /** Module name (e.g., 'fs', 'node:fs', 'fs/promises') */
   name: string;
@@ -18,247 +34,29 @@ export interface NodeModule {
   bunAlternatives?: string[];
   /** Whether this module requires node: prefix for best compatibility */
   recommendsPrefix?: boolean;
+  /** First Bun version where the category applies; older versions are red */
+  fixedIn?: string;
+  /** Range of Bun versions where the module is broken (red) */
+  brokenIn?: string;
+  /** Exports whose compatibility differs from the module as a whole */
+  exports?: NodeExport[];
 }
 
 /**
- * Green Zone - Fully compatible with Bun
- * These modules work identically or near-identically in Bun
- */
-const GREEN_ZONE_MODULES: NodeModule[] = [
-  // File System
-  { name: 'fs', category: 'green', recommendsPrefix: true },
-  { name: 'fs/promises', category: 'green', recommendsPrefix: true },
-  { name: 'node:fs', category: 'green' },
-  { name: 'node:fs/promises', category: 'green' },
-  
-  // Path
-  { name: 'path', category: 'green', recommendsPrefix: true },
-  { name: 'path/posix', category: 'green', recommendsPrefix: true },
-  { name: 'path/win32', category: 'green', recommendsPrefix: true },
-  { name: 'node:path', category: 'green' },
-  
-  // URL and Utilities
-  { name: 'url', category: 'green', recommendsPrefix: true },
-  { name: 'util', category: 'green', recommendsPrefix: true },
-  { name: 'util/types', category: 'green', recommendsPrefix: true },
-  { name: 'node:url', category: 'green' },
-  { name: 'node:util', category: 'green' },
-  
-  // Events and Streams
-  { name: 'events', category: 'green', recommendsPrefix: true },
-  { name: 'stream', category: 'green', recommendsPrefix: true },
-  { name: 'stream/promises', category: 'green', recommendsPrefix: true },
-  { name: 'stream/web', category: 'green', recommendsPrefix: true },
-  { name: 'node:events', category: 'green' },
-  { name: 'node:stream', category: 'green' },
-  
-  // Crypto
-  { name: 'crypto', category: 'green', recommendsPrefix: true },
-  { name: 'node:crypto', category: 'green' },
-  
-  // Buffer and Encoding
-  { name: 'buffer', category: 'green', recommendsPrefix: true },
-  { name: 'string_decoder', category: 'green', recommendsPrefix: true },
-  { name: 'node:buffer', category: 'green' },
-  
-  // Query String
-  { name: 'querystring', category: 'green', recommendsPrefix: true },
-  { name: 'node:querystring', category: 'green' },
-  
-  // OS and System
-  { name: 'os', category: 'green', recommendsPrefix: true },
-  { name: 'node:os', category: 'green' },
-  
-  // DNS
-  { name: 'dns', category: 'green', recommendsPrefix: true },
-  { name: 'dns/promises', category: 'green', recommendsPrefix: true },
-  { name: 'node:dns', category: 'green' },
-  
-  // Console and Process
-  { name: 'console', category: 'green' },
-  { name: 'process', category: 'green' },
-  { name: 'node:process', category: 'green' },
-  
-  // Assert
-  { name: 'assert', category: 'green', recommendsPrefix: true },
-  { name: 'assert/strict', category: 'green', recommendsPrefix: true },
-  { name: 'node:assert', category: 'green' },
-  
-  // Constants
-  { name: 'constants', category: 'green' },
-  { name: 'node:constants', category: 'green' },
-  
-  // Timers
-  { name: 'timers', category: 'green', recommendsPrefix: true },
-  { name: 'timers/promises', category: 'green', recommendsPrefix: true },
-  { name: 'node:timers', category: 'green' },
-  
-  // readline
-  { name: 'readline', category: 'green', recommendsPrefix: true },
-  { name: 'readline/promises', category: 'green', recommendsPrefix: true },
-  { name: 'node:readline', category: 'green' },
-];
-
-/**
- * Yellow Zone - Partial compatibility or behavior differences
- * These modules work but may have subtle differences or have Bun alternatives
+ * Attach member-level entries (keyed without the node: prefix) to each module
  */
-const YELLOW_ZONE_MODULES: NodeModule[] = [
-  // Child Process
-  { 
-    name: 'child_process', 
-    category: 'yellow', 
-    notes: 'spawn and exec work, but signal handling may differ slightly',
-    recommendsPrefix: true 
-  },
-  { name: 'node:child_process', category: 'yellow', notes: 'spawn behavior differs slightly in Bun' },
-  
-  // HTTP - works but Bun has native alternative
-  { 
-    name: 'http', 
-    category: 'yellow', 
-    bunAlternatives: ['Bun.serve'],
-    recommendsPrefix: true 
-  },
-  { 
-    name: 'https', 
-    category: 'yellow', 
-    bunAlternatives: ['Bun.serve'],
-    recommendsPrefix: true 
-  },
-  { name: 'node:http', category: 'yellow', bunAlternatives: ['Bun.serve'] },
-  { name: 'node:https', category: 'yellow', bunAlternatives: ['Bun.serve'] },
-  
-  // HTTP2
-  { name: 'http2', category: 'yellow', recommendsPrefix: true },
-  { name: 'node:http2', category: 'yellow' },
-  
-  // Net
-  { name: 'net', category: 'yellow', recommendsPrefix: true },
-  { name: 'node:net', category: 'yellow' },
-  
-  // Worker Threads - different API in Bun
-  { 
-    name: 'worker_threads', 
-    category: 'yellow', 
-    notes: 'Bun uses different Worker API (Bun.Worker is not available, use Worker from node:worker_threads)',
-    recommendsPrefix: true 
-  },
-  { name: 'node:worker_threads', category: 'yellow', notes: 'Works but Bun has different threading model' },
-  
-  // Zlib
-  { name: 'zlib', category: 'yellow', recommendsPrefix: true },
-  { name: 'node:zlib', category: 'yellow' },
-  
-  // TLS
-  { name: 'tls', category: 'yellow', notes: 'Most features work, some cert options may differ', recommendsPrefix: true },
-  { name: 'node:tls', category: 'yellow' },
-  
-  // Performance Hooks
-  { name: 'perf_hooks', category: 'yellow', recommendsPrefix: true },
-  { name: 'node:perf_hooks', category: 'yellow' },
-  
-  // Async Hooks - limited support
-  { 
-    name: 'async_hooks', 
-    category: 'yellow', 
-    notes: 'Limited support in Bun - some hooks may not fire',
-    recommendsPrefix: true 
-  },
-  { name: 'node:async_hooks', category: 'yellow', notes: 'Limited support in Bun' },
-  
-  // Cluster
-  { name: 'cluster', category: 'yellow', recommendsPrefix: true },
-  { name: 'node:cluster', category: 'yellow' },
-  
-  // Dgram (UDP)
-  { name: 'dgram', category: 'yellow', recommendsPrefix: true },
-  { name: 'node:dgram', category: 'yellow' },
-  
-  // Punycode (deprecated but still available)
-  { name: 'punycode', category: 'yellow', notes: 'Deprecated in Node.js' },
-  { name: 'node:punycode', category: 'yellow', notes: 'Deprecated' },
-  
-  // Domain (deprecated)
-  { name: 'domain', category: 'yellow', notes: 'Deprecated in Node.js' },
-  { name: 'node:domain', category: 'yellow', notes: 'Deprecated' },
-];
-
-/**
- * Red Zone - Limited or no support, requires attention
- * These modules may not work correctly or at all in Bun
- */
-const RED_ZONE_MODULES: NodeModule[] = [
-  // VM - limited support
-  { 
-    name: 'vm', 
-    category: 'red', 
-    notes: 'Limited support in Bun - consider using isolated-vm or other alternatives',
-    bunAlternatives: ['isolated-vm', 'vm2 (deprecated)']
-  },
-  { 
-    name: 'vm/promises', 
-    category: 'red', 
-    notes: 'Limited support in Bun'
-  },
-  { name: 'node:vm', category: 'red', notes: 'Limited support in Bun' },
-  
-  // V8 - not applicable to Bun (uses JavaScriptCore)
-  { 
-    name: 'v8', 
-    category: 'red', 
-    notes: 'Not applicable - Bun uses JavaScriptCore, not V8',
-    bunAlternatives: ['None - V8-specific APIs unavailable']
-  },
-  { 
-    name: 'v8/tools', 
-    category: 'red', 
-    notes: 'V8-specific, not available in Bun'
-  },
-  { name: 'node:v8', category: 'red', notes: 'Not applicable - Bun uses JavaScriptCore' },
-  
-  // Inspector - different API
-  { 
-    name: 'inspector', 
-    category: 'red', 
-    notes: 'Different API in Bun - debugger integration differs'
-  },
-  { name: 'node:inspector', category: 'red', notes: 'Different API in Bun' },
-  { name: 'node:inspector/promises', category: 'red', notes: 'Different API in Bun' },
-  
-  // WASI - experimental
-  { 
-    name: 'wasi', 
-    category: 'red', 
-    notes: 'Experimental support in Bun - may not work correctly'
-  },
-  { name: 'node:wasi', category: 'red', notes: 'Experimental in Bun' },
-  
-  // REPL - implementation differences
-  { 
-    name: 'repl', 
-    category: 'red', 
-    notes: 'Implementation differs in Bun - use bun repl instead'
-  },
-  { name: 'node:repl', category: 'red', notes: 'Different implementation' },
-  
-  // Trace Events - not available
-  { 
-    name: 'trace_events', 
-    category: 'red', 
-    notes: 'Not available in Bun'
-  },
-  { name: 'node:trace_events', category: 'red', notes: 'Not available' },
-];
+function withExports(db: CompatDb): NodeModule[] {
+  return db.nodeModules.map(m => {
+    const exports = db.nodeExports[m.name.replace(/^node:/, '')];
+    return exports ? { ...m, exports } : m;
+  });
+}
 
 /**
- * All Node.js built-in modules with their compatibility info
+ * All Node.js built-in modules with their compatibility info,
+ * from the bundled compatibility database (src/compat_db.json)
  */
-export const NODE_MODULES: NodeModule[] = [
-  ...GREEN_ZONE_MODULES,
-  ...YELLOW_ZONE_MODULES,
-  ...RED_ZONE_MODULES,
-];
+export const NODE_MODULES: NodeModule[] = withExports(BUNDLED_COMPAT_DB);
 
 /**
  * Map of module name to module info for quick lookup
@@ -267,11 +65,32 @@ export const NODE_MODULES_MAP: Map<string, NodeModule> = new Map(
   NODE_MODULES.map(m => [m.name, m])
 );
 
+// Lookup maps for databases with a repo overlay applied
+const overlayMaps = new WeakMap<CompatDb, Map<string, NodeModule>>();
+
+const modulesMap = (db: CompatDb): Map<string, NodeModule> => {
+  if (db === BUNDLED_COMPAT_DB) return NODE_MODULES_MAP;
+  let map = overlayMaps.get(db);
+  if (!map) {
+    map = new Map(withExports(db).map(m => [m.name, m]));
+    overlayMaps.set(db, map);
+  }
+  return map;
+};
+
 /**
  * Get module info by name
  */
-export function getNodeModule(name: string): NodeModule | undefined {
-  return NODE_MODULES_MAP.get(name);
+export function getNodeModule(name: string, db: CompatDb = BUNDLED_COMPAT_DB): NodeModule | undefined {
+  return modulesMap(db).get(name);
+}
+
+/**
+ * Get compatibility info for one export of a module (with or without node: prefix)
+ */
+export function getNodeExport(moduleName: string, exportName: string, db: CompatDb = BUNDLED_COMPAT_DB): NodeExport | undefined {
+  const module = getNodeModule(moduleName, db) ?? getNodeModule(moduleName.replace(/^node:/, ''), db);
+  return module?.exports?.find(e => e.name === exportName);
 }
 
 /**
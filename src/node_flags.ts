@@ -0,0 +1,204 @@
+// File: src/node_flags.ts
+// Tokenize package.json scripts and map node CLI flags / NODE_OPTIONS to Bun
+
+export type NodeFlagMapping = "bun-flag" | "preload" | "not-needed" | "unsupported";
+
+export interface NodeFlagUsage {
+  /** Flag as written, with its value ("--require ./register.js", "--max-old-space-size=4096") */
+  flag: string;
+  /** Where it was found: the node command line or an env assignment (NODE_OPTIONS, NODE_PATH, ...) */
+  source: string;
+  mapping: NodeFlagMapping;
+  /** Bun flag or bunfig.toml line to use instead */
+  bun: string | null;
+  note: string;
+}
+
+type FlagRule = { takesValue: boolean; map: (value: string) => Omit<NodeFlagUsage, "flag" | "source"> };
+
+// Modules that only teach Node TypeScript/ESM; Bun does this natively
+const NATIVE_IN_BUN = ["ts-node/register", "ts-node/register/transpile-only", "ts-node/esm", "ts-node/esm/transpile-only", "@babel/register", "esm", "tsx", "tsx/cjs", "tsx/esm", "@swc/register", "@swc-node/register", "esbuild-register", "source-map-support/register", "dotenv/config"];
+
+const preload = (value: string): Omit<NodeFlagUsage, "flag" | "source"> =>
+  NATIVE_IN_BUN.includes(value)
+    ? { mapping: "not-needed", bun: null, note: value === "dotenv/config" ? "Bun loads .env files itself" : "Bun runs TypeScript and ESM natively" }
+    : { mapping: "preload", bun: `bunfig.toml preload = ["${value}"] (or bun --preload ${value})`, note: "runs before the entry point like --require" };
+
+const same = (bunFlag: string, note = "same flag in Bun"): FlagRule["map"] => (value) => ({
+  mapping: "bun-flag",
+  bun: value ? `${bunFlag} ${value}` : bunFlag,
+  note
+});
+
+const notNeeded = (note: string): FlagRule["map"] => () => ({ mapping: "not-needed", bun: null, note });
+const unsupported = (note: string): FlagRule["map"] => () => ({ mapping: "unsupported", bun: null, note });
+
+const NODE_FLAGS: Record<string, FlagRule> = {
+  "--require": { takesValue: true, map: preload },
+  "-r": { takesValue: true, map: preload },
+  "--import": { takesValue: true, map: preload },
+  "--loader": {
+    takesValue: true,
+    map: (v) => (NATIVE_IN_BUN.includes(v) ? preload(v) : { mapping: "unsupported", bun: null, note: "ESM loader hooks are not supported; port the loader to a Bun plugin registered in a preload" })
+  },
+  "--experimental-loader": {
+    takesValue: true,
+    map: (v) => (NATIVE_IN_BUN.includes(v) ? preload(v) : { mapping: "unsupported", bun: null, note: "ESM loader hooks are not supported; port the loader to a Bun plugin registered in a preload" })
+  },
+  "--experimental-vm-modules": { takesValue: false, map: notNeeded("only needed for Jest ESM; bun test runs ESM natively") },
+  "--experimental-specifier-resolution": { takesValue: true, map: notNeeded("Bun resolves extensionless ESM imports") },
+  "--experimental-strip-types": { takesValue: false, map: notNeeded("Bun runs TypeScript natively") },
+  "--experimental-transform-types": { takesValue: false, map: notNeeded("Bun runs TypeScript natively") },
+  "--experimental-json-modules": { takesValue: false, map: notNeeded("JSON imports work in Bun") },
+  "--experimental-modules": { takesValue: false, map: notNeeded("ESM works in Bun") },
+  "--enable-source-maps": { takesValue: false, map: notNeeded("Bun always applies source maps") },
+  "--max-old-space-size": { takesValue: true, map: unsupported("Bun runs on JavaScriptCore; the V8 heap limit has no equivalent") },
+  "--max-semi-space-size": { takesValue: true, map: unsupported("V8 heap tuning has no equivalent in Bun") },
+  "--stack-size": { takesValue: true, map: unsupported("V8 stack tuning has no equivalent in Bun") },
+  "--stack-trace-limit": { takesValue: true, map: unsupported("set Error.stackTraceLimit in code instead") },
+  "--expose-gc": { takesValue: false, map: unsupported("use Bun.gc() instead of global.gc()") },
+  "--inspect": { takesValue: false, map: same("--inspect", "Bun opens a WebKit inspector (debug.bun.sh), not Chrome DevTools") },
+  "--inspect-brk": { takesValue: false, map: same("--inspect-brk", "Bun opens a WebKit inspector (debug.bun.sh), not Chrome DevTools") },
+  "--inspect-wait": { takesValue: false, map: same("--inspect-wait", "Bun opens a WebKit inspector (debug.bun.sh), not Chrome DevTools") },
+  "--watch": { takesValue: false, map: same("--watch") },
+  "--watch-path": { takesValue: true, map: unsupported("bun --watch follows imported files; extra paths cannot be added") },
+  "--env-file": { takesValue: true, map: same("--env-file") },
+  "--conditions": { takesValue: true, map: same("--conditions") },
+  "-C": { takesValue: true, map: same("--conditions") },
+  "--eval": { takesValue: true, map: () => ({ mapping: "bun-flag", bun: "--eval", note: "same flag in Bun" }) },
+  "-e": { takesValue: true, map: () => ({ mapping: "bun-flag", bun: "--eval", note: "same flag in Bun" }) },
+  "--print": { takesValue: true, map: () => ({ mapping: "bun-flag", bun: "--print", note: "same flag in Bun" }) },
+  "-p": { takesValue: true, map: () => ({ mapping: "bun-flag", bun: "--print", note: "same flag in Bun" }) },
+  "--test": { takesValue: false, map: () => ({ mapping: "bun-flag", bun: "bun test", note: "node:test suites run under bun test" }) },
+  "--no-warnings": { takesValue: false, map: unsupported("Bun has no warning filter flag") },
+  "--no-deprecation": { takesValue: false, map: unsupported("Bun has no deprecation filter flag") },
+  "--trace-warnings": { takesValue: false, map: unsupported("Bun has no warning tracing flag") },
+  "--trace-deprecation": { takesValue: false, map: unsupported("Bun has no deprecation tracing flag") },
+  "--unhandled-rejections": { takesValue: true, map: unsupported("not configurable; handle process 'unhandledRejection' in code") },
+  "--dns-result-order": { takesValue: true, map: unsupported("call dns.setDefaultResultOrder() in code instead") },
+  "--input-type": { takesValue: true, map: unsupported("pass a file with the right extension instead") },
+  "--title": { takesValue: true, map: unsupported("set process.title in code instead") },
+  "--preserve-symlinks": { takesValue: false, map: unsupported("Bun resolves symlinks to their real path") }
+};
+
+// Env variables read by node itself, besides NODE_OPTIONS
+const NODE_ENV_VARS: Record<string, Omit<NodeFlagUsage, "flag" | "source">> = {
+  NODE_PATH: { mapping: "unsupported", bun: null, note: "Bun does not search NODE_PATH; use tsconfig paths or workspaces" },
+  NODE_NO_WARNINGS: { mapping: "unsupported", bun: null, note: "Bun has no warning filter" },
+  NODE_EXTRA_CA_CERTS: { mapping: "bun-flag", bun: "NODE_EXTRA_CA_CERTS", note: "read by Bun as well" },
+  NODE_TLS_REJECT_UNAUTHORIZED: { mapping: "bun-flag", bun: "NODE_TLS_REJECT_UNAUTHORIZED", note: "read by Bun as well" },
+  NODE_PRESERVE_SYMLINKS: { mapping: "unsupported", bun: null, note: "Bun resolves symlinks to their real path" }
+};
+
+/**
+ * Split a shell command line into commands (&&, ||, ;, |) of tokens, honoring quotes
+ */
+export const tokenizeScript = (script: string): string[][] => {
+  const commands: string[][] = [];
+  let tokens: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+  let inToken = false;
+
+  const endToken = (): void => {
+    if (inToken) tokens.push(current);
+    current = "";
+    inToken = false;
+  };
+  const endCommand = (): void => {
+    endToken();
+    if (tokens.length > 0) commands.push(tokens);
+    tokens = [];
+  };
+
+  for (let i = 0; i < script.length; i++) {
+    const c = script[i] ?? "";
+    if (quote) {
+      if (c === quote) quote = null;
+      else if (c === "\\" && quote === '"' && i + 1 < script.length) current += script[++i];
+      else current += c;
+      continue;
+    }
+    if (c === '"' || c === "'") {
+      quote = c;
+      inToken = true;
+    } else if (c === "\\" && i + 1 < script.length) {
+      current += script[++i];
+      inToken = true;
+    } else if (/\s/.test(c)) {
+      endToken();
+    } else if (c === "&" || c === "|" || c === ";") {
+      if (script[i + 1] === c) i++;
+      endCommand();
+    } else {
+      current += c;
+      inToken = true;
+    }
+  }
+  endCommand();
+  return commands;
+};
+
+/**
+ * Map node flags from a token list; stops at the first non-flag (the entry point)
+ */
+const mapFlags = (tokens: string[], source: string): NodeFlagUsage[] => {
+  const usages: NodeFlagUsage[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i] ?? "";
+    if (!token.startsWith("-") || token === "--") break;
+
+    const eq = token.indexOf("=");
+    const name = eq === -1 ? token : token.slice(0, eq);
+    const rule = NODE_FLAGS[name];
+    let value = eq === -1 ? "" : token.slice(eq + 1);
+    if (rule?.takesValue && eq === -1 && i + 1 < tokens.length) {
+      value = tokens[++i] ?? "";
+    }
+    const flag = value ? `${name}${eq === -1 ? " " : "="}${value}` : name;
+
+    if (rule) {
+      usages.push({ flag, source, ...rule.map(value) });
+    } else if (name.startsWith("--experimental-") || name.startsWith("--harmony")) {
+      usages.push({ flag, source, mapping: "unsupported", bun: null, note: "experimental V8/Node flag with no Bun equivalent" });
+    } else {
+      usages.push({ flag, source, mapping: "unsupported", bun: null, note: "no known Bun equivalent" });
+    }
+  }
+  return usages;
+};
+
+/**
+ * Pull node flags, NODE_OPTIONS and other node env assignments out of one script
+ */
+export const extractNodeFlags = (script: string): NodeFlagUsage[] => {
+  const usages: NodeFlagUsage[] = [];
+
+  for (const command of tokenizeScript(script)) {
+    let i = 0;
+    // Leading env assignments, optionally behind cross-env / env
+    while (i < command.length) {
+      const token = command[i] ?? "";
+      if (token === "cross-env" || token === "cross-env-shell" || token === "env") {
+        i++;
+        continue;
+      }
+      const m = token.match(/^([A-Z_][A-Z0-9_]*)=(.*)$/s);
+      if (!m || !m[1]) break;
+      const [, name, value = ""] = m;
+      if (name === "NODE_OPTIONS") {
+        usages.push(...mapFlags(tokenizeScript(value)[0] ?? [], "NODE_OPTIONS"));
+      } else if (NODE_ENV_VARS[name]) {
+        usages.push({ flag: `${name}=${value}`, source: name, ...NODE_ENV_VARS[name] });
+      }
+      i++;
+    }
+
+    const bin = command[i];
+    if (bin === "node" || bin === "nodejs") {
+      usages.push(...mapFlags(command.slice(i + 1), "node"));
+    }
+  }
+
+  return usages;
+};
@@ -0,0 +1,210 @@
+// File: src/overrides.ts
+// Classify overrides / resolutions / pnpm.overrides / patchedDependencies against what Bun honors
+
+import type { PackageJson } from "./internal_types.js";
+
+export type OverrideSource = "overrides" | "resolutions" | "pnpm.overrides" | "patchedDependencies";
+
+export interface OverrideSuggestion {
+  field: "overrides" | "resolutions";
+  key: string;
+  value: string;
+}
+
+export interface OverrideEntry {
+  source: OverrideSource;
+  /** Key as written in package.json (nested npm overrides use "parent > child") */
+  key: string;
+  value: string;
+  /** Why Bun does not honor the entry as written; null when it does */
+  problem: string | null;
+  /** Equivalent entry Bun honors, when one exists */
+  suggestion: OverrideSuggestion | null;
+}
+
+/**
+ * Split "name@range" (or "@scope/name@range") into name and range
+ */
+const splitSelector = (selector: string): { name: string; range: string } => {
+  const at = selector.indexOf("@", 1);
+  return at === -1 ? { name: selector, range: "" } : { name: selector.slice(0, at), range: selector.slice(at + 1) };
+};
+
+/**
+ * Resolve npm's "$name" reference to the version the project declares for that dependency
+ */
+const resolveReference = (value: string, pkg: PackageJson): string | null => {
+  if (!value.startsWith("$")) return value;
+  const name = value.slice(1);
+  return pkg.dependencies?.[name] ?? pkg.devDependencies?.[name] ?? pkg.optionalDependencies?.[name] ?? null;
+};
+
+const entry = (
+  source: OverrideSource,
+  key: string,
+  value: string,
+  problem: string | null,
+  suggestion: OverrideSuggestion | null
+): OverrideEntry => ({ source, key, value, problem, suggestion });
+
+/**
+ * npm "overrides": Bun honors top-level "name": "version" entries only
+ */
+const classifyNpmOverrides = (overrides: Record<string, unknown>, pkg: PackageJson): OverrideEntry[] => {
+  const result: OverrideEntry[] = [];
+
+  const literal = (source: OverrideSource, key: string, value: string, name: string, baseProblem: string | null): OverrideEntry => {
+    const resolved = resolveReference(value, pkg);
+    if (resolved === null) {
+      return entry(source, key, value, `${baseProblem ? `${baseProblem}; ` : ""}references ${value} which is not a dependency`, null);
+    }
+    const problems: string[] = [];
+    if (baseProblem) problems.push(baseProblem);
+    if (resolved !== value) problems.push(`"${value}" reference is not resolved by Bun`);
+    return problems.length === 0
+      ? entry(source, key, value, null, null)
+      : entry(source, key, value, problems.join("; "), { field: "overrides", key: name, value: resolved });
+  };
+
+  for (const [key, value] of Object.entries(overrides)) {
+    const { name, range } = splitSelector(key);
+    const selectorProblem = range ? `version selector "${range}" in key is ignored` : null;
+
+    if (typeof value === "string") {
+      result.push(literal("overrides", key, value, name, selectorProblem));
+      continue;
+    }
+
+    if (!value || typeof value !== "object") continue;
+
+    // Nested override: { "foo": { ".": "1.0.0", "bar": "2.0.0" } }
+    for (const [childKey, childValue] of Object.entries(value as Record<string, unknown>)) {
+      if (typeof childValue !== "string") {
+        result.push(entry("overrides", `${key} > ${childKey}`, JSON.stringify(childValue), "deeply nested override", null));
+        continue;
+      }
+      if (childKey === ".") {
+        result.push(literal("overrides", `${key} > .`, childValue, name, selectorProblem ?? "nested override"));
+        continue;
+      }
+      const child = splitSelector(childKey).name;
+      result.push(literal("overrides", `${key} > ${childKey}`, childValue, child, `nested override under ${key}; Bun applies overrides to every copy of ${child}`));
+    }
+  }
+
+  return result;
+};
+
+/**
+ * yarn "resolutions": Bun honors "name": "version" entries only
+ */
+const classifyResolutions = (resolutions: Record<string, string>): OverrideEntry[] => {
+  const result: OverrideEntry[] = [];
+
+  for (const [key, value] of Object.entries(resolutions)) {
+    if (typeof value !== "string") continue;
+
+    // yarn patch: resolutions are patches; detectPatches (deps.patches) migrates them
+    if (value.startsWith("patch:")) continue;
+
+    const problems: string[] = [];
+    let selector = key;
+    if (selector.startsWith("**/")) {
+      problems.push("`**/` glob");
+      selector = selector.slice(3);
+    }
+
+    // "parent/child" or "@scope/parent/@scope/child": keep the last package in the path
+    const segments = selector.split("/");
+    const parts: string[] = [];
+    for (let i = 0; i < segments.length; i++) {
+      const seg = segments[i] ?? "";
+      if (seg.startsWith("@") && i + 1 < segments.length) {
+        parts.push(`${seg}/${segments[i + 1]}`);
+        i++;
+      } else {
+        parts.push(seg);
+      }
+    }
+    if (parts.length > 1) {
+      problems.push(`nested path under ${parts.slice(0, -1).join("/")}`);
+    }
+
+    const { name, range } = splitSelector(parts[parts.length - 1] ?? selector);
+    if (range) problems.push(`version selector "${range}" in key is ignored`);
+
+    result.push(
+      problems.length === 0
+        ? entry("resolutions", key, value, null, null)
+        : entry("resolutions", key, value, problems.join("; "), { field: "resolutions", key: name, value })
+    );
+  }
+
+  return result;
+};
+
+/**
+ * pnpm.overrides: Bun does not read the pnpm field at all
+ */
+const classifyPnpmOverrides = (overrides: Record<string, string>, pkg: PackageJson): OverrideEntry[] => {
+  const result: OverrideEntry[] = [];
+
+  for (const [key, value] of Object.entries(overrides)) {
+    if (typeof value !== "string") continue;
+    const problems = ["pnpm.overrides is not read by Bun"];
+
+    if (value === "-") {
+      result.push(entry("pnpm.overrides", key, value, `${problems[0]}; removing a dependency has no Bun equivalent`, null));
+      continue;
+    }
+
+    // "parent>child" or "parent@1>child"; the ">" of a range (">=1", "@>1") is not a separator
+    let selector = key;
+    const arrow = Array.from(key.matchAll(/(?<!@)>(?!=)/g)).pop()?.index ?? -1;
+    if (arrow !== -1) {
+      problems.push(`parent selector "${key.slice(0, arrow)}" is dropped`);
+      selector = key.slice(arrow + 1);
+    }
+
+    const { name, range } = splitSelector(selector);
+    if (range) problems.push(`version range selector "${range}" is dropped`);
+
+    const resolved = resolveReference(value, pkg);
+    result.push(
+      entry("pnpm.overrides", key, value, problems.join("; "), resolved === null ? null : { field: "overrides", key: name, value: resolved })
+    );
+  }
+
+  return result;
+};
+
+/**
+ * Collect every dependency pinning entry in package.json and classify it
+ */
+export function collectOverrides(pkg: PackageJson | undefined): OverrideEntry[] {
+  if (!pkg) return [];
+  const result: OverrideEntry[] = [];
+
+  if (pkg.overrides && typeof pkg.overrides === "object") {
+    result.push(...classifyNpmOverrides(pkg.overrides, pkg));
+  }
+
+  if (pkg.resolutions && typeof pkg.resolutions === "object") {
+    result.push(...classifyResolutions(pkg.resolutions));
+  }
+
+  if (pkg.pnpm?.overrides && typeof pkg.pnpm.overrides === "object") {
+    result.push(...classifyPnpmOverrides(pkg.pnpm.overrides, pkg));
+  }
+
+  // pnpm.patchedDependencies is left to detectPatches (deps.patches), which checks that each patch applies
+
+  if (pkg.patchedDependencies && typeof pkg.patchedDependencies === "object") {
+    for (const [key, value] of Object.entries(pkg.patchedDependencies)) {
+      const { range } = splitSelector(key);
+      result.push(range ? entry("patchedDependencies", key, value, null, null) : entry("patchedDependencies", key, value, "Bun expects name@version keys", null));
+    }
+  }
+
+  return result;
+}
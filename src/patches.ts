@@ -0,0 +1,296 @@
+// File: src/patches.ts
+// Find patch-package / pnpm / yarn patches and map them to Bun patchedDependencies
+
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import type { PackageJson } from "./internal_types.js";
+import type { LockfileData } from "./lockfile.js";
+import { fileExists, readJsonFile, stableSort } from "./util.js";
+
+export type PatchSource = "patch-package" | "pnpm" | "yarn";
+
+/**
+ * applies: every hunk matches the installed files
+ * already-applied: the installed files already contain the patched text (e.g. postinstall ran)
+ * does-not-apply: at least one hunk matches neither
+ * unknown: the package is not installed, so the patch cannot be checked
+ */
+export type PatchApplyStatus = "applies" | "already-applied" | "does-not-apply" | "unknown";
+
+export interface PatchInfo {
+  name: string;
+  /** Version the patch was made for */
+  version: string;
+  /** Patch file path relative to the package */
+  file: string;
+  source: PatchSource;
+  /** Versions of the package in the lockfile; null when there is no lockfile */
+  lockfileVersions: string[] | null;
+  /** Version found in node_modules, if installed */
+  installedVersion: string | null;
+  status: PatchApplyStatus;
+  /** First file whose hunks did not match */
+  failedFile?: string;
+  /** Diff paths point into node_modules/<name>/ (patch-package) and must be made package-relative for Bun (see bunPatchEntry) */
+  needsRewrite: boolean;
+}
+
+interface PatchHunk {
+  oldText: string;
+  newText: string;
+}
+
+interface PatchFileDiff {
+  path: string;
+  hunks: PatchHunk[];
+}
+
+const toPosix = (p: string): string => p.replace(/\\/g, "/");
+
+/**
+ * "@babel+core+7.24.0.patch" -> { name: "@babel/core", version: "7.24.0" }
+ * "parent++child+1.0.0.dev.patch" -> { name: "child", version: "1.0.0" } (nested dependency)
+ */
+export function parsePatchPackageFilename(fileName: string): { name: string; version: string } | null {
+  const base = fileName.replace(/\.patch$/, "").replace(/\.dev$/, "");
+  const segment = base.split("++").pop() ?? "";
+  const plus = segment.lastIndexOf("+");
+  if (plus <= 0) return null;
+  return { name: segment.slice(0, plus).replace(/\+/g, "/"), version: segment.slice(plus + 1) };
+}
+
+/**
+ * "patch:left-pad@npm%3A1.3.0#~/.yarn/patches/left-pad-npm-1.3.0-abc.patch::version=1.3.0&hash=abc"
+ *   -> { name: "left-pad", version: "1.3.0", file: ".yarn/patches/left-pad-npm-1.3.0-abc.patch" }
+ */
+export function parseYarnPatchSpecifier(spec: string): { name: string; version: string; file: string } | null {
+  if (!spec.startsWith("patch:")) return null;
+  const hash = spec.indexOf("#");
+  if (hash === -1) return null;
+
+  const target = decodeURIComponent(spec.slice("patch:".length, hash));
+  const at = target.indexOf("@", 1);
+  if (at === -1) return null;
+  const name = target.slice(0, at);
+  const version = target.slice(at + 1).replace(/^npm:/, "");
+
+  const file = spec.slice(hash + 1).split("::")[0]!.replace(/^~\//, "").replace(/^\.\//, "");
+  return { name, version, file };
+}
+
+/**
+ * Parse a unified diff into per-file hunks
+ */
+export function parseUnifiedDiff(content: string): PatchFileDiff[] {
+  const files: PatchFileDiff[] = [];
+  let current: PatchFileDiff | null = null;
+  let hunk: { old: string[]; new: string[] } | null = null;
+  // Lines still expected by the open hunk, from its @@ -a,b +c,d @@ header
+  let oldLeft = 0;
+  let newLeft = 0;
+
+  const closeHunk = (): void => {
+    if (current && hunk) current.hunks.push({ oldText: hunk.old.join("\n"), newText: hunk.new.join("\n") });
+    hunk = null;
+  };
+
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.replace(/\r$/, "");
+
+    // Inside a hunk, "--- x" is a removed line starting with "-- ", not a file header
+    if (hunk && (oldLeft > 0 || newLeft > 0)) {
+      if (line.startsWith(" ") || line === "") {
+        hunk.old.push(line.slice(1));
+        hunk.new.push(line.slice(1));
+        oldLeft--;
+        newLeft--;
+      } else if (line.startsWith("-")) {
+        hunk.old.push(line.slice(1));
+        oldLeft--;
+      } else if (line.startsWith("+")) {
+        hunk.new.push(line.slice(1));
+        newLeft--;
+      }
+      continue;
+    }
+
+    if (line.startsWith("--- ")) {
+      closeHunk();
+      const p = line.slice(4).split("\t")[0]!.trim();
+      current = p === "/dev/null" ? null : { path: p.replace(/^a\//, ""), hunks: [] };
+      if (current) files.push(current);
+      continue;
+    }
+
+    const header = line.match(/^@@ -\d+(?:,(\d+))? \+\d+(?:,(\d+))? @@/);
+    if (header) {
+      closeHunk();
+      hunk = { old: [], new: [] };
+      oldLeft = header[1] === undefined ? 1 : Number(header[1]);
+      newLeft = header[2] === undefined ? 1 : Number(header[2]);
+    }
+  }
+  closeHunk();
+
+  return files;
+}
+
+/**
+ * Check a patch against the installed package files
+ */
+async function checkPatch(
+  diffs: PatchFileDiff[],
+  projectDir: string,
+  packageDir: string
+): Promise<{ status: PatchApplyStatus; failedFile?: string }> {
+  let allApplied = true;
+
+  for (const diff of diffs) {
+    // patch-package paths start at the project root, pnpm/yarn/bun paths at the package root
+    const target = diff.path.startsWith("node_modules/") ? path.join(projectDir, diff.path) : path.join(packageDir, diff.path);
+    let content: string;
+    try {
+      content = (await fs.readFile(target, "utf8")).replace(/\r\n/g, "\n");
+    } catch {
+      return { status: "does-not-apply", failedFile: diff.path };
+    }
+
+    for (const h of diff.hunks) {
+      if (content.includes(h.oldText)) {
+        allApplied = false;
+        continue;
+      }
+      if (content.includes(h.newText)) continue;
+      return { status: "does-not-apply", failedFile: diff.path };
+    }
+  }
+
+  return { status: allApplied ? "already-applied" : "applies" };
+}
+
+/**
+ * patch-package --patch-dir from a postinstall script, defaulting to "patches"
+ */
+const patchPackageDir = (scripts: Record<string, string>): string => {
+  for (const script of Object.values(scripts)) {
+    const m = script.match(/patch-package[^&|;]*--patch-dir[= ](\S+)/);
+    if (m && m[1]) return m[1];
+  }
+  return "patches";
+};
+
+/**
+ * Collect patches from patch-package, pnpm.patchedDependencies and yarn patch: specifiers,
+ * with the lockfile versions of each patched package and whether the patch still applies.
+ *
+ * @param searchPaths - Package directories whose node_modules are searched, closest first
+ */
+export async function collectPatches(packagePath: string, pkg: PackageJson, lock: LockfileData | null, searchPaths: string[]): Promise<PatchInfo[]> {
+  const found: Array<{ name: string; version: string; file: string; source: PatchSource }> = [];
+
+  const patchDir = path.join(packagePath, patchPackageDir(pkg.scripts ?? {}));
+  try {
+    const entries = await fs.readdir(patchDir);
+    for (const entry of entries.sort()) {
+      if (!entry.endsWith(".patch")) continue;
+      const parsed = parsePatchPackageFilename(entry);
+      if (!parsed) continue;
+      found.push({ ...parsed, file: toPosix(path.relative(packagePath, path.join(patchDir, entry))), source: "patch-package" });
+    }
+  } catch {
+    // no patches directory
+  }
+
+  for (const [key, file] of Object.entries(pkg.pnpm?.patchedDependencies ?? {})) {
+    const at = key.indexOf("@", 1);
+    if (at === -1) continue;
+    const already = found.some((f) => toPosix(path.normalize(f.file)) === toPosix(path.normalize(file)));
+    if (already) continue;
+    found.push({ name: key.slice(0, at), version: key.slice(at + 1), file, source: "pnpm" });
+  }
+
+  const yarnSpecs = [
+    ...Object.values(pkg.resolutions ?? {}),
+    ...Object.values(pkg.dependencies ?? {}),
+    ...Object.values(pkg.devDependencies ?? {}),
+    ...Object.values(pkg.optionalDependencies ?? {})
+  ];
+  for (const spec of yarnSpecs) {
+    const parsed = typeof spec === "string" ? parseYarnPatchSpecifier(spec) : null;
+    if (parsed && !found.some((f) => f.file === parsed.file)) {
+      found.push({ ...parsed, source: "yarn" });
+    }
+  }
+
+  const projectDirs = Array.from(new Set(searchPaths));
+  const result: PatchInfo[] = [];
+
+  for (const f of found) {
+    const lockfileVersions = lock
+      ? Array.from(new Set(lock.packages.filter((p) => p.name === f.name).map((p) => p.version))).sort()
+      : null;
+
+    let installedVersion: string | null = null;
+    let check: { status: PatchApplyStatus; failedFile?: string } = { status: "unknown" };
+    let needsRewrite = false;
+
+    let diffs: PatchFileDiff[] = [];
+    try {
+      diffs = parseUnifiedDiff(await fs.readFile(path.join(packagePath, f.file), "utf8"));
+      needsRewrite = diffs.some((d) => d.path.startsWith("node_modules/"));
+    } catch {
+      check = { status: "does-not-apply", failedFile: f.file };
+    }
+
+    if (check.status === "unknown") {
+      for (const dir of projectDirs) {
+        const packageDir = path.join(dir, "node_modules", f.name);
+        const pkgJson = path.join(packageDir, "package.json");
+        if (!(await fileExists(pkgJson))) continue;
+        try {
+          installedVersion = (await readJsonFile<{ version?: string }>(pkgJson)).version ?? null;
+        } catch {
+          installedVersion = null;
+        }
+        check = await checkPatch(diffs, dir, packageDir);
+        break;
+      }
+    }
+
+    const info: PatchInfo = {
+      name: f.name,
+      version: f.version,
+      file: f.file,
+      source: f.source,
+      lockfileVersions,
+      installedVersion,
+      status: check.status,
+      needsRewrite
+    };
+    if (check.failedFile !== undefined) info.failedFile = check.failedFile;
+    result.push(info);
+  }
+
+  return stableSort(result, (p) => `${p.name}@${p.version}`);
+}
+
+/**
+ * Bun patchedDependencies entry for a patch: "name@version" -> patch file.
+ * pnpm and yarn patches are package-relative git diffs Bun can use as they are.
+ * patch-package files use node_modules/<name>/ paths: the entry points to a rewritten copy,
+ * and `rewrite` is the command that writes it.
+ * Returns null for patches that do not apply (or were made for another version than the lockfile's),
+ * which have to be re-created with `bun patch` instead.
+ */
+export function bunPatchEntry(p: PatchInfo): { key: string; path: string; rewrite?: string } | null {
+  if (p.status === "does-not-apply") return null;
+  if (p.lockfileVersions && p.lockfileVersions.length > 0 && !p.lockfileVersions.includes(p.version)) return null;
+
+  const key = `${p.name}@${p.version}`;
+  if (!p.needsRewrite) return { key, path: p.file };
+
+  // Bun's own naming: patches/@scope%2Fname@1.0.0.patch
+  const target = path.posix.join(path.posix.dirname(p.file), `${p.name.replace("/", "%2F")}@${p.version}.patch`);
+  const prefix = `node_modules/${p.name}/`.replace(/[.]/g, "\\.");
+  return { key, path: target, rewrite: `sed -e 's#\\([ab]\\)/${prefix}#\\1/#g' ${p.file} > ${target}` };
+}
@@ -0,0 +1,59 @@
+// File: src/platforms.ts
+// Platform targets with their own fixed JS runtime (Electron, React Native, VS Code extensions)
+
+import path from "node:path";
+import type { PackageJson } from "./internal_types.js";
+import type { PlatformName, PlatformTarget } from "./types.js";
+import { fileExists } from "./util.js";
+
+interface PlatformSpec {
+  label: string;
+  /** Dependencies that only make sense for the platform */
+  packages: string[];
+  configFiles: string[];
+}
+
+// Checked in order; the first platform with evidence wins
+const PLATFORMS: Record<PlatformName, PlatformSpec> = {
+  electron: {
+    label: "Electron",
+    packages: ["electron", "electron-builder", "electron-packager", "@electron-forge/cli", "electron-vite"],
+    configFiles: ["electron-builder.json", "electron-builder.yml", "electron-builder.yaml", "forge.config.js", "forge.config.ts"]
+  },
+  "react-native": {
+    label: "React Native",
+    packages: ["react-native", "expo", "metro", "@react-native-community/cli"],
+    configFiles: ["metro.config.js", "metro.config.cjs", "metro.config.ts", "react-native.config.js"]
+  },
+  "vscode-extension": {
+    label: "VS Code extension",
+    packages: ["@types/vscode", "@vscode/vsce", "vsce", "@vscode/test-electron"],
+    configFiles: []
+  }
+};
+
+/**
+ * Detect the platform a package is built for from its dependencies, engines and config files.
+ * Returns null for packages that run on a regular Node.js runtime.
+ */
+export async function resolvePlatformTarget(packagePath: string, pkg: PackageJson): Promise<PlatformTarget | null> {
+  const deps = { ...pkg.devDependencies, ...pkg.dependencies };
+
+  for (const [platform, spec] of Object.entries(PLATFORMS) as Array<[PlatformName, PlatformSpec]>) {
+    const evidence: string[] = [];
+    if (platform === "vscode-extension" && pkg.engines?.vscode) {
+      evidence.push(`engines.vscode: ${pkg.engines.vscode}`);
+    }
+    for (const name of spec.packages) {
+      if (deps[name] !== undefined) evidence.push(`dependency ${name}@${deps[name]}`);
+    }
+    for (const file of spec.configFiles) {
+      if (await fileExists(path.join(packagePath, file))) evidence.push(`config file ${file}`);
+    }
+
+    // @types/vscode or vsce alone can be tooling around an extension, not the extension itself
+    if (platform === "vscode-extension" && !pkg.engines?.vscode) continue;
+    if (evidence.length > 0) return { platform, label: spec.label, evidence };
+  }
+  return null;
+}
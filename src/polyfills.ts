@@ -0,0 +1,35 @@
+// File: src/polyfills.ts
+// Polyfills that Bun makes redundant (or harmful, when they replace Bun's own globals)
+
+export interface RedundantPolyfill {
+  /** What Bun provides instead */
+  builtIn: string;
+  /** Why dropping it is safe, or what changes when it goes */
+  note: string;
+  /** Global a side-effect import replaces; set when that import overrides Bun's own implementation */
+  patches?: string;
+}
+
+export const REDUNDANT_POLYFILLS: Record<string, RedundantPolyfill> = {
+  "node-fetch": { builtIn: "global fetch", note: "remove the import; res.body becomes a web ReadableStream" },
+  "cross-fetch": { builtIn: "global fetch", note: "remove the import; fetch, Headers, Request and Response are globals", patches: "globalThis.fetch (cross-fetch/polyfill)" },
+  "isomorphic-fetch": { builtIn: "global fetch", note: "remove the import", patches: "globalThis.fetch" },
+  "whatwg-fetch": { builtIn: "global fetch", note: "XHR-based browser polyfill; remove the import", patches: "globalThis.fetch" },
+  "abort-controller": { builtIn: "global AbortController / AbortSignal", note: "remove the import; AbortSignal.timeout() and AbortSignal.any() are built in" },
+  "node-abort-controller": { builtIn: "global AbortController / AbortSignal", note: "remove the import" },
+  "abortcontroller-polyfill": { builtIn: "global AbortController / AbortSignal", note: "remove the import", patches: "globalThis.AbortController" },
+  "form-data": { builtIn: "global FormData", note: "Bun's FormData is the web API: append()/fetch body, no getHeaders() or pipe()" },
+  "formdata-node": { builtIn: "global FormData / File / Blob", note: "remove the import" },
+  "web-streams-polyfill": { builtIn: "global ReadableStream / WritableStream / TransformStream", note: "fetch and Response return Bun's native streams, which the ponyfill classes do not interoperate with", patches: "globalThis.ReadableStream and the other stream classes" },
+  "source-map-support": { builtIn: "built-in source maps", note: "Bun always applies source maps to stack traces", patches: "Error.prepareStackTrace" },
+  esm: { builtIn: "native ESM", note: "Bun loads ESM and CommonJS natively; the esm loader hooks Module internals Bun does not use", patches: "Module internals (require hooks)" },
+  dotenv: { builtIn: "built-in .env loading", note: "bun reads .env, .env.<NODE_ENV> and .env.local before the entry point runs" }
+};
+
+/**
+ * Polyfill catalog entries declared in a package's dependencies, sorted by name
+ */
+export const findPolyfills = (deps: Record<string, string>): string[] =>
+  Object.keys(deps)
+    .filter((name) => Object.prototype.hasOwnProperty.call(REDUNDANT_POLYFILLS, name))
+    .sort();
@@ -0,0 +1,132 @@
+// File: src/replacements.ts
+// Catalog of npm packages with a Bun-native replacement (built-in API or global)
+
+export type ReplacementEffort = "low" | "medium" | "high";
+
+export interface BunReplacement {
+  /** Bun built-in that replaces the package ("Bun.password", "bun:sqlite", ...) */
+  replacement: string;
+  /** Call-level mapping, e.g. "bcrypt.hash(pw, 10) -> await Bun.password.hash(pw, { algorithm: \"bcrypt\", cost: 10 })" */
+  usage: string;
+  /** Behavior and API differences to check while porting */
+  differences: string[];
+  effort: ReplacementEffort;
+}
+
+export interface ReplacementMatch extends BunReplacement {
+  packageName: string;
+  version: string;
+}
+
+export const BUN_REPLACEMENTS: Record<string, BunReplacement> = {
+  bcrypt: {
+    replacement: "Bun.password",
+    usage: 'bcrypt.hash(pw, 10) -> await Bun.password.hash(pw, { algorithm: "bcrypt", cost: 10 }); bcrypt.compare -> Bun.password.verify',
+    differences: [
+      "Bun.password defaults to argon2id; pass algorithm: \"bcrypt\" to keep existing hashes comparable",
+      "verify() reads the algorithm from the hash, so stored $2a$/$2b$ hashes keep working",
+      "no genSalt(): the salt is generated inside hash()"
+    ],
+    effort: "low"
+  },
+  bcryptjs: {
+    replacement: "Bun.password",
+    usage: 'bcrypt.hash(pw, 10) -> await Bun.password.hash(pw, { algorithm: "bcrypt", cost: 10 }); bcrypt.compare -> Bun.password.verify',
+    differences: [
+      "Bun.password defaults to argon2id; pass algorithm: \"bcrypt\" to keep existing hashes comparable",
+      "hashSync/compareSync map to Bun.password.hashSync/verifySync",
+      "no genSalt(): the salt is generated inside hash()"
+    ],
+    effort: "low"
+  },
+  argon2: {
+    replacement: "Bun.password",
+    usage: "argon2.hash(pw) -> await Bun.password.hash(pw); argon2.verify(hash, pw) -> Bun.password.verify(pw, hash)",
+    differences: [
+      "verify() takes (password, hash), the reverse of argon2.verify(hash, password)",
+      "tuning uses memoryCost/timeCost only; parallelism and raw output are not configurable"
+    ],
+    effort: "low"
+  },
+  "better-sqlite3": {
+    replacement: "bun:sqlite",
+    usage: 'new Database(file) -> new Database(file) from "bun:sqlite"; db.prepare(sql).all() keeps the same shape',
+    differences: [
+      "statements use .all()/.get()/.run() like better-sqlite3, plus .values() for row arrays",
+      "named parameters need their prefix ($id, :id, @id) unless the Database is created with { strict: true }",
+      "pragma() and backup() helpers are missing; run PRAGMA statements with db.run()",
+      "user-defined functions and aggregates (db.function, db.aggregate) are not supported"
+    ],
+    effort: "medium"
+  },
+  sqlite3: {
+    replacement: "bun:sqlite",
+    usage: "callback API (db.all(sql, cb)) -> synchronous db.query(sql).all()",
+    differences: [
+      "bun:sqlite is synchronous; callback and event based code has to be rewritten",
+      "db.serialize()/db.parallelize() have no equivalent and are not needed",
+      "statements are cached with db.query(); use db.prepare() for uncached ones"
+    ],
+    effort: "high"
+  },
+  ws: {
+    replacement: "Bun.serve websockets",
+    usage: "new WebSocketServer({ port }) -> Bun.serve({ port, fetch(req, server) { server.upgrade(req) }, websocket: { open, message, close } })",
+    differences: [
+      "handlers are declared once in the websocket option instead of per-socket ws.on('message') listeners",
+      "broadcast with ws.subscribe(topic) / server.publish(topic, data) instead of iterating wss.clients",
+      "the client side is the global WebSocket; `ws` stays usable when a Node-compatible server is required"
+    ],
+    effort: "medium"
+  },
+  "node-fetch": {
+    replacement: "global fetch",
+    usage: 'import fetch from "node-fetch" -> remove the import and use the global fetch',
+    differences: [
+      "res.body is a web ReadableStream, not a Node stream; use Readable.fromWeb() where a Node stream is needed",
+      "node-fetch options like agent, compress and size are ignored; Bun adds proxy, verbose and tls options",
+      "Headers, Request, Response and FormData are globals too"
+    ],
+    effort: "low"
+  },
+  "cross-fetch": {
+    replacement: "global fetch",
+    usage: 'import fetch from "cross-fetch" -> remove the import and use the global fetch',
+    differences: ["res.body is a web ReadableStream, not a Node stream"],
+    effort: "low"
+  },
+  "isomorphic-fetch": {
+    replacement: "global fetch",
+    usage: 'import "isomorphic-fetch" -> remove the import; fetch is always a global',
+    differences: ["res.body is a web ReadableStream, not a Node stream"],
+    effort: "low"
+  },
+  dotenv: {
+    replacement: "built-in .env loading",
+    usage: 'require("dotenv").config() -> remove it; bun loads .env, .env.<NODE_ENV> and .env.local before running',
+    differences: [
+      "files are only loaded automatically for the bun process; pass --env-file to load other paths",
+      "Bun expands ${VAR} references like dotenv-expand does",
+      "dotenv.parse() has no built-in equivalent; keep dotenv if code parses env files itself"
+    ],
+    effort: "low"
+  },
+  uuid: {
+    replacement: "crypto.randomUUID",
+    usage: "uuid.v4() -> crypto.randomUUID(); uuid.v7() -> Bun.randomUUIDv7()",
+    differences: [
+      "only v4 (crypto.randomUUID) and v7 (Bun.randomUUIDv7) are built in; v1, v3 and v5 still need the package",
+      "validate(), parse() and stringify() have no built-in equivalent"
+    ],
+    effort: "low"
+  }
+};
+
+/**
+ * Catalog entries for the dependencies of a package, sorted by name
+ */
+export const findReplacements = (deps: Record<string, string>): ReplacementMatch[] =>
+  Object.keys(deps)
+    .filter((name) => Object.prototype.hasOwnProperty.call(BUN_REPLACEMENTS, name))
+    .sort()
+    .map((name) => ({ packageName: name, version: deps[name] ?? "", ...BUN_REPLACEMENTS[name]! }));
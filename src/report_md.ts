@@ -1,6 +1,7 @@
 import path from "node:path";
 import type { OverallResult, Severity, PackageAnalysis, FindingsSummary, BaselineComparison, PolicySummary, RuleAction } from "./types.js";
 import { stableSort } from "./util.js";
+import { findReplacements, type ReplacementMatch } from "./replacements.js";
 
 const badge = (s: Severity): string => {
   if (s === "green") return "🟢 GREEN";
@@ -8,6 +9,9 @@ const badge = (s: Severity): string => {
   return "🔴 RED";
 };
 
+// Badge for a package, or N/A when it targets a platform with its own runtime
+const packageBadge = (pkg: PackageAnalysis): string => (pkg.notApplicable ? `⚪ N/A (${pkg.notApplicable.label})` : badge(pkg.severity));
+
 const getReadinessMessage = (severity: Severity, hasRedFindings: boolean): string => {
   if (severity === "green" && !hasRedFindings) {
     return "✅ Congratulations, you're ready to migrate to Bun!";
@@ -18,6 +22,13 @@ const getReadinessMessage = (severity: Severity, hasRedFindings: boolean): strin
   return "❌ Not ready for Bun migration due to critical issues";
 };
 
+const notApplicableMessage = (r: OverallResult): string | null => {
+  const packages = r.packages ?? [];
+  if (packages.length === 0 || !packages.every((p) => p.notApplicable)) return null;
+  const labels = Array.from(new Set(packages.map((p) => p.notApplicable!.label))).join(", ");
+  return `⚪ Not applicable: this repository targets ${labels}, which runs on its own JavaScript runtime`;
+};
+
 const formatFindingsTable = (summary: FindingsSummary, cleanPackagesCount?: number): string => {
   const lines: string[] = [];
   lines.push(`## Findings Summary`);
@@ -69,7 +80,7 @@ const getTopFindings = (pkg: PackageAnalysis, count: number = 3): string[] => {
 const packageRow = (pkg: PackageAnalysis): string => {
   const name = pkg.name;
   const path = pkg.path.replace(/\\/g, "/");
-  const severity = badge(pkg.severity);
+  const severity = packageBadge(pkg);
   const topFindings = getTopFindings(pkg, 2).join(", ") || "No issues";
   return `| ${name} | \`${path}\` | ${severity} | ${topFindings} |`;
 };
@@ -226,11 +237,12 @@ export function renderMarkdown(r: OverallResult): string {
   // Get Bun version from process.version (this will be the Node version running bun-ready)
   const bunVersion = process.version;
   
-  // Check if there are red findings
-  const hasRedFindings = r.findings.some((f) => f.severity === "red");
+  // Check if there are red findings (root findings do not count when the root targets another platform)
+  const rootNotApplicable = r.packages?.find((p) => p.path === path.dirname(r.repo.packageJsonPath))?.notApplicable;
+  const hasRedFindings = !rootNotApplicable && r.findings.some((f) => f.severity === "red");
   
   // Get readiness message
-  const readinessMessage = getReadinessMessage(r.severity, hasRedFindings);
+  const readinessMessage = notApplicableMessage(r) ?? getReadinessMessage(r.severity, hasRedFindings);
   
   // Header with tool name and Bun version
   lines.push(`# bun-ready report - Tested with Bun ${bunVersion}`);
@@ -308,6 +320,9 @@ export function renderMarkdown(r: OverallResult): string {
   lines.push(`- Workspaces: ${r.repo.hasWorkspaces ? "yes" : "no"}`);
   lines.push(`- Name: ${r.repo.rootPackage?.name || "unknown"}`);
   lines.push(`- Version: ${r.repo.rootPackage?.version || "unknown"}`);
+  if (rootPkgForSummary?.notApplicable) {
+    lines.push(`- Platform: ${rootPkgForSummary.notApplicable.label} (not applicable, excluded from the overall verdict)`);
+  }
   lines.push(``);
 
   // Packages table (if multiple packages)
@@ -323,6 +338,8 @@ export function renderMarkdown(r: OverallResult): string {
     lines.push(``);
   }
 
+  lines.push(...formatFrameworks(r.packages ?? []));
+
   // Root install/test results
   const rootPkg = r.packages?.find((p) => p.path === path.dirname(r.repo.packageJsonPath));
   if (rootPkg?.install) {
@@ -411,7 +428,7 @@ export function renderMarkdown(r: OverallResult): string {
     const sortedPackages = stableSort(r.packages, (p) => p.name);
     
     for (const pkg of sortedPackages) {
-      lines.push(`## Package: ${pkg.name} (${badge(pkg.severity)})`);
+      lines.push(`## Package: ${pkg.name} (${packageBadge(pkg)})`);
       lines.push(``);
       lines.push(`**Path:** \`${pkg.path.replace(/\\/g, "/")}\``);
       lines.push(``);
@@ -473,6 +490,68 @@ export function renderMarkdown(r: OverallResult): string {
   return lines.join("\n");
 }
 
+/**
+ * "Frameworks" section: the verdict and checks of every framework profile, per workspace package
+ */
+const formatFrameworks = (packages: PackageAnalysis[]): string[] => {
+  const withFrameworks = stableSort(packages, (p) => p.name).filter((p) => (p.frameworks ?? []).length > 0);
+  if (withFrameworks.length === 0) return [];
+
+  const lines: string[] = [`## Frameworks`, ``];
+  for (const pkg of withFrameworks) {
+    for (const profile of pkg.frameworks!) {
+      const version = profile.version ? `@${profile.version}` : "";
+      lines.push(`### ${profile.label}${version}${packages.length > 1 ? ` (${pkg.name})` : ""}`);
+      lines.push(``);
+      lines.push(`**Verdict:** ${badge(profile.severity)} ${profile.verdict}`);
+      if (profile.configFiles.length > 0) lines.push(`**Config:** ${profile.configFiles.join(", ")}`);
+      lines.push(``);
+      for (const c of profile.checks) {
+        const sites = c.sites.length > 0 ? ` (${c.sites.join(", ")})` : "";
+        lines.push(`- ${badge(c.severity)} **${c.check}**${sites}: ${c.detail}`);
+      }
+      lines.push(``);
+    }
+  }
+  return lines;
+};
+
+/**
+ * "Replace with Bun built-ins" section: one entry per catalog package, with import counts per workspace package
+ */
+const formatReplacements = (packages: PackageAnalysis[]): string[] => {
+  const byName = new Map<string, { match: ReplacementMatch; usedIn: string[] }>();
+  for (const pkg of stableSort(packages, (p) => p.name)) {
+    for (const match of findReplacements({ ...pkg.devDependencies, ...pkg.dependencies })) {
+      const entry = byName.get(match.packageName) ?? { match, usedIn: [] };
+      const usage = pkg.packageUsage?.usageByPackage.get(match.packageName);
+      if (!pkg.packageUsage) {
+        entry.usedIn.push(`${pkg.name} (usage not analyzed)`);
+      } else {
+        const count = usage?.fileCount ?? 0;
+        entry.usedIn.push(`${pkg.name} (${count} file${count !== 1 ? "s" : ""})`);
+      }
+      byName.set(match.packageName, entry);
+    }
+  }
+  if (byName.size === 0) return [];
+
+  const lines: string[] = [`## Replace with Bun built-ins`, ``];
+  for (const name of stableSort(Array.from(byName.keys()), (x) => x)) {
+    const { match, usedIn } = byName.get(name)!;
+    lines.push(`### ${name} → ${match.replacement}`);
+    lines.push(``);
+    lines.push(`- **Effort:** ${match.effort}`);
+    lines.push(`- **Imported in:** ${usedIn.join(", ")}`);
+    lines.push(`- **Port:** ${match.usage}`);
+    lines.push(``);
+    lines.push(`**API differences:**`);
+    for (const d of match.differences) lines.push(`- ${d}`);
+    lines.push(``);
+  }
+  return lines;
+};
+
 /**
  * Render detailed report with all file paths for package usage
  */
@@ -482,11 +561,12 @@ export const renderDetailedReport = (r: OverallResult): string => {
   // Get Bun version from process.version
   const bunVersion = process.version;
   
-  // Check if there are red findings
-  const hasRedFindings = r.findings.some((f) => f.severity === "red");
+  // Check if there are red findings (root findings do not count when the root targets another platform)
+  const rootNotApplicable = r.packages?.find((p) => p.path === path.dirname(r.repo.packageJsonPath))?.notApplicable;
+  const hasRedFindings = !rootNotApplicable && r.findings.some((f) => f.severity === "red");
   
   // Get readiness message
-  const readinessMessage = getReadinessMessage(r.severity, hasRedFindings);
+  const readinessMessage = notApplicableMessage(r) ?? getReadinessMessage(r.severity, hasRedFindings);
   
   // Header with tool name and Bun version
   lines.push(`# bun-ready detailed report - Tested with Bun ${bunVersion}`);
@@ -582,6 +662,9 @@ export const renderDetailedReport = (r: OverallResult): string => {
     lines.push(``);
   }
 
+  lines.push(...formatFrameworks(r.packages ?? []));
+  lines.push(...formatReplacements(r.packages ?? []));
+
   // Clean dependencies (only if there are any)
   const rootPkg = r.packages?.find((p) => p.path === path.dirname(r.repo.packageJsonPath));
   const cleanDeps = rootPkg?.cleanDependencies || [];
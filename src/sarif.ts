@@ -124,10 +124,15 @@ export function createSarifResult(
  * Render SARIF log from result
  */
 export function renderSarif(result: OverallResult): SarifLog {
+  // Packages that target another platform are not graded, and neither is the root when it is one of them
+  const graded = (result.packages || []).filter((pkg) => !pkg.notApplicable);
+  const rootNotApplicable = (result.packages || []).some((pkg) => pkg.notApplicable && pkg.path === path.dirname(result.repo.packageJsonPath));
+  const rootFindings = rootNotApplicable ? [] : result.findings;
+
   // Collect unique findings across all packages
-  const allFindings = [...result.findings];
+  const allFindings = [...rootFindings];
   if (result.packages) {
-    for (const pkg of result.packages) {
+    for (const pkg of graded) {
       for (const finding of pkg.findings) {
         // Only add if not duplicate (by id)
         if (!allFindings.some((f) => f.id === finding.id)) {
@@ -148,10 +153,10 @@ export function renderSarif(result: OverallResult): SarifLog {
 
   // Create results
   const results: SarifResult[] = [];
-  for (const finding of result.findings) {
+  for (const finding of rootFindings) {
     results.push(createSarifResult(finding, result.repo.packageJsonPath, "root"));
   }
-  for (const pkg of result.packages || []) {
+  for (const pkg of graded) {
     // Use the package name directly
     const packageName = pkg.name;
     for (const finding of pkg.findings) {
@@ -173,7 +178,8 @@ export function renderSarif(result: OverallResult): SarifLog {
             rules
           }
         },
-        results
+        results,
+        ...(result.bunVersion ? { properties: { bunVersion: result.bunVersion.version, bunVersionSource: result.bunVersion.source } } : {})
       }
     ]
   };
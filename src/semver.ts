@@ -0,0 +1,172 @@
+// File: src/semver.ts
+// Minimal semver parsing and range matching (node-semver range syntax, no dependency)
+
+export type SemVer = {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+};
+
+type Comparator = { op: "<" | "<=" | ">" | ">=" | "="; version: SemVer };
+
+// Partial versions keep missing parts as null ("18" -> 18.x.x)
+type Partial = { major: number | null; minor: number | null; patch: number | null; prerelease: string[] };
+
+const PARTIAL_RE = /^v?=?\s*(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+const parsePartial = (v: string): Partial | null => {
+  const m = v.trim().match(PARTIAL_RE);
+  if (!m) return null;
+  const num = (s: string | undefined): number | null => (s === undefined || /^[xX*]$/.test(s) ? null : parseInt(s, 10));
+  const major = num(m[1]);
+  const minor = major === null ? null : num(m[2]);
+  const patch = minor === null ? null : num(m[3]);
+  return { major, minor, patch, prerelease: m[4] ? m[4].split(".") : [] };
+};
+
+const v = (major: number, minor: number, patch: number, prerelease: string[] = []): SemVer => ({ major, minor, patch, prerelease });
+
+/**
+ * Parse a version, loosely: "v18", "18.1" and "=1.2.3" are accepted and missing parts become 0
+ */
+export const parseVersion = (version: string): SemVer | null => {
+  const p = parsePartial(version);
+  if (!p || p.major === null) return null;
+  return v(p.major, p.minor ?? 0, p.patch ?? 0, p.prerelease);
+};
+
+const comparePrerelease = (a: string[], b: string[]): number => {
+  if (a.length === 0 && b.length === 0) return 0;
+  if (a.length === 0) return 1;
+  if (b.length === 0) return -1;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const x = a[i];
+    const y = b[i];
+    if (x === undefined) return -1;
+    if (y === undefined) return 1;
+    if (x === y) continue;
+    const xn = /^\d+$/.test(x);
+    const yn = /^\d+$/.test(y);
+    if (xn && yn) return parseInt(x, 10) - parseInt(y, 10);
+    if (xn) return -1;
+    if (yn) return 1;
+    return x < y ? -1 : 1;
+  }
+  return 0;
+};
+
+export const compareVersions = (a: SemVer, b: SemVer): number =>
+  a.major - b.major || a.minor - b.minor || a.patch - b.patch || comparePrerelease(a.prerelease, b.prerelease);
+
+// Lowest version above every version matching a partial ("1.2" -> 1.3.0-0)
+const upperBound = (p: Partial): SemVer | null => {
+  if (p.major === null) return null;
+  if (p.minor === null) return v(p.major + 1, 0, 0, ["0"]);
+  if (p.patch === null) return v(p.major, p.minor + 1, 0, ["0"]);
+  return null;
+};
+
+const lowerBound = (p: Partial): SemVer => v(p.major ?? 0, p.minor ?? 0, p.patch ?? 0, p.prerelease);
+
+const desugar = (token: string): Comparator[] | null => {
+  const m = token.match(/^(<=|>=|<|>|=|~>|~|\^)?\s*(.*)$/);
+  if (!m) return null;
+  const op = m[1] ?? "";
+  const p = parsePartial(m[2] ?? "");
+  if (!p) return null;
+  const low = lowerBound(p);
+  const high = upperBound(p);
+
+  if (p.major === null) {
+    return op === "<" || op === ">" ? [{ op: "<", version: v(0, 0, 0, ["0"]) }] : [{ op: ">=", version: v(0, 0, 0) }];
+  }
+
+  switch (op) {
+    case "":
+    case "=":
+      return high ? [{ op: ">=", version: low }, { op: "<", version: high }] : [{ op: "=", version: low }];
+    case "~":
+    case "~>": {
+      const top = p.minor === null ? v(p.major + 1, 0, 0, ["0"]) : v(p.major, p.minor + 1, 0, ["0"]);
+      return [{ op: ">=", version: low }, { op: "<", version: top }];
+    }
+    case "^": {
+      let top: SemVer;
+      if (p.major > 0 || p.minor === null) top = v(p.major + 1, 0, 0, ["0"]);
+      else if (p.minor > 0 || p.patch === null) top = v(0, p.minor + 1, 0, ["0"]);
+      else top = v(0, 0, (p.patch ?? 0) + 1, ["0"]);
+      return [{ op: ">=", version: low }, { op: "<", version: top }];
+    }
+    case ">":
+      return high ? [{ op: ">=", version: high }] : [{ op: ">", version: low }];
+    case ">=":
+      return [{ op: ">=", version: low }];
+    case "<":
+      return [{ op: "<", version: p.minor === null || p.patch === null ? v(low.major, low.minor, low.patch, ["0"]) : low }];
+    case "<=":
+      return high ? [{ op: "<", version: high }] : [{ op: "<=", version: low }];
+    default:
+      return null;
+  }
+};
+
+const parseComparatorSet = (set: string): Comparator[] | null => {
+  const trimmed = set.trim();
+  const hyphen = trimmed.match(/^(\S+)\s+-\s+(\S+)$/);
+  if (hyphen) {
+    const from = parsePartial(hyphen[1] ?? "");
+    const to = parsePartial(hyphen[2] ?? "");
+    if (!from || !to) return null;
+    const top = upperBound(to);
+    return [
+      { op: ">=", version: lowerBound(from) },
+      top ? { op: "<", version: top } : to.major === null ? { op: ">=", version: v(0, 0, 0) } : { op: "<=", version: lowerBound(to) }
+    ];
+  }
+
+  // "> 1.2" -> ">1.2"
+  const tokens = trimmed.replace(/(<=|>=|<|>|=|~>|~|\^)\s+/g, "$1").split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return [{ op: ">=", version: v(0, 0, 0) }];
+  const comparators: Comparator[] = [];
+  for (const t of tokens) {
+    const c = desugar(t);
+    if (!c) return null;
+    comparators.push(...c);
+  }
+  return comparators;
+};
+
+const test = (version: SemVer, c: Comparator): boolean => {
+  const cmp = compareVersions(version, c.version);
+  switch (c.op) {
+    case "<":
+      return cmp < 0;
+    case "<=":
+      return cmp <= 0;
+    case ">":
+      return cmp > 0;
+    case ">=":
+      return cmp >= 0;
+    case "=":
+      return cmp === 0;
+  }
+};
+
+/**
+ * Whether a version satisfies a range ("^18.17.0 || >=20", ">=16 <21", "1.x", "16 - 20").
+ * Returns null when the version or range cannot be parsed.
+ * Prerelease versions are compared by precedence only (no same-tuple restriction).
+ */
+export const satisfies = (version: string, range: string): boolean | null => {
+  const parsed = parseVersion(version);
+  if (!parsed) return null;
+  const sets = range.split("||").map(parseComparatorSet);
+  if (sets.some((s) => s === null)) return null;
+  return sets.some((s) => (s ?? []).every((c) => test(parsed, c)));
+};
+
+/**
+ * Whether a string is a valid range for satisfies()
+ */
+export const isValidRange = (range: string): boolean => !range.split("||").some((s) => parseComparatorSet(s) === null);
@@ -0,0 +1,47 @@
+/**
+ * Source File Discovery
+ *
+ * Shared directory walker for the extended analyzers
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+// Source file extensions to analyze
+export const SOURCE_EXTENSIONS = new Set(['.ts', '.js', '.tsx', '.jsx', '.mts', '.mjs', '.cts', '.cjs']);
+
+// Directories to skip
+export const SKIP_DIRS = new Set(['node_modules', '.git', '.svn', '.hg', 'dist', 'build', 'out', '.next', '.nuxt']);
+
+/**
+ * Get all source files in a directory recursively
+ */
+export async function getSourceFiles(rootPath: string, skipDirs: Set<string> = SKIP_DIRS): Promise<string[]> {
+  const files: string[] = [];
+
+  async function scan(dir: string): Promise<void> {
+    try {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+
+      for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name);
+
+        if (entry.isDirectory()) {
+          if (!skipDirs.has(entry.name) && !entry.name.startsWith('.')) {
+            await scan(fullPath);
+          }
+        } else if (entry.isFile()) {
+          const ext = path.extname(entry.name);
+          if (SOURCE_EXTENSIONS.has(ext)) {
+            files.push(fullPath);
+          }
+        }
+      }
+    } catch {
+      // Skip directories we can't read
+    }
+  }
+
+  await scan(rootPath);
+  return files;
+}
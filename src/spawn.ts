@@ -7,8 +7,10 @@ export type ExecResult = {
 };
 
 const runNodeSpawn = async (cmd: string, args: string[], cwd: string): Promise<ExecResult> => {
-  return await new Promise<ExecResult>((resolve) => {
+  return await new Promise<ExecResult>((resolve, reject) => {
     const child = spawn(cmd, args, { cwd, stdio: ["ignore", "pipe", "pipe"] });
+    // Missing binaries (ENOENT) reject like Bun.spawn throws
+    child.on("error", reject);
     let out = "";
     let err = "";
     child.stdout.on("data", (d) => (out += String(d)));
@@ -0,0 +1,383 @@
+// File: src/test_runners.ts
+// Per-package Jest / Vitest / Mocha compatibility profiles for bun test
+
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import type { TestApiSupport } from "./types.js";
+import { analyzeJestApiUsage, isTestFile } from "./analyze_tests.js";
+import { parseImports } from "./import_parser.js";
+import { getSourceFiles } from "./source_files.js";
+import { fileExists, stableSort } from "./util.js";
+
+export type TestRunnerName = "jest" | "vitest" | "mocha";
+
+/**
+ * unchanged: runs under bun test as is
+ * shim: needs a bunfig.toml [test] preload shim or a config/file change
+ * blocker: has no bun test equivalent and must be rewritten
+ */
+export type TestRunnerLevel = "unchanged" | "shim" | "blocker";
+
+export interface TestRunnerItem {
+  /** API, config option or file pattern, e.g. "vi.hoisted" or "--require ts-node/register" */
+  item: string;
+  level: TestRunnerLevel;
+  /** Call sites ("file:line"), if the item comes from test sources */
+  sites: string[];
+  hint?: string;
+}
+
+export interface TestRunnerProfile {
+  runner: TestRunnerName;
+  /** Declared version, empty when the runner is only configured */
+  version: string;
+  /** Runner config files found, relative to the package */
+  configFiles: string[];
+  testFiles: number;
+  items: TestRunnerItem[];
+}
+
+type Pattern = { regex: RegExp; item: string; level: TestRunnerLevel; hint?: string };
+
+const LEVEL_BY_SUPPORT: Record<TestApiSupport, TestRunnerLevel> = {
+  supported: "unchanged",
+  partial: "shim",
+  unsupported: "blocker"
+};
+
+const VITEST_CONFIG_FILES = ["vitest.config.ts", "vitest.config.mts", "vitest.config.js", "vitest.config.mjs", "vitest.config.cts", "vitest.config.cjs"];
+const VITEST_WORKSPACE_FILES = ["vitest.workspace.ts", "vitest.workspace.js", "vitest.workspace.json"];
+const VITE_CONFIG_FILES = ["vite.config.ts", "vite.config.mts", "vite.config.js", "vite.config.mjs"];
+const JEST_CONFIG_FILES = ["jest.config.js", "jest.config.ts", "jest.config.mjs", "jest.config.cjs", "jest.config.json"];
+const MOCHA_CONFIG_FILES = [".mocharc.json", ".mocharc.jsonc", ".mocharc.yml", ".mocharc.yaml", ".mocharc.js", ".mocharc.cjs"];
+
+const VITEST_APIS: Pattern[] = [
+  { regex: /\bvi\.(fn|spyOn|mocked|clearAllMocks|resetAllMocks|restoreAllMocks|setSystemTime)\s*\(/g, item: "vi.$1", level: "unchanged" },
+  { regex: /\bvi\.hoisted\s*\(/g, item: "vi.hoisted", level: "shim", hint: "bun test does not hoist; move the hoisted setup into a [test] preload" },
+  { regex: /\bvi\.(stubGlobal|unstubAllGlobals|stubEnv|unstubAllEnvs)\s*\(/g, item: "vi.$1", level: "shim", hint: "set globals / process.env in a [test] preload or with spyOn" },
+  { regex: /\bvi\.(useFakeTimers|useRealTimers|advanceTimersByTime|runAllTimers|runOnlyPendingTimers)\s*\(/g, item: "vi.$1", level: "shim", hint: "fake timers in bun test cover the modern API only; re-test timer-driven code" },
+  { regex: /\bvi\.(waitFor|waitUntil)\s*\(/g, item: "vi.$1", level: "shim", hint: "provide a small polling helper in a [test] preload" },
+  { regex: /\bvi\.(importActual|importMock)\s*\(/g, item: "vi.$1", level: "blocker", hint: "load the real module with `await import()` before calling mock.module()" },
+  { regex: /\bvi\.(doMock|doUnmock|unmock|resetModules)\s*\(/g, item: "vi.$1", level: "blocker", hint: "bun test shares one module registry per file" },
+  { regex: /\b(expectTypeOf|assertType)\s*[(<]/g, item: "$1", level: "blocker", hint: "type tests are not run by bun test; keep them under tsc" },
+  { regex: /\.toMatchInlineSnapshot\s*\(/g, item: "toMatchInlineSnapshot", level: "shim", hint: "re-record with bun test --update-snapshots" },
+  { regex: /\b(?:test|it|describe)\.concurrent\b/g, item: "test.concurrent", level: "shim", hint: "concurrent tests run one after another in bun test" }
+];
+
+const MOCHA_APIS: Pattern[] = [
+  { regex: /\b(describe|it)\s*\(/g, item: "$1", level: "unchanged" },
+  { regex: /\b(before|after)\s*\(/g, item: "$1", level: "shim", hint: "alias before/after to beforeAll/afterAll in a [test] preload" },
+  { regex: /\b(context|specify)\s*\(/g, item: "$1", level: "shim", hint: "alias context/specify to describe/test in a [test] preload" },
+  { regex: /\b(suite|suiteSetup|suiteTeardown)\s*\(/g, item: "$1 (tdd ui)", level: "shim", hint: "alias the tdd interface to describe/beforeAll/afterAll in a [test] preload" },
+  { regex: /\bthis\.(timeout|retries|slow|skip)\s*\(/g, item: "this.$1", level: "blocker", hint: "bun test does not bind `this` to a Mocha context; use test options or test.skip" }
+];
+
+// Mocha --require hooks that only exist to make Node run TypeScript/ESM; Bun does not need them
+const MOCHA_REDUNDANT_REQUIRES = ["ts-node/register", "ts-node/register/transpile-only", "@babel/register", "esm", "source-map-support/register", "tsx", "tsx/cjs", "@swc/register", "esbuild-register"];
+
+const lineAtIndex = (content: string, index: number): number => content.slice(0, index).split("\n").length;
+
+/**
+ * Collect items for every pattern match in a file
+ */
+const scanPatterns = (content: string, file: string, patterns: Pattern[], items: Map<string, TestRunnerItem>): void => {
+  for (const p of patterns) {
+    p.regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = p.regex.exec(content)) !== null) {
+      const item = p.item.replace("$1", match[1] ?? "");
+      addItem(items, { item, level: p.level, sites: [`${file}:${lineAtIndex(content, match.index)}`], ...(p.hint ? { hint: p.hint } : {}) });
+    }
+  }
+};
+
+const addItem = (items: Map<string, TestRunnerItem>, next: TestRunnerItem): void => {
+  const existing = items.get(next.item);
+  if (existing) {
+    existing.sites.push(...next.sites);
+    return;
+  }
+  items.set(next.item, { ...next, sites: [...next.sites] });
+};
+
+/**
+ * Source files of this package, skipping nested workspace packages
+ */
+export async function ownSourceFiles(packagePath: string): Promise<string[]> {
+  const files = await getSourceFiles(packagePath);
+  const nestedCache = new Map<string, boolean>();
+
+  const isNested = async (dir: string): Promise<boolean> => {
+    if (dir === packagePath || !dir.startsWith(packagePath)) return false;
+    const cached = nestedCache.get(dir);
+    if (cached !== undefined) return cached;
+    const nested = (await fileExists(path.join(dir, "package.json"))) || (await isNested(path.dirname(dir)));
+    nestedCache.set(dir, nested);
+    return nested;
+  };
+
+  const result: string[] = [];
+  for (const f of files) {
+    if (!(await isNested(path.dirname(f)))) result.push(f);
+  }
+  return result;
+}
+
+const readText = async (p: string): Promise<string | null> => {
+  try {
+    return await fs.readFile(p, "utf8");
+  } catch {
+    return null;
+  }
+};
+
+const existingFiles = async (packagePath: string, names: string[]): Promise<string[]> => {
+  const found: string[] = [];
+  for (const name of names) {
+    if (await fileExists(path.join(packagePath, name))) found.push(name);
+  }
+  return found;
+};
+
+const rel = (packagePath: string, file: string): string => path.relative(packagePath, file).replace(/\\/g, "/");
+
+/**
+ * Jest: reuse the Jest API scanner on this package's test files
+ */
+async function profileJest(packagePath: string, version: string, sources: string[]): Promise<TestRunnerProfile> {
+  const testFiles = sources.filter((f) => isTestFile(rel(packagePath, f)));
+  const result = await analyzeJestApiUsage({ rootPath: packagePath, filePaths: testFiles.map((f) => rel(packagePath, f)) });
+
+  const items = new Map<string, TestRunnerItem>();
+  for (const u of result.usages) {
+    addItem(items, { item: u.api, level: LEVEL_BY_SUPPORT[u.support], sites: [`${u.file}:${u.line}`], ...(u.hint ? { hint: u.hint } : {}) });
+  }
+  for (const o of result.summary.configOptions ?? []) {
+    addItem(items, { item: `${o.source}: ${o.option}`, level: LEVEL_BY_SUPPORT[o.support], sites: [], ...(o.hint ? { hint: o.hint } : {}) });
+  }
+
+  return {
+    runner: "jest",
+    version,
+    configFiles: await existingFiles(packagePath, JEST_CONFIG_FILES),
+    testFiles: testFiles.length,
+    items: Array.from(items.values())
+  };
+}
+
+/**
+ * Vitest: config (environment, setupFiles, projects, in-source tests) and vi.* usage
+ */
+async function profileVitest(packagePath: string, version: string, sources: string[]): Promise<TestRunnerProfile> {
+  const items = new Map<string, TestRunnerItem>();
+  const configFiles = await existingFiles(packagePath, VITEST_CONFIG_FILES);
+
+  // vite.config.* counts only when it has a test block
+  for (const name of await existingFiles(packagePath, VITE_CONFIG_FILES)) {
+    const content = await readText(path.join(packagePath, name));
+    if (content && /\btest\s*:\s*\{/.test(content)) configFiles.push(name);
+  }
+
+  for (const name of configFiles) {
+    const content = (await readText(path.join(packagePath, name))) ?? "";
+    const env = content.match(/\benvironment\s*:\s*['"`]([\w-]+)['"`]/);
+    if (env && env[1] && env[1] !== "node") {
+      addItem(items, { item: `${name}: environment ${env[1]}`, level: "shim", sites: [], hint: "register happy-dom in a [test] preload (@happy-dom/global-registrator)" });
+    }
+    if (/\bsetupFiles\s*:/.test(content)) {
+      addItem(items, { item: `${name}: setupFiles`, level: "shim", sites: [], hint: "list the files under bunfig.toml [test] preload" });
+    }
+    if (/\bglobals\s*:\s*true/.test(content)) {
+      addItem(items, { item: `${name}: globals`, level: "unchanged", sites: [], hint: "bun test provides test globals" });
+    }
+    if (/\b(alias)\s*:/.test(content)) {
+      addItem(items, { item: `${name}: alias`, level: "shim", sites: [], hint: "use tsconfig paths or a Bun plugin in a [test] preload" });
+    }
+    if (/\b(projects|workspace)\s*:/.test(content)) {
+      addItem(items, { item: `${name}: projects`, level: "blocker", sites: [], hint: "bun test has no projects; run bun test in each project directory" });
+    }
+    if (/\bincludeSource\s*:/.test(content)) {
+      addItem(items, { item: `${name}: includeSource`, level: "blocker", sites: [], hint: "in-source tests (import.meta.vitest) are not run by bun test; move them to *.test.* files" });
+    }
+    if (/\bbrowser\s*:\s*\{/.test(content)) {
+      addItem(items, { item: `${name}: browser`, level: "blocker", sites: [], hint: "browser mode has no bun test equivalent" });
+    }
+  }
+
+  const workspaceFiles = await existingFiles(packagePath, VITEST_WORKSPACE_FILES);
+  for (const name of workspaceFiles) {
+    addItem(items, { item: `${name}: projects`, level: "blocker", sites: [], hint: "bun test has no projects; run bun test in each project directory" });
+  }
+
+  let testFiles = 0;
+  for (const f of sources) {
+    const file = rel(packagePath, f);
+    const content = await readText(f);
+    if (content === null) continue;
+
+    if (!isTestFile(file)) {
+      if (content.includes("import.meta.vitest")) {
+        addItem(items, { item: "import.meta.vitest (in-source test)", level: "blocker", sites: [`${file}:${lineAtIndex(content, content.indexOf("import.meta.vitest"))}`], hint: "bun test does not run in-source tests; move them to *.test.* files" });
+      }
+      continue;
+    }
+
+    testFiles++;
+    scanPatterns(content, file, VITEST_APIS, items);
+
+    // vi.mock is hoisted by Vitest; bun test runs it in place
+    const imports = parseImports(content);
+    const mockCall = /\bvi\.mock\s*\(\s*['"`]([^'"`]+)['"`]\s*(,)?/g;
+    let match: RegExpExecArray | null;
+    while ((match = mockCall.exec(content)) !== null) {
+      const site = `${file}:${lineAtIndex(content, match.index)}`;
+      const mocked = match[1] ?? "";
+      if (!match[2]) {
+        addItem(items, { item: "vi.mock (automock)", level: "blocker", sites: [site], hint: "automocks and __mocks__ folders are not supported; pass a factory to mock.module()" });
+      } else if (imports.some((imp) => imp.modulePath === mocked && imp.importType !== "esm-dynamic")) {
+        addItem(items, { item: "vi.mock (hoisted)", level: "shim", sites: [site], hint: "bun test does not hoist vi.mock; register the mock in a [test] preload" });
+      } else {
+        addItem(items, { item: "vi.mock", level: "unchanged", sites: [site] });
+      }
+    }
+  }
+
+  return { runner: "vitest", version, configFiles, testFiles, items: Array.from(items.values()) };
+}
+
+/**
+ * Mocha --require hooks and other options from .mocharc.*, package.json "mocha" and scripts
+ */
+async function readMochaOptions(packagePath: string, pkgMocha: unknown, scripts: Record<string, string>): Promise<{ configFiles: string[]; requires: string[]; ui: string | null; spec: string[] }> {
+  const configFiles = await existingFiles(packagePath, MOCHA_CONFIG_FILES);
+  const requires: string[] = [];
+  let ui: string | null = null;
+  const spec: string[] = [];
+
+  const fromObject = (o: Record<string, unknown>): void => {
+    const req = o.require ?? o.r;
+    for (const r of Array.isArray(req) ? req : req ? [req] : []) if (typeof r === "string") requires.push(r);
+    if (typeof o.ui === "string") ui = o.ui;
+    const s = o.spec;
+    for (const x of Array.isArray(s) ? s : s ? [s] : []) if (typeof x === "string") spec.push(x);
+  };
+
+  if (pkgMocha && typeof pkgMocha === "object") fromObject(pkgMocha as Record<string, unknown>);
+
+  for (const name of configFiles) {
+    const content = (await readText(path.join(packagePath, name))) ?? "";
+    if (name.endsWith(".json") || name.endsWith(".jsonc")) {
+      try {
+        fromObject(JSON.parse(content.replace(/^\s*\/\/.*$/gm, "")) as Record<string, unknown>);
+      } catch {
+        // Invalid JSON
+      }
+      continue;
+    }
+    if (name.endsWith(".yml") || name.endsWith(".yaml")) {
+      let listKey: string | null = null;
+      for (const line of content.split("\n")) {
+        const item = line.match(/^\s*-\s*['"]?([^'"]+?)['"]?\s*$/);
+        if (item && item[1] && listKey) {
+          fromObject({ [listKey]: item[1] });
+          continue;
+        }
+        const kv = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+        if (!kv || !kv[1]) continue;
+        const value = (kv[2] ?? "").trim().replace(/^['"]|['"]$/g, "");
+        listKey = value === "" ? kv[1] : null;
+        if (value !== "") fromObject({ [kv[1]]: value.startsWith("[") ? value.slice(1, -1).split(",").map((v) => v.trim().replace(/^['"]|['"]$/g, "")) : value });
+      }
+      continue;
+    }
+    // .mocharc.js / .cjs
+    const req = content.match(/\brequire\s*:\s*(\[[^\]]*\]|['"][^'"]+['"])/);
+    if (req && req[1]) {
+      for (const m of req[1].matchAll(/['"]([^'"]+)['"]/g)) if (m[1]) requires.push(m[1]);
+    }
+    const uiMatch = content.match(/\bui\s*:\s*['"](\w+)['"]/);
+    if (uiMatch && uiMatch[1]) ui = uiMatch[1];
+  }
+
+  for (const script of Object.values(scripts)) {
+    if (!/\bmocha\b/.test(script)) continue;
+    for (const m of script.matchAll(/(?:--require|-r)[= ](\S+)/g)) if (m[1]) requires.push(m[1].replace(/^['"]|['"]$/g, ""));
+    const uiMatch = script.match(/--ui[= ](\w+)/);
+    if (uiMatch && uiMatch[1]) ui = uiMatch[1];
+  }
+
+  return { configFiles, requires: Array.from(new Set(requires)), ui, spec };
+}
+
+/**
+ * Mocha: --require hooks, interface and test file naming
+ */
+async function profileMocha(packagePath: string, version: string, sources: string[], pkgMocha: unknown, scripts: Record<string, string>): Promise<TestRunnerProfile> {
+  const items = new Map<string, TestRunnerItem>();
+  const options = await readMochaOptions(packagePath, pkgMocha, scripts);
+
+  for (const r of options.requires) {
+    if (MOCHA_REDUNDANT_REQUIRES.includes(r)) {
+      addItem(items, { item: `--require ${r}`, level: "unchanged", sites: [], hint: "not needed: Bun runs TypeScript and ESM natively" });
+    } else {
+      addItem(items, { item: `--require ${r}`, level: "shim", sites: [], hint: "list it under bunfig.toml [test] preload" });
+    }
+  }
+  if (options.ui && options.ui !== "bdd") {
+    addItem(items, { item: `ui ${options.ui}`, level: "shim", sites: [], hint: "bun test provides the bdd interface only; alias the rest in a [test] preload" });
+  }
+
+  // Mocha runs test/**; bun test only picks up *.test.*, *.spec.* and __tests__
+  const inTestDir = (file: string): boolean => file.split("/")[0] === "test";
+  let testFiles = 0;
+  const unnamed: string[] = [];
+  for (const f of sources) {
+    const file = rel(packagePath, f);
+    if (!isTestFile(file) && !inTestDir(file)) continue;
+    testFiles++;
+    if (!isTestFile(file)) unnamed.push(file);
+    const content = await readText(f);
+    if (content !== null) scanPatterns(content, file, MOCHA_APIS, items);
+  }
+  if (unnamed.length > 0) {
+    addItem(items, { item: "spec files not named *.test.* / *.spec.*", level: "shim", sites: unnamed, hint: "bun test will not discover them; rename the files or pass their paths to bun test" });
+  }
+
+  return { runner: "mocha", version, configFiles: options.configFiles, testFiles, items: Array.from(items.values()) };
+}
+
+/**
+ * Build compatibility profiles for the test runners a package uses.
+ * A runner is profiled when it is a dependency or has a config file in the package,
+ * and it has config files or test files to look at.
+ */
+export async function profileTestRunners(
+  packagePath: string,
+  pkg: { dependencies?: Record<string, string>; devDependencies?: Record<string, string>; scripts?: Record<string, string>; jest?: unknown; mocha?: unknown }
+): Promise<TestRunnerProfile[]> {
+  const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+  const scripts = pkg.scripts ?? {};
+  const has = async (runner: TestRunnerName, configs: string[]): Promise<boolean> =>
+    deps[runner] !== undefined || (await existingFiles(packagePath, configs)).length > 0;
+
+  const runners: TestRunnerName[] = [];
+  if ((await has("jest", JEST_CONFIG_FILES)) || pkg.jest !== undefined) runners.push("jest");
+  if (await has("vitest", [...VITEST_CONFIG_FILES, ...VITEST_WORKSPACE_FILES])) runners.push("vitest");
+  if ((await has("mocha", MOCHA_CONFIG_FILES)) || pkg.mocha !== undefined) runners.push("mocha");
+  if (runners.length === 0) return [];
+
+  const sources = await ownSourceFiles(packagePath);
+  const profiles: TestRunnerProfile[] = [];
+  for (const runner of runners) {
+    const version = deps[runner] ?? "";
+    if (runner === "jest") profiles.push(await profileJest(packagePath, version, sources));
+    if (runner === "vitest") profiles.push(await profileVitest(packagePath, version, sources));
+    if (runner === "mocha") profiles.push(await profileMocha(packagePath, version, sources, pkg.mocha, scripts));
+  }
+
+  for (const p of profiles) {
+    p.items = stableSort(p.items, (i) => i.item);
+  }
+  // Nothing to profile: leave the runner to the runtime.dev_tools name match
+  return profiles.filter((p) => p.configFiles.length > 0 || p.testFiles > 0 || p.items.length > 0);
+}
@@ -0,0 +1,233 @@
+// File: src/toolchain.ts
+// packageManager (corepack), engines, volta and version-manager files checked against Bun
+
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import type { PackageJson } from "./internal_types.js";
+import { isValidRange, parseVersion, satisfies } from "./semver.js";
+
+export type ToolName = "node" | "bun" | "npm" | "pnpm" | "yarn";
+
+/**
+ * Versions bun-ready checks the toolchain against:
+ * the Bun release to migrate to, and the Node.js version it reports in process.version
+ */
+export interface ToolchainTarget {
+  bun: string;
+  node: string;
+}
+
+// Node.js version Bun reports in process.version, from the Bun release that started reporting it
+const BUN_NODE_VERSIONS: Array<[bun: string, node: string]> = [
+  ["1.0.0", "20.8.0"],
+  ["1.1.0", "21.6.0"],
+  ["1.2.0", "22.6.0"],
+  ["1.2.18", "24.3.0"],
+  ["1.4.0", "26.3.0"]
+];
+
+/**
+ * Target for a Bun version, with the Node.js version that release reports.
+ * Versions older than the table get its first entry.
+ */
+export const toolchainTarget = (bun: string): ToolchainTarget => {
+  const version = bun.replace(/^v/, "");
+  const match = BUN_NODE_VERSIONS.filter(([b]) => satisfies(version, `>=${b}`)).pop() ?? BUN_NODE_VERSIONS[0]!;
+  return { bun: version, node: match[1] };
+};
+
+export const DEFAULT_TOOLCHAIN_TARGET: ToolchainTarget = toolchainTarget("1.2.0");
+
+export interface ToolchainEntry {
+  /** package.json, .nvmrc, .node-version, .tool-versions or .bun-version (relative to the repo) */
+  file: string;
+  /** "packageManager", "engines.node", "volta.yarn", or the tool name for version files */
+  field: string;
+  tool: ToolName;
+  spec: string;
+  /** What conflicts with Bun; null when the entry is fine as is */
+  problem: string | null;
+  /** Informational remark that does not need a change */
+  note: string | null;
+}
+
+export interface ToolchainInfo {
+  entries: ToolchainEntry[];
+  /** Proposed package.json fields, e.g. { packageManager: "bun@1.2.0", engines: { bun: ">=1.2.0" } } */
+  packageJson: { packageManager?: string; engines?: { bun: string } };
+  /** Proposed version-file lines, e.g. ".tool-versions: bun 1.2.0" */
+  versionFiles: string[];
+}
+
+const PM_TOOLS: ToolName[] = ["npm", "pnpm", "yarn"];
+
+// .tool-versions (asdf / mise) plugin names
+const ASDF_TOOLS: Record<string, ToolName> = { nodejs: "node", node: "node", bun: "bun", yarn: "yarn", pnpm: "pnpm", npm: "npm" };
+
+// nvm aliases that cannot be evaluated offline
+const NVM_ALIAS_RE = /^(lts\/.*|node|stable|latest|current|system|iojs)$/i;
+
+const readFirstLine = async (p: string): Promise<string | null> => {
+  try {
+    const content = await fs.readFile(p, "utf8");
+    const line = content.split("\n").map((l) => l.replace(/#.*$/, "").trim()).find((l) => l.length > 0);
+    return line ?? null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Read version-manager files from the first search path that has each of them
+ */
+const readVersionFiles = async (searchPaths: string[], rootPath: string): Promise<Array<{ file: string; tool: ToolName; spec: string }>> => {
+  const found: Array<{ file: string; tool: ToolName; spec: string }> = [];
+  const relative = (p: string): string => path.relative(rootPath, p).replace(/\\/g, "/") || path.basename(p);
+
+  for (const [name, tool] of [[".nvmrc", "node"], [".node-version", "node"], [".bun-version", "bun"]] as Array<[string, ToolName]>) {
+    for (const dir of searchPaths) {
+      const line = await readFirstLine(path.join(dir, name));
+      if (line !== null) {
+        found.push({ file: relative(path.join(dir, name)), tool, spec: line });
+        break;
+      }
+    }
+  }
+
+  for (const dir of searchPaths) {
+    const p = path.join(dir, ".tool-versions");
+    let content: string;
+    try {
+      content = await fs.readFile(p, "utf8");
+    } catch {
+      continue;
+    }
+    for (const raw of content.split("\n")) {
+      const [plugin, version] = raw.replace(/#.*$/, "").trim().split(/\s+/);
+      const tool = plugin ? ASDF_TOOLS[plugin] : undefined;
+      if (tool && version) found.push({ file: relative(p), tool, spec: version });
+    }
+    break;
+  }
+
+  return found;
+};
+
+/**
+ * Check a Node.js requirement against the Node version Bun reports
+ * - ranges (engines, volta) conflict when they exclude it
+ * - pinned versions (version files) only get a note, since Bun ignores them
+ */
+const checkNode = (spec: string, isRange: boolean, target: ToolchainTarget): Pick<ToolchainEntry, "problem" | "note"> => {
+  if (NVM_ALIAS_RE.test(spec)) {
+    return { problem: null, note: `alias "${spec}" cannot be checked offline; Bun reports Node ${target.node}` };
+  }
+  const ok = satisfies(target.node, spec.replace(/^v/, ""));
+  if (ok === null) return { problem: null, note: `"${spec}" is not a valid version or range` };
+  if (ok) return { problem: null, note: null };
+  if (isRange) {
+    return { problem: `excludes Node ${target.node}, the version Bun reports in process.version; engine checks and version guards will fail`, note: null };
+  }
+  return { problem: null, note: `pins Node ${spec}; Bun reports Node ${target.node}, so version checks in code see a different Node` };
+};
+
+/**
+ * Collect and check packageManager, engines, volta and version files.
+ * searchPaths: package directory first, then the repo root (version files usually live at the root)
+ */
+export async function collectToolchain(
+  pkg: PackageJson,
+  searchPaths: string[],
+  target: ToolchainTarget = DEFAULT_TOOLCHAIN_TARGET
+): Promise<ToolchainInfo> {
+  const rootPath = searchPaths[searchPaths.length - 1] ?? ".";
+  const pkgFile = (path.relative(rootPath, path.join(searchPaths[0] ?? rootPath, "package.json")) || "package.json").replace(/\\/g, "/");
+  const entries: ToolchainEntry[] = [];
+  const add = (file: string, field: string, tool: ToolName, spec: string, check: Pick<ToolchainEntry, "problem" | "note">): void => {
+    entries.push({ file, field, tool, spec, ...check });
+  };
+
+  // packageManager (corepack): "yarn@4.1.0+sha512..."
+  if (pkg.packageManager) {
+    const m = pkg.packageManager.match(/^(@?[^@]+)@([^+]+)/);
+    const name = m?.[1] ?? pkg.packageManager;
+    const version = m?.[2] ?? "";
+    if (name === "bun") {
+      const ok = parseVersion(version) ? satisfies(version, `>=${target.bun}`) : null;
+      add(pkgFile, "packageManager", "bun", pkg.packageManager, ok === false ? { problem: `pins Bun ${version}, older than ${target.bun}`, note: null } : { problem: null, note: null });
+    } else {
+      add(pkgFile, "packageManager", (PM_TOOLS.includes(name as ToolName) ? name : "npm") as ToolName, pkg.packageManager, {
+        problem: `corepack pins ${name}; with corepack enabled, \`${name}\` commands in scripts and CI keep using it instead of Bun`,
+        note: null
+      });
+    }
+  }
+
+  // engines
+  for (const [tool, spec] of Object.entries(pkg.engines ?? {})) {
+    if (typeof spec !== "string") continue;
+    if (tool === "node") {
+      add(pkgFile, "engines.node", "node", spec, checkNode(spec, true, target));
+    } else if (tool === "bun") {
+      const ok = satisfies(target.bun, spec);
+      add(pkgFile, "engines.bun", "bun", spec, ok === false ? { problem: `excludes Bun ${target.bun}`, note: null } : { problem: null, note: ok === null ? `"${spec}" is not a valid range` : null });
+    } else if (PM_TOOLS.includes(tool as ToolName)) {
+      add(pkgFile, `engines.${tool}`, tool as ToolName, spec, {
+        problem: `Bun does not satisfy engines.${tool}; installs with engine-strict and tools that enforce engines will refuse Bun`,
+        note: null
+      });
+    }
+  }
+
+  // volta
+  for (const [tool, spec] of Object.entries(pkg.volta ?? {})) {
+    if (tool === "node") {
+      add(pkgFile, "volta.node", "node", spec, checkNode(spec, false, target));
+    } else if (PM_TOOLS.includes(tool as ToolName)) {
+      add(pkgFile, `volta.${tool}`, tool as ToolName, spec, { problem: `Volta pins ${tool}@${spec} and does not manage Bun; shells with Volta keep running ${tool}`, note: null });
+    }
+  }
+
+  // version-manager files
+  for (const f of await readVersionFiles(searchPaths, rootPath)) {
+    if (f.tool === "node") {
+      add(f.file, "node", "node", f.spec, checkNode(f.spec, false, target));
+    } else if (f.tool === "bun") {
+      const ok = satisfies(f.spec.replace(/^v/, ""), `>=${target.bun}`);
+      add(f.file, "bun", "bun", f.spec, ok === false ? { problem: `pins Bun ${f.spec}, older than ${target.bun}`, note: null } : { problem: null, note: null });
+    } else {
+      add(f.file, f.tool, f.tool, f.spec, { problem: `pins ${f.tool}@${f.spec}; remove it once Bun installs the project`, note: null });
+    }
+  }
+
+  // Pinned Node versions that fall outside engines.node
+  const enginesNode = pkg.engines?.node;
+  if (enginesNode && isValidRange(enginesNode)) {
+    for (const e of entries) {
+      if (e.tool !== "node" || e.field === "engines.node" || NVM_ALIAS_RE.test(e.spec)) continue;
+      if (satisfies(e.spec.replace(/^v/, ""), enginesNode) === false) {
+        e.problem = `${e.problem ? `${e.problem}; ` : ""}does not satisfy engines.node "${enginesNode}"`;
+      }
+    }
+  }
+
+  // Proposals
+  const proposed: ToolchainInfo["packageJson"] = {};
+  if (!entries.some((e) => e.field === "packageManager" && e.tool === "bun" && !e.problem)) {
+    proposed.packageManager = `bun@${target.bun}`;
+  }
+  if (!entries.some((e) => e.field === "engines.bun" && !e.problem)) {
+    proposed.engines = { bun: `>=${target.bun}` };
+  }
+  const versionFiles: string[] = [];
+  const toolVersions = entries.find((e) => e.file.endsWith(".tool-versions"));
+  if (toolVersions && !entries.some((e) => e.file === toolVersions.file && e.tool === "bun" && !e.problem)) {
+    versionFiles.push(`${toolVersions.file}: bun ${target.bun}`);
+  }
+  const bunVersionFile = entries.find((e) => e.file.endsWith(".bun-version"));
+  if (bunVersionFile?.problem) {
+    versionFiles.push(`${bunVersionFile.file}: ${target.bun}`);
+  }
+
+  return { entries, packageJson: proposed, versionFiles };
+}
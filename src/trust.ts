@@ -0,0 +1,224 @@
+// File: src/trust.ts
+// Collect dependencies with lifecycle scripts and propose a trustedDependencies block
+
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { fileExists, normalizeRepoPath, readJsonFile, stableSort } from "./util.js";
+import { readLockfile } from "./lockfile.js";
+import { readRepoInfo, runBunInstallDryRun } from "./analyze.js";
+
+// Dependency lifecycle scripts that Bun blocks for untrusted packages
+const DEP_LIFECYCLE_SCRIPTS = ["preinstall", "install", "postinstall"];
+
+export interface TrustCandidate {
+  name: string;
+  version: string;
+  /** Where the candidate came from: "bun install --dry-run" and/or the lockfile name */
+  sources: string[];
+  /** Lifecycle scripts read from the installed package.json (empty when not installed) */
+  scripts: Record<string, string>;
+  installed: boolean;
+  /**
+   * Whether the package goes into the proposed block: the dry run blocked it, or its installed
+   * package.json has a lifecycle script. Otherwise it is only listed for review.
+   */
+  propose: boolean;
+}
+
+export interface TrustReport {
+  packageJsonPath: string;
+  /** trustedDependencies already present in package.json */
+  existing: string[];
+  candidates: TrustCandidate[];
+  /** existing + candidates with propose set, sorted */
+  proposed: string[];
+  /** Why the dry run was not used, if it was skipped */
+  installSkipReason?: string;
+}
+
+export interface TrustOptions {
+  repoPath: string;
+  runInstall: boolean;
+}
+
+type InstalledPackageJson = {
+  version?: string;
+  scripts?: Record<string, string>;
+};
+
+/**
+ * Read the lifecycle scripts an installed dependency would run.
+ * A package with binding.gyp and no install script gets npm's implicit "node-gyp rebuild".
+ */
+async function readInstalledScripts(repoPath: string, name: string): Promise<{ installed: boolean; version: string; scripts: Record<string, string> }> {
+  const dir = path.join(repoPath, "node_modules", name);
+  const pkgJsonPath = path.join(dir, "package.json");
+  if (!(await fileExists(pkgJsonPath))) {
+    return { installed: false, version: "", scripts: {} };
+  }
+
+  let pkg: InstalledPackageJson;
+  try {
+    pkg = await readJsonFile<InstalledPackageJson>(pkgJsonPath);
+  } catch {
+    return { installed: false, version: "", scripts: {} };
+  }
+
+  const scripts: Record<string, string> = {};
+  for (const key of DEP_LIFECYCLE_SCRIPTS) {
+    const value = pkg.scripts?.[key];
+    if (value) scripts[key] = value;
+  }
+  if (!scripts.install && !scripts.preinstall && (await fileExists(path.join(dir, "binding.gyp")))) {
+    scripts.install = "node-gyp rebuild (implicit, binding.gyp present)";
+  }
+
+  return { installed: true, version: pkg.version ?? "", scripts };
+}
+
+/**
+ * Collect every dependency that needs trustedDependencies to run its lifecycle scripts.
+ * Sources: packages blocked in `bun install --dry-run` and install-script markers in the lockfile.
+ */
+export async function collectTrustCandidates(opts: TrustOptions): Promise<TrustReport> {
+  const repoPath = normalizeRepoPath(opts.repoPath);
+  const info = await readRepoInfo(repoPath);
+  const existing = info.pkg.trustedDependencies ?? [];
+
+  const found = new Map<string, { version: string; sources: Set<string> }>();
+  const add = (name: string, version: string, source: string): void => {
+    const entry = found.get(name) ?? { version, sources: new Set<string>() };
+    if (!entry.version && version) entry.version = version;
+    entry.sources.add(source);
+    found.set(name, entry);
+  };
+
+  let installSkipReason: string | undefined;
+  if (opts.runInstall) {
+    const install = await runBunInstallDryRun(repoPath);
+    if (install.skipReason) {
+      installSkipReason = install.skipReason;
+    }
+    for (const dep of install.installAnalysis.blockedDeps) {
+      add(dep, "", "bun install --dry-run");
+    }
+  } else {
+    installSkipReason = "--no-install";
+  }
+
+  const lock = await readLockfile(repoPath, info.lockfiles);
+  if (lock) {
+    for (const pkg of lock.packages) {
+      if (pkg.hasInstallScript || pkg.nativeMarkers.length > 0) {
+        add(pkg.name, pkg.version, lock.kind);
+      }
+    }
+  }
+
+  const candidates: TrustCandidate[] = [];
+  for (const [name, entry] of found) {
+    if (existing.includes(name)) continue;
+    const installedInfo = await readInstalledScripts(repoPath, name);
+
+    // Installed and nothing to run: the lockfile marker was only a native build hint
+    if (installedInfo.installed && Object.keys(installedInfo.scripts).length === 0) continue;
+
+    candidates.push({
+      name,
+      version: entry.version || installedInfo.version,
+      sources: stableSort(Array.from(entry.sources), (x) => x),
+      scripts: installedInfo.scripts,
+      installed: installedInfo.installed,
+      // Lockfile markers alone (native hints, packages not installed) do not prove there is a script to trust
+      propose: entry.sources.has("bun install --dry-run") || Object.keys(installedInfo.scripts).length > 0
+    });
+  }
+
+  const sortedCandidates = stableSort(candidates, (c) => c.name);
+  const proposed = stableSort(Array.from(new Set([...existing, ...sortedCandidates.filter((c) => c.propose).map((c) => c.name)])), (x) => x);
+
+  const report: TrustReport = {
+    packageJsonPath: path.join(repoPath, "package.json"),
+    existing,
+    candidates: sortedCandidates,
+    proposed
+  };
+  if (installSkipReason !== undefined) {
+    report.installSkipReason = installSkipReason;
+  }
+  return report;
+}
+
+/**
+ * Render the proposed trustedDependencies block with each package's scripts for review
+ */
+export function renderTrustReport(report: TrustReport): string {
+  const lines: string[] = [];
+  lines.push(`# trustedDependencies review`);
+  lines.push(``);
+  lines.push(`package.json: ${report.packageJsonPath.replace(/\\/g, "/")}`);
+  if (report.installSkipReason) {
+    lines.push(`bun install --dry-run: skipped (${report.installSkipReason})`);
+  }
+  lines.push(``);
+
+  if (report.candidates.length === 0) {
+    lines.push(`No dependencies with lifecycle scripts need to be trusted.`);
+    if (report.existing.length > 0) {
+      lines.push(`Already trusted: ${report.existing.join(", ")}`);
+    }
+    return lines.join("\n");
+  }
+
+  const renderCandidate = (c: TrustCandidate): void => {
+    lines.push(`### ${c.name}${c.version ? `@${c.version}` : ""}`);
+    lines.push(`- Found by: ${c.sources.join(", ")}`);
+    if (!c.installed) {
+      lines.push(`- Scripts: not available (package is not installed in node_modules)`);
+    } else {
+      for (const key of DEP_LIFECYCLE_SCRIPTS) {
+        const script = c.scripts[key];
+        if (script) lines.push(`- ${key}: ${script}`);
+      }
+    }
+    lines.push(``);
+  };
+
+  const withScripts = report.candidates.filter((c) => c.propose);
+  const review = report.candidates.filter((c) => !c.propose);
+  if (withScripts.length > 0) {
+    lines.push(`## Packages with lifecycle scripts (${withScripts.length})`);
+    lines.push(``);
+    for (const c of withScripts) renderCandidate(c);
+  }
+  if (review.length > 0) {
+    lines.push(`## Needs review, not proposed (${review.length})`);
+    lines.push(``);
+    lines.push(`The lockfile marks these packages as having an install script or a native build, but no script could be confirmed. Install dependencies and run the review again, or add them by hand once you have read their scripts.`);
+    lines.push(``);
+    for (const c of review) renderCandidate(c);
+  }
+
+  lines.push(`## Proposed package.json entry`);
+  lines.push(``);
+  lines.push("```json");
+  lines.push(JSON.stringify({ trustedDependencies: report.proposed }, null, 2));
+  lines.push("```");
+  lines.push(``);
+  lines.push(`Review every script above before trusting it. Bun runs trusted scripts with full access to your machine.`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Write the proposed trustedDependencies into package.json, keeping its indentation
+ */
+export async function writeTrustedDependencies(report: TrustReport): Promise<void> {
+  const raw = await fs.readFile(report.packageJsonPath, "utf8");
+  const pkg = JSON.parse(raw) as Record<string, unknown>;
+  const indentMatch = raw.match(/^[ \t]+(?=")/m);
+  const indent = indentMatch ? indentMatch[0] : "  ";
+
+  pkg.trustedDependencies = report.proposed;
+  await fs.writeFile(report.packageJsonPath, `${JSON.stringify(pkg, null, indent)}\n`, "utf8");
+}
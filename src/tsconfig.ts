@@ -0,0 +1,230 @@
+// File: src/tsconfig.ts
+// Read tsconfig.json (following extends) and classify compilerOptions by how Bun's transpiler treats them
+
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { fileExists } from "./util.js";
+
+/**
+ * honored: Bun reads the option and behaves like tsc
+ * ignored: Bun does not read it (type-check or emit only)
+ * different: Bun reads it but the result differs from tsc
+ */
+export type TsconfigLevel = "honored" | "ignored" | "different";
+
+export interface TsconfigSetting {
+  option: string;
+  /** Value as JSON, e.g. "true" or "{\"@/*\":[\"src/*\"]}" */
+  value: string;
+  /** File in the extends chain that sets the option (relative to the repo) */
+  file: string;
+  level: TsconfigLevel;
+  note: string;
+  /** Whether the setting is likely to change runtime behavior under Bun */
+  attention: boolean;
+}
+
+export interface TsconfigInfo {
+  /** tsconfig.json Bun will use for this package (relative to the repo) */
+  file: string;
+  /** extends chain, base configs last */
+  chain: string[];
+  /** extends entries that could not be resolved */
+  unresolved: string[];
+  settings: TsconfigSetting[];
+  /** Project references of the package's own tsconfig */
+  references: string[];
+}
+
+type Rule = (value: unknown) => { level: TsconfigLevel; note: string; attention?: boolean } | null;
+
+const RULES: Record<string, Rule> = {
+  paths: () => ({ level: "honored", note: "resolved at runtime by Bun" }),
+  baseUrl: () => ({ level: "honored", note: "bare imports are resolved from baseUrl" }),
+  experimentalDecorators: (v) =>
+    v === true ? { level: "honored", note: "legacy TypeScript decorators" } : null,
+  emitDecoratorMetadata: (v) =>
+    v === true
+      ? {
+          level: "different",
+          note: "Bun emits design:type metadata without a type checker; imported types, interfaces and unions become Object (breaks some DI containers, e.g. NestJS/TypeORM)",
+          attention: true
+        }
+      : null,
+  jsx: (v) =>
+    v === "preserve" || v === "react-native"
+      ? { level: "different", note: `Bun always transforms JSX; "${String(v)}" is treated as "react"`, attention: true }
+      : { level: "honored", note: "JSX transform" },
+  jsxFactory: () => ({ level: "honored", note: "classic JSX factory" }),
+  jsxFragmentFactory: () => ({ level: "honored", note: "classic JSX fragment" }),
+  jsxImportSource: () => ({ level: "honored", note: "automatic JSX runtime" }),
+  useDefineForClassFields: () => ({ level: "honored", note: "class field semantics" }),
+  verbatimModuleSyntax: () => ({ level: "honored", note: "type-only imports are kept or dropped as written" }),
+  importsNotUsedAsValues: (v) =>
+    v === "preserve" || v === "error"
+      ? { level: "different", note: "deprecated; Bun drops unused imports, so side-effect imports need `import \"x\"`", attention: true }
+      : null,
+  preserveValueImports: (v) =>
+    v === true ? { level: "different", note: "deprecated; Bun drops unused imports, use verbatimModuleSyntax", attention: true } : null,
+  isolatedModules: (v) =>
+    v === true
+      ? { level: "ignored", note: "Bun transpiles file by file, so this matches its model" }
+      : { level: "different", note: "Bun transpiles file by file; const enums and type re-exports across files need isolatedModules-safe code", attention: true },
+  moduleResolution: (v) => ({ level: "ignored", note: `Bun uses its own resolver (exports, imports, main, paths) whatever "${String(v)}" says` }),
+  module: () => ({ level: "ignored", note: "Bun runs ESM and CommonJS side by side" }),
+  target: () => ({ level: "ignored", note: "Bun does not down-level syntax" }),
+  esModuleInterop: () => ({ level: "ignored", note: "Bun always applies CommonJS default-import interop" }),
+  allowSyntheticDefaultImports: () => ({ level: "ignored", note: "Bun always applies CommonJS default-import interop" }),
+  allowImportingTsExtensions: () => ({ level: "honored", note: "imports with .ts extensions work" }),
+  rootDirs: () => ({ level: "ignored", note: "virtual directories are not resolved at runtime", attention: true }),
+  plugins: () => ({ level: "ignored", note: "language-service plugins and transformers (ts-patch, typescript-transform-paths) do not run under Bun", attention: true })
+};
+
+/**
+ * Parse JSON with comments and trailing commas (tsconfig syntax)
+ */
+const parseJsonc = (content: string): unknown => {
+  let out = "";
+  let inString = false;
+  for (let i = 0; i < content.length; i++) {
+    const c = content[i];
+    const next = content[i + 1];
+    if (inString) {
+      out += c;
+      if (c === "\\") {
+        out += next ?? "";
+        i++;
+      } else if (c === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (c === '"') {
+      inString = true;
+      out += c;
+    } else if (c === "/" && next === "/") {
+      while (i < content.length && content[i] !== "\n") i++;
+      out += "\n";
+    } else if (c === "/" && next === "*") {
+      i += 2;
+      while (i < content.length && !(content[i] === "*" && content[i + 1] === "/")) i++;
+      i++;
+    } else {
+      out += c;
+    }
+  }
+  return JSON.parse(out.replace(/,(\s*[}\]])/g, "$1"));
+};
+
+/**
+ * Resolve an extends entry: relative path, or a package in node_modules ("@tsconfig/node20/tsconfig.json")
+ */
+const resolveExtends = async (spec: string, fromDir: string): Promise<string | null> => {
+  const candidates = (base: string): string[] => [base, `${base}.json`, path.join(base, "tsconfig.json")];
+
+  if (spec.startsWith(".") || path.isAbsolute(spec)) {
+    for (const c of candidates(path.resolve(fromDir, spec))) {
+      if (c.endsWith(".json") && (await fileExists(c))) return c;
+    }
+    return null;
+  }
+
+  let dir = fromDir;
+  for (;;) {
+    for (const c of candidates(path.join(dir, "node_modules", spec))) {
+      if (c.endsWith(".json") && (await fileExists(c))) return c;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+};
+
+/**
+ * Read the tsconfig.json Bun uses for a package and classify its compilerOptions.
+ * searchPaths: package directory first, then the repo root (Bun walks up to the nearest tsconfig.json).
+ * Returns null when no tsconfig.json is found.
+ */
+export async function readTsconfig(searchPaths: string[]): Promise<TsconfigInfo | null> {
+  const rootPath = searchPaths[searchPaths.length - 1] ?? ".";
+  const rel = (p: string): string => path.relative(rootPath, p).replace(/\\/g, "/") || path.basename(p);
+
+  let entry: string | null = null;
+  for (const dir of searchPaths) {
+    if (await fileExists(path.join(dir, "tsconfig.json"))) {
+      entry = path.join(dir, "tsconfig.json");
+      break;
+    }
+  }
+  if (!entry) return null;
+
+  const chain: string[] = [];
+  const unresolved: string[] = [];
+  // option -> { value, file }; base configs are applied first so children override them
+  const options = new Map<string, { value: unknown; file: string }>();
+  let references: string[] = [];
+
+  const load = async (file: string, depth: number): Promise<void> => {
+    if (chain.includes(rel(file)) || depth > 16) return;
+    chain.push(rel(file));
+    let json: { extends?: string | string[]; compilerOptions?: Record<string, unknown>; references?: Array<{ path?: string }> };
+    try {
+      json = parseJsonc(await fs.readFile(file, "utf8")) as typeof json;
+    } catch {
+      unresolved.push(`${rel(file)} (invalid JSON)`);
+      return;
+    }
+
+    const bases = Array.isArray(json.extends) ? json.extends : json.extends ? [json.extends] : [];
+    for (const spec of bases) {
+      const resolved = await resolveExtends(spec, path.dirname(file));
+      if (resolved) await load(resolved, depth + 1);
+      else unresolved.push(`${spec} (extended by ${rel(file)})`);
+    }
+
+    for (const [option, value] of Object.entries(json.compilerOptions ?? {})) {
+      options.set(option, { value, file: rel(file) });
+    }
+    if (depth === 0) {
+      references = (json.references ?? []).map((r) => r.path ?? "").filter(Boolean);
+    }
+  };
+
+  await load(entry, 0);
+
+  const settings: TsconfigSetting[] = [];
+  for (const [option, { value, file }] of options) {
+    const rule = RULES[option];
+    const result = rule ? rule(value) : null;
+    if (!result) continue;
+    settings.push({ option, value: JSON.stringify(value), file, level: result.level, note: result.note, attention: result.attention ?? false });
+  }
+
+  // Bun transpiles file by file; worth a note even when the option is not set
+  if (!options.has("isolatedModules") && !options.has("verbatimModuleSyntax")) {
+    settings.push({
+      option: "isolatedModules",
+      value: "(not set)",
+      file: rel(entry),
+      level: "different",
+      note: "Bun transpiles file by file; enable it so tsc flags const enums and type re-exports Bun cannot compile",
+      attention: false
+    });
+  }
+
+  // Bun resolves paths against baseUrl or, without one, the tsconfig that declares them
+  const paths = options.get("paths");
+  const baseUrl = options.get("baseUrl");
+  if (paths && baseUrl && paths.file !== baseUrl.file) {
+    const setting = settings.find((s) => s.option === "paths");
+    if (setting) setting.note = `resolved at runtime from baseUrl in ${baseUrl.file}`;
+  }
+
+  return {
+    file: rel(entry),
+    chain: chain.slice(1),
+    unresolved,
+    settings: settings.sort((a, b) => a.option.localeCompare(b.option)),
+    references
+  };
+}
@@ -21,6 +21,8 @@ export type BunReadyConfig = {
   nativeAddonAllowlist?: string[];
   failOn?: FailOnPolicy;
   detailed?: boolean;
+  /** Compatibility database overlay file, relative to the repo root */
+  compatDb?: string;
   // v0.3 extensions
   rules?: PolicyRule[];
   thresholds?: PolicyThresholds;
@@ -29,6 +31,45 @@ export type BunReadyConfig = {
 // New types for workspaces
 export type WorkspaceScope = "root" | "packages" | "all";
 
+export type FrameworkName = "express" | "fastify" | "nestjs" | "nextjs" | "remix" | "nuxt";
+
+export interface FrameworkCheck {
+  /** Problem area checked, e.g. "emitDecoratorMetadata" or "next dev" */
+  check: string;
+  severity: Severity;
+  detail: string;
+  /** Source locations ("file:line"), if the check scans sources */
+  sites: string[];
+}
+
+export interface FrameworkProfile {
+  framework: FrameworkName;
+  /** Display name, e.g. "Next.js" */
+  label: string;
+  /** Declared version, empty when the framework is only detected by its config file */
+  version: string;
+  /** Framework config files found, relative to the package */
+  configFiles: string[];
+  /** Worst check severity */
+  severity: Severity;
+  /** One-line framework-specific verdict, e.g. "NestJS blocked on Bun (emitDecoratorMetadata)" */
+  verdict: string;
+  checks: FrameworkCheck[];
+}
+
+export type PlatformName = "electron" | "react-native" | "vscode-extension";
+
+/**
+ * Fixed JS runtime a package is built for; such packages are not graded for Bun
+ */
+export interface PlatformTarget {
+  platform: PlatformName;
+  /** Display name, e.g. "VS Code extension" */
+  label: string;
+  /** What identified the platform, e.g. "dependency electron@^28.0.0" or "engines.vscode: ^1.80.0" */
+  evidence: string[];
+}
+
 export type PackageAnalysis = {
   name: string;
   path: string;
@@ -51,6 +92,9 @@ export type PackageAnalysis = {
   stats?: PackageStats;
   findingsSummary?: FindingsSummary;
   packageUsage?: PackageUsageStats;
+  frameworks?: FrameworkProfile[];
+  /** Set when the package targets a platform with its own runtime; severity is then left out of the overall verdict */
+  notApplicable?: PlatformTarget;
   cleanDependencies?: string[];
   cleanDevDependencies?: string[];
   // Package classification fields
@@ -72,6 +116,17 @@ export type ScanOptions = {
   failOn?: FailOnPolicy;
   ci?: CIOptions;
   outputDir?: string;
+  /** Bun version to judge compatibility against (--bun-version); defaults to the installed Bun */
+  bunVersion?: string;
+};
+
+/**
+ * Bun version the verdict was computed for
+ */
+export type BunVersionInfo = {
+  version: string;
+  /** "option" for --bun-version, "installed" for `bun --version` */
+  source: "option" | "installed";
 };
 
 // New type for parsing bun install logs results
@@ -86,6 +141,10 @@ export type Finding = {
   id: string;
   title: string;
   severity: Severity;
+  /**
+   * A detail that starts with a dependency name marks that dependency as risky (see calculatePackageStats).
+   * Findings about packages that are not risks lead with something else, e.g. the replacement or verdict.
+   */
   details: string[];
   hints: string[];
 };
@@ -118,6 +177,8 @@ export interface PackageUsage {
   packageName: string;
   fileCount: number;
   filePaths: string[];
+  /** Files that import the package only for its side effects (import 'x', require('x').install()) */
+  globalImportPaths?: string[];
 }
 
 export interface PackageUsageStats {
@@ -168,6 +229,8 @@ export type OverallResult = {
   };
   packages?: PackageAnalysis[];
   config?: BunReadyConfig | null;
+  /** null when no version was given and Bun is not installed */
+  bunVersion?: BunVersionInfo | null;
   // v0.3 extensions
   policyApplied?: PolicySummary;
   baselineComparison?: BaselineComparison;
@@ -203,9 +266,23 @@ export type RepoInfo = {
     dependencies?: Record<string, string>;
     devDependencies?: Record<string, string>;
     optionalDependencies?: Record<string, string>;
+    trustedDependencies?: string[];
+    overrides?: Record<string, unknown>;
+    resolutions?: Record<string, string>;
+    patchedDependencies?: Record<string, string>;
+    pnpm?: {
+      overrides?: Record<string, string>;
+      patchedDependencies?: Record<string, string>;
+    };
+    packageManager?: string;
     engines?: {
       node?: string;
+      bun?: string;
+      npm?: string;
+      pnpm?: string;
+      yarn?: string;
     };
+    volta?: Record<string, string>;
   };
 };
 
@@ -331,6 +408,10 @@ export type SarifRun = {
     };
   };
   results: SarifResult[];
+  properties?: {
+    bunVersion?: string;
+    bunVersionSource?: BunVersionInfo["source"];
+  };
 };
 
 export type SarifLog = {
@@ -389,7 +470,12 @@ export type OverallResultV03 = OverallResult & {
 /**
  * Extended analysis mode options
  */
-export type ExtendedAnalysisMode = 'none' | 'full' | 'api' | 'modules';
+export type ExtendedAnalysisMode = 'none' | 'full' | 'api' | 'modules' | 'tests' | 'hooks' | 'v8' | 'env';
+
+/**
+ * Individual extended analyzers that can be selected with --analyze
+ */
+export type ExtendedAnalysisKind = 'api' | 'modules' | 'tests' | 'hooks' | 'v8' | 'env';
 
 /**
  * Options for extended analysis
@@ -399,6 +485,10 @@ export interface ExtendedAnalysisOptions {
   enabled: boolean;
   /** Which analyses to run */
   mode: ExtendedAnalysisMode;
+  /** Explicit analyzer list when more than one (but not all) was selected */
+  analyses?: ExtendedAnalysisKind[];
+  /** Probe builtin exports from the local bun/node for the api analyzer */
+  probe?: boolean;
 }
 
 /**
@@ -435,6 +525,12 @@ export interface ApiAnalysisSummary {
   redZone: string[];
   /** Modules without node: prefix */
   withoutNodePrefix: string[];
+  /** npm_* environment variables read from source */
+  npmEnvVars?: string[];
+  /** Yellow or red exports used (e.g., 'fs.watch', 'child_process.fork') */
+  memberApis?: string[];
+  /** Used exports the local Bun does not provide, when --probe ran */
+  probedMissing?: string[];
   /** Detailed usage info */
   usageByModule?: ApiModuleUsage[];
 }
@@ -489,6 +585,164 @@ export interface ModuleAnalysisSummary {
   mixedFileDetails?: MixedImportFileInfo[];
   /** CJS globals details */
   cjsGlobalsDetails?: CJSGlobalUsageInfo[];
+  /** Libraries and code patching Module internals */
+  modulePatchers?: string[];
+}
+
+/**
+ * Support level of a test framework API under bun test
+ */
+export type TestApiSupport = 'supported' | 'partial' | 'unsupported';
+
+/**
+ * A single test framework API call site
+ */
+export interface TestApiUsageInfo {
+  /** File path */
+  file: string;
+  /** Line number */
+  line: number;
+  /** API as written, e.g. "jest.requireActual" */
+  api: string;
+  /** Support level under bun test */
+  support: TestApiSupport;
+  /** What differs and how to migrate */
+  hint?: string;
+}
+
+/**
+ * Result of Jest API analysis
+ */
+export interface TestAnalysisSummary {
+  /** Test files analyzed */
+  totalTestFiles: number;
+  /** Test files that use Jest APIs */
+  filesUsingJest: number;
+  /** Call sites by support level */
+  supported: number;
+  partial: number;
+  unsupported: number;
+  /** Per-file counts */
+  perFile?: Array<{ file: string; supported: number; partial: number; unsupported: number }>;
+  /** Unsupported call sites */
+  unsupportedSites?: TestApiUsageInfo[];
+  /** Jest config options and their bun test support */
+  configOptions?: Array<{ source: string; option: string; support: TestApiSupport; hint?: string }>;
+}
+
+/**
+ * Low-level runtime hook kinds
+ */
+export type RuntimeHookKind = 'process.binding' | 'process.dlopen' | 'native .node require' | 'Module._load' | 'require.extensions';
+
+/**
+ * A single low-level runtime hook call site
+ */
+export interface RuntimeHookUsageInfo {
+  /** File path */
+  file: string;
+  /** Line number */
+  line: number;
+  hook: RuntimeHookKind;
+  /** Binding name or .node path, when written as a literal */
+  target?: string;
+  /** yellow for native addon loading and require.extensions reads, red otherwise */
+  severity: Severity;
+  hint: string;
+}
+
+/**
+ * Runtime hooks analysis summary
+ */
+export interface RuntimeHookSummary {
+  /** Source files analyzed */
+  totalFiles: number;
+  /** Files with at least one hook */
+  filesWithHooks: number;
+  /** Call sites per hook kind */
+  byHook: Partial<Record<RuntimeHookKind, number>>;
+  /** All call sites */
+  sites?: RuntimeHookUsageInfo[];
+}
+
+/**
+ * A single V8-specific API call site
+ */
+export interface V8ApiUsageInfo {
+  /** File path */
+  file: string;
+  /** Line number */
+  line: number;
+  /** API as reported, e.g. "Error.prepareStackTrace" or "v8.serialize" */
+  api: string;
+  /** How much the behavior differs under Bun */
+  severity: Severity;
+  hint: string;
+}
+
+/**
+ * V8 API analysis summary
+ */
+export interface V8ApiSummary {
+  /** Source files analyzed */
+  totalFiles: number;
+  /** Files with at least one V8-specific API */
+  filesWithV8Apis: number;
+  /** Call sites per severity */
+  bySeverity: Record<Severity, number>;
+}
+
+/**
+ * A .env file in the analyzed directory (or named by a dotenv path option)
+ */
+export interface EnvFileInfo {
+  /** Path relative to the root */
+  file: string;
+  /** Number of keys defined */
+  keys: number;
+  /** Loaded automatically by Bun (.env, .env.local, .env.development/production/test in the root) */
+  loadedByBun: boolean;
+}
+
+/**
+ * A dotenv / dotenv-flow / dotenv-expand call site
+ */
+export interface DotenvCallSiteInfo {
+  file: string;
+  line: number;
+  loader: 'dotenv' | 'dotenv-flow' | 'dotenv-expand';
+  /** Call as written, e.g. "dotenv.config" or "dotenv/config" */
+  call: string;
+  /** Files (dotenv) or directories (dotenv-flow) from the path option; [] for the default, null when computed at runtime */
+  paths: string[] | null;
+  /** override: true was passed */
+  override: boolean;
+  /** node_env option of dotenv-flow */
+  nodeEnv?: string;
+}
+
+/**
+ * A key whose effective value differs once Bun has loaded .env files itself
+ */
+export interface EnvKeyConflict {
+  key: string;
+  /** NODE_ENV the comparison was made for */
+  nodeEnv: string;
+  /** File the value comes from under Bun (null when unset) */
+  bunSource: string | null;
+  /** File the value comes from under Node (null when unset) */
+  nodeSource: string | null;
+  /** Loader call, "file:line" */
+  callSite: string;
+}
+
+/**
+ * .env loading analysis summary
+ */
+export interface EnvAnalysisSummary {
+  envFiles: EnvFileInfo[];
+  callSites: DotenvCallSiteInfo[];
+  conflicts: EnvKeyConflict[];
 }
 
 /**
@@ -499,6 +753,14 @@ export interface ExtendedAnalysisResult {
   apiAnalysis?: ApiAnalysisSummary;
   /** Module analysis summary */
   moduleAnalysis?: ModuleAnalysisSummary;
+  /** Jest API analysis summary */
+  testAnalysis?: TestAnalysisSummary;
+  /** Low-level runtime hooks summary */
+  hookAnalysis?: RuntimeHookSummary;
+  /** V8-specific API summary */
+  v8Analysis?: V8ApiSummary;
+  /** .env loading summary */
+  envAnalysis?: EnvAnalysisSummary;
   /** All findings from extended analysis */
   findings: Finding[];
 }
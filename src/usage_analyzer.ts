@@ -17,8 +17,30 @@ const IMPORT_PATTERNS = [
   /import\s*\(\s*['"]([^./][^'"]*)['"]\s*\)/g,
   // CommonJS: require('package-name')
   /require\s*\(\s*['"]([^./][^'"]*)['"]\s*\)/g,
+  // Side-effect imports: import 'package-name'
+  /import\s*['"]([^./][^'"]*)['"]/g,
 ];
 
+// Imports run only for their side effects, which usually patch globals
+const GLOBAL_IMPORT_PATTERNS = [
+  // import 'isomorphic-fetch'
+  /^\s*import\s*['"]([^./][^'"]*)['"]/gm,
+  // require('isomorphic-fetch'); as a statement of its own
+  /^\s*require\s*\(\s*['"]([^./][^'"]*)['"]\s*\)\s*;?\s*$/gm,
+  // require('source-map-support').install(), require('dotenv').config()
+  /require\s*\(\s*['"]([^./][^'"]*)['"]\s*\)\s*\.\s*(?:install|config|polyfill)\s*\(/g,
+  // require = require('esm')(module)
+  /require\s*\(\s*['"]([^./][^'"]*)['"]\s*\)\s*\(\s*module\s*\)/g,
+];
+
+/**
+ * Package name of an import specifier ("lodash/fp" -> "lodash", "@scope/pkg/sub" -> "@scope/pkg")
+ */
+export const packageNameOf = (specifier: string): string => {
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0] ?? specifier;
+};
+
 /**
  * Extract package names from import statements in file content
  */
@@ -38,6 +60,25 @@ export function extractPackageNames(content: string): string[] {
   return Array.from(packageSet);
 }
 
+/**
+ * Extract package names imported only for their side effects (global patching)
+ */
+export function extractGlobalImports(content: string): string[] {
+  const packageSet = new Set<string>();
+
+  for (const pattern of GLOBAL_IMPORT_PATTERNS) {
+    pattern.lastIndex = 0;
+    let match;
+    while ((match = pattern.exec(content)) !== null) {
+      if (match[1]) {
+        packageSet.add(packageNameOf(match[1]));
+      }
+    }
+  }
+
+  return Array.from(packageSet);
+}
+
 /**
  * Recursively find all source files in a directory
  */
@@ -150,7 +191,9 @@ export const analyzePackageUsageAsync = async (
   for (const filePath of sourceFiles) {
     try {
       const content = await fs.readFile(filePath, "utf-8");
-      const importedPackages = extractPackageNames(content);
+      // Subpath imports (lodash/fp, source-map-support/register) count for their package
+      const importedPackages = new Set(extractPackageNames(content).map(packageNameOf));
+      const globalImports = new Set(extractGlobalImports(content));
 
       // Match imported packages with known packages
       for (const importedPkg of importedPackages) {
@@ -161,6 +204,9 @@ export const analyzePackageUsageAsync = async (
             // Store relative path from package directory
             const relativePath = path.relative(packagePath, filePath);
             usage.filePaths.push(relativePath);
+            if (globalImports.has(importedPkg)) {
+              usage.globalImportPaths = [...(usage.globalImportPaths ?? []), relativePath];
+            }
           }
           usageByPackage.set(importedPkg, usage);
         }
@@ -175,6 +221,7 @@ export const analyzePackageUsageAsync = async (
   if (includeDetails) {
     for (const usage of usageByPackage.values()) {
       usage.filePaths.sort();
+      usage.globalImportPaths?.sort();
     }
   }
 
@@ -1,9 +1,39 @@
 import { test, expect } from "bun:test";
+import { promises as fs } from "node:fs";
 import path from "node:path";
-import { analyzeRepo } from "../../src/analyze.js";
+import { analyzeRepo, analyzeRepoOverall } from "../../src/analyze.js";
 
 test("analyzeRepo: missing package.json -> red", async () => {
   const repoPath = path.join(process.cwd(), "tests", "fixtures", "does-not-exist");
   const r = await analyzeRepo({ repoPath, format: "md", outFile: null, runInstall: false, runTest: false, verbose: false });
   expect(r.severity).toBe("red");
 });
+
+test("analyzeRepoOverall: platform targets are not applicable and left out of the verdict", async () => {
+  const repoPath = path.join(process.cwd(), "tmp-test-analyze-platform");
+  await fs.rm(repoPath, { recursive: true, force: true });
+  await fs.mkdir(repoPath, { recursive: true });
+  try {
+    await fs.writeFile(
+      path.join(repoPath, "package.json"),
+      JSON.stringify({
+        name: "desktop",
+        version: "1.0.0",
+        scripts: { postinstall: "electron-builder install-app-deps" },
+        devDependencies: { electron: "^28.0.0", "electron-builder": "^24.0.0" }
+      })
+    );
+
+    const r = await analyzeRepoOverall({ repoPath, format: "md", outFile: null, runInstall: false, runTest: false, verbose: false, detailed: false, bunVersion: "1.1.0" });
+    const [pkg] = r.packages!;
+
+    expect(pkg!.notApplicable?.platform).toBe("electron");
+    expect(pkg!.notApplicable?.evidence).toEqual(["dependency electron@^28.0.0", "dependency electron-builder@^24.0.0"]);
+    expect(pkg!.severity).not.toBe("green");
+    expect(pkg!.findings.some((f) => f.id === "runtime.platform_target")).toBe(true);
+    expect(r.severity).toBe("green");
+    expect(r.summaryLines).toContain("Root package severity: not applicable (Electron)");
+  } finally {
+    await fs.rm(repoPath, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,138 @@
+import { test, expect, beforeEach, afterEach } from "bun:test";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { analyzeNodeApiUsage, classifyNpmEnvVar, scanNpmEnvReads } from "../../src/analyze_api.js";
+import { parseImports } from "../../src/import_parser.js";
+import { getNodeExport } from "../../src/node_builtins.js";
+
+const testDir = path.join(process.cwd(), "tmp-test-analyze-api");
+
+beforeEach(async () => {
+  await fs.mkdir(path.join(testDir, "scripts"), { recursive: true });
+});
+
+afterEach(async () => {
+  await fs.rm(testDir, { recursive: true, force: true });
+});
+
+test("classifyNpmEnvVar: same, different and missing", () => {
+  expect(classifyNpmEnvVar("npm_package_version").support).toBe("same");
+  expect(classifyNpmEnvVar("npm_config_user_agent").support).toBe("different");
+  expect(classifyNpmEnvVar("npm_package_config_port").support).toBe("missing");
+  expect(classifyNpmEnvVar("npm_config_registry").support).toBe("missing");
+  expect(classifyNpmEnvVar("npm_command")).toEqual({ support: "missing", note: "not set; check npm_lifecycle_event instead" });
+});
+
+test("scanNpmEnvReads: member, bracket, destructuring and Bun.env reads", () => {
+  const content = [
+    "const v = process.env.npm_package_version;",
+    "const ua = process.env['npm_config_user_agent'];",
+    "const { npm_lifecycle_event: event, NODE_ENV } = process.env;",
+    "const port = Bun.env.npm_package_config_port;",
+    "const home = process.env.HOME;"
+  ].join("\n");
+
+  expect(scanNpmEnvReads(content, "build.ts").map((r) => [r.name, r.source, r.line])).toEqual([
+    ["npm_package_version", "process.env", 1],
+    ["npm_config_user_agent", "process.env", 2],
+    ["npm_lifecycle_event", "process.env", 3],
+    ["npm_package_config_port", "Bun.env", 4]
+  ]);
+});
+
+test("analyzeNodeApiUsage: api.npm_env finding with file and line", async () => {
+  await fs.writeFile(
+    path.join(testDir, "scripts", "build.mjs"),
+    "import fs from 'node:fs';\nif (process.env.npm_config_user_agent?.startsWith('yarn')) {}\nconsole.log(process.env.npm_package_version);\n"
+  );
+
+  const result = await analyzeNodeApiUsage({ rootPath: testDir });
+  const finding = result.findings.find((f) => f.id === "api.npm_env");
+
+  expect(result.summary.npmEnvVars).toEqual(["npm_config_user_agent", "npm_package_version"]);
+  expect(finding?.severity).toBe("yellow");
+  expect(finding?.details).toContain("  - scripts/build.mjs:2 (process.env)");
+  expect(finding?.details[0]).toStartWith("npm_config_user_agent (different, 1 reads)");
+});
+
+test("parseImports: members from named imports, destructuring and property access", () => {
+  const content = [
+    "import { watch as w, readFileSync } from 'node:fs';",
+    "import * as vm from 'vm';",
+    "const { fork } = require('child_process');",
+    "const http = require('http');",
+    "new vm.Script('1');",
+    "const agent = new http.Agent({ keepAlive: true });",
+    "other.http.get();"
+  ].join("\n");
+
+  const members = parseImports(content).map((imp) => [imp.modulePath, imp.members?.map((m) => `${m.name}:${m.line}`)]);
+  expect(members).toEqual([
+    ["node:fs", ["watch:1", "readFileSync:1"]],
+    ["vm", ["Script:5"]],
+    ["child_process", ["fork:3"]],
+    ["http", ["Agent:6"]]
+  ]);
+});
+
+test("getNodeExport: per-export entries with and without node: prefix", () => {
+  expect(getNodeExport("child_process", "fork")?.category).toBe("yellow");
+  expect(getNodeExport("node:vm", "SourceTextModule")?.category).toBe("red");
+  expect(getNodeExport("fs", "readFileSync")).toBeUndefined();
+});
+
+test("analyzeNodeApiUsage: member-level entries name the API and raise the module zone", async () => {
+  await fs.writeFile(
+    path.join(testDir, "scripts", "watch.js"),
+    "const fs = require('fs');\nconst { fork } = require('node:child_process');\nfs.readFileSync('a');\nfs.watch('src', { recursive: true });\n"
+  );
+
+  const result = await analyzeNodeApiUsage({ rootPath: testDir });
+  const finding = result.findings.find((f) => f.id === "api.node_builtins");
+
+  expect(result.summary.memberApis).toEqual(["child_process.fork", "fs.watch"]);
+  expect(result.summary.yellowZone).toEqual(["fs", "node:child_process"]);
+  expect(result.summary.greenZone).toEqual([]);
+  expect(finding?.severity).toBe("yellow");
+  expect(finding?.details.some((d) => d.startsWith("    - fs.watch [yellow]:") && d.endsWith("(scripts/watch.js:4)"))).toBe(true);
+});
+
+test("analyzeNodeApiUsage: modules with fixedIn are red on older Bun versions", async () => {
+  await fs.writeFile(path.join(testDir, "scripts", "server.js"), "const cluster = require('node:cluster');\ncluster.fork();\n");
+
+  const old = await analyzeNodeApiUsage({ rootPath: testDir, bunVersion: { version: "1.1.8", source: "installed" } });
+  expect(old.summary.redZone).toEqual(["node:cluster"]);
+  expect(old.findings[0]?.details).toContain("  - node:cluster (1 files) - yellow on Bun >=1.1.25, red on your 1.1.8");
+
+  const current = await analyzeNodeApiUsage({ rootPath: testDir, bunVersion: { version: "1.1.30", source: "option" } });
+  expect(current.summary.yellowZone).toEqual(["node:cluster"]);
+});
+
+test("analyzeNodeApiUsage: probed exports missing under Bun are red", async () => {
+  await fs.writeFile(
+    path.join(testDir, "scripts", "net.js"),
+    "import { _createServerHandle, createServer } from 'node:net';\nimport { Domain } from 'node:domain';\n"
+  );
+  const probe = {
+    bunVersion: "1.4.3",
+    nodeVersion: "20.19.5",
+    modules: [
+      { module: "net", missingModule: false, missing: ["_createServerHandle"], differs: [] },
+      { module: "domain", missingModule: false, missing: [], differs: [{ name: "Domain", bun: "undefined", node: "function" }] }
+    ]
+  };
+
+  const result = await analyzeNodeApiUsage({ rootPath: testDir, probe });
+  const finding = result.findings.find((f) => f.id === "api.node_builtins");
+
+  expect(result.summary.redZone).toEqual(["node:net"]);
+  expect(result.summary.yellowZone).toEqual(["node:domain"]);
+  expect(result.summary.probedMissing).toEqual(["net._createServerHandle"]);
+  expect(finding?.details).toContain(
+    "    - net._createServerHandle [red]: not exported by node:net under Bun 1.4.3 (probed against Node 20.19.5) (scripts/net.js:1)"
+  );
+
+  const unprobed = await analyzeNodeApiUsage({ rootPath: testDir });
+  expect(unprobed.summary.redZone).toEqual([]);
+  expect(unprobed.summary.probedMissing).toBeUndefined();
+});
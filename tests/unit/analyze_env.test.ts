@@ -0,0 +1,122 @@
+import { test, expect, beforeEach, afterEach } from "bun:test";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { analyzeEnvLoading, bunEnvChain, parseEnvKeys, scanDotenvCalls } from "../../src/analyze_env.js";
+
+const testDir = path.join(process.cwd(), "tmp-test-analyze-env");
+
+beforeEach(async () => {
+  await fs.mkdir(path.join(testDir, "src"), { recursive: true });
+  await fs.mkdir(path.join(testDir, "config"), { recursive: true });
+});
+
+afterEach(async () => {
+  await fs.rm(testDir, { recursive: true, force: true });
+});
+
+test("parseEnvKeys: keys with hashed values, quotes and comments", () => {
+  const keys = parseEnvKeys(["# comment", "export A=1", "B='1'", "C=1 # trailing", "D=2", ""].join("\n"));
+
+  expect(Array.from(keys.keys())).toEqual(["A", "B", "C", "D"]);
+  expect(keys.get("A")).toBe(keys.get("B"));
+  expect(keys.get("A")).toBe(keys.get("C"));
+  expect(keys.get("A")).not.toBe(keys.get("D"));
+  expect(keys.get("A")).toHaveLength(64);
+});
+
+test("scanDotenvCalls: imports, chained requires, options and preloads", () => {
+  const content = [
+    "import 'dotenv/config';",
+    "import dotenv from 'dotenv';",
+    "import { expand } from 'dotenv-expand';",
+    "const flow = require('dotenv-flow');",
+    "expand(dotenv.config({ path: path.resolve(__dirname, '../config/.env'), override: true }));",
+    "flow.config({ node_env: 'staging' });",
+    "require('dotenv').config({ path: process.env.ENV_FILE });"
+  ].join("\n");
+
+  expect(scanDotenvCalls(content, "src/index.ts").map((s) => [s.line, s.call, s.paths, s.override, s.nodeEnv])).toEqual([
+    [1, "dotenv/config", [], false, undefined],
+    [5, "dotenv-expand.expand", [], false, undefined],
+    [5, "dotenv.config", ["config/.env"], true, undefined],
+    [6, "dotenv-flow.config", [], false, "staging"],
+    [7, "dotenv.config", null, false, undefined]
+  ]);
+});
+
+test("analyzeEnvLoading: keys Bun resolves from other files are reported without values", async () => {
+  await fs.writeFile(path.join(testDir, ".env"), "PORT=3000\nDB_URL=postgres://root-secret\n");
+  await fs.writeFile(path.join(testDir, ".env.local"), "DB_URL=postgres://local-secret\nDEBUG=1\n");
+  await fs.writeFile(path.join(testDir, ".env.example"), "PORT=\nDB_URL=\n");
+  await fs.writeFile(path.join(testDir, "config", ".env"), "PORT=3000\nDB_URL=postgres://config-secret\n");
+  await fs.writeFile(path.join(testDir, "src", "index.ts"), "import dotenv from 'dotenv';\ndotenv.config({ path: 'config/.env' });\n");
+
+  const result = await analyzeEnvLoading({ rootPath: testDir });
+  const finding = result.findings[0];
+
+  expect(result.summary.envFiles.map((f) => [f.file, f.keys, f.loadedByBun])).toEqual([
+    [".env", 2, true],
+    [".env.example", 2, false],
+    [".env.local", 2, true],
+    ["config/.env", 2, false]
+  ]);
+  expect(result.summary.conflicts.map((c) => [c.key, c.bunSource, c.nodeSource])).toEqual([
+    ["DB_URL", ".env.local", "config/.env"],
+    ["DEBUG", ".env.local", null]
+  ]);
+  expect(finding?.id).toBe("env.dotenv_loading");
+  expect(finding?.severity).toBe("yellow");
+  expect(finding?.details).toContain("  - DB_URL (NODE_ENV=development): .env.local under Bun, config/.env under Node (src/index.ts:2)");
+  expect(finding?.details.join("\n")).not.toContain("secret");
+});
+
+test("bunEnvChain: Bun's load order per NODE_ENV", () => {
+  expect(bunEnvChain("production")).toEqual([".env.production.local", ".env.local", ".env.production", ".env"]);
+  expect(bunEnvChain("test")).toEqual([".env.test.local", ".env.test", ".env"]);
+  // Unknown NODE_ENV values load the development files
+  expect(bunEnvChain("staging")).toEqual([".env.development.local", ".env.local", ".env.development", ".env"]);
+});
+
+test("analyzeEnvLoading: NODE_ENV=staging does not load .env.staging under Bun", async () => {
+  await fs.writeFile(path.join(testDir, ".env"), "API_URL=https://prod\n");
+  await fs.writeFile(path.join(testDir, ".env.staging"), "API_URL=https://staging\n");
+  await fs.writeFile(path.join(testDir, "src", "index.ts"), "require('dotenv').config({ path: '.env.staging' });\n");
+
+  const result = await analyzeEnvLoading({ rootPath: testDir });
+
+  expect(result.summary.envFiles.find((f) => f.file === ".env.staging")?.loadedByBun).toBe(false);
+  // Bun sets API_URL from .env first, and dotenv does not overwrite it
+  expect(result.summary.conflicts.map((c) => [c.key, c.nodeEnv, c.bunSource, c.nodeSource])).toEqual([["API_URL", "staging", ".env", ".env.staging"]]);
+});
+
+test("analyzeEnvLoading: NODE_ENV=test skips .env.local and reads .env.test.local", async () => {
+  await fs.writeFile(path.join(testDir, ".env"), "DB=root\nPORT=3000\n");
+  await fs.writeFile(path.join(testDir, ".env.local"), "DB=local\n");
+  await fs.writeFile(path.join(testDir, ".env.test.local"), "PORT=4000\n");
+  await fs.writeFile(path.join(testDir, "src", "index.ts"), "require('dotenv').config();\n");
+
+  const result = await analyzeEnvLoading({ rootPath: testDir });
+  const conflicts = result.summary.conflicts.map((c) => [c.key, c.nodeEnv, c.bunSource, c.nodeSource]);
+
+  expect(result.summary.envFiles.find((f) => f.file === ".env.test.local")?.loadedByBun).toBe(true);
+  expect(conflicts).toContainEqual(["PORT", "test", ".env.test.local", ".env"]);
+  expect(conflicts.some((c) => c[0] === "DB" && c[1] === "test")).toBe(false);
+});
+
+test("analyzeEnvLoading: override keeps the values dotenv loads", async () => {
+  await fs.writeFile(path.join(testDir, ".env"), "PORT=3000\n");
+  await fs.writeFile(path.join(testDir, ".env.production"), "PORT=80\n");
+  await fs.writeFile(path.join(testDir, "src", "index.ts"), "require('dotenv').config({ override: true });\n");
+
+  const result = await analyzeEnvLoading({ rootPath: testDir });
+
+  expect(result.summary.conflicts).toEqual([]);
+  expect(result.findings[0]?.severity).toBe("green");
+});
+
+test("analyzeEnvLoading: no .env files and no dotenv -> no findings", async () => {
+  await fs.writeFile(path.join(testDir, "src", "index.ts"), "console.log(process.env.PORT);\n");
+
+  const result = await analyzeEnvLoading({ rootPath: testDir });
+  expect(result.findings).toEqual([]);
+});
@@ -0,0 +1,103 @@
+import { test, expect, beforeEach, afterEach } from "bun:test";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { analyzeRuntimeHooks, scanRuntimeHooks } from "../../src/analyze_hooks.js";
+
+const testDir = path.join(process.cwd(), "tmp-test-analyze-hooks");
+
+const SAMPLE = [
+  "const natives = process.binding('natives');",
+  "const addon = require('./build/Release/addon.node');",
+  "process.dlopen(module, file);",
+  "const orig = module.constructor._load;",
+  "require.extensions['.txt'] = (m, f) => {};",
+  "import binding from '../prebuilds/linux-x64/sharp.node';",
+  "const fs = require('node:fs');"
+].join("\n");
+
+beforeEach(async () => {
+  await fs.mkdir(path.join(testDir, "lib"), { recursive: true });
+});
+
+afterEach(async () => {
+  await fs.rm(testDir, { recursive: true, force: true });
+});
+
+test("scanRuntimeHooks: every hook kind with line and target", () => {
+  expect(scanRuntimeHooks(SAMPLE, "index.js").map((u) => [u.line, u.hook, u.target])).toEqual([
+    [1, "process.binding", "natives"],
+    [2, "native .node require", "./build/Release/addon.node"],
+    [3, "process.dlopen", undefined],
+    [4, "Module._load", undefined],
+    [5, "require.extensions", undefined],
+    [6, "native .node require", "../prebuilds/linux-x64/sharp.node"]
+  ]);
+});
+
+test("analyzeRuntimeHooks: red finding with file locations", async () => {
+  await fs.writeFile(path.join(testDir, "lib", "index.js"), SAMPLE);
+  await fs.writeFile(path.join(testDir, "lib", "clean.ts"), "export const x = process.version;\n");
+
+  const result = await analyzeRuntimeHooks({ rootPath: testDir });
+  const finding = result.findings[0];
+
+  expect(result.summary).toMatchObject({ totalFiles: 2, filesWithHooks: 1, byHook: { "native .node require": 2, "process.binding": 1 } });
+  expect(finding?.id).toBe("api.runtime_hooks");
+  expect(finding?.severity).toBe("red");
+  expect(finding?.details).toContain("  - lib/index.js:1 natives");
+  expect(finding?.details).toContain("  - lib/index.js:5");
+});
+
+test("scanRuntimeHooks: native addon loading is yellow, internals red", () => {
+  expect(scanRuntimeHooks(SAMPLE, "index.js").map((u) => [u.hook, u.severity])).toEqual([
+    ["process.binding", "red"],
+    ["native .node require", "yellow"],
+    ["process.dlopen", "yellow"],
+    ["Module._load", "red"],
+    ["require.extensions", "red"],
+    ["native .node require", "yellow"]
+  ]);
+});
+
+test("analyzeRuntimeHooks: only N-API addon loading -> yellow", async () => {
+  await fs.writeFile(path.join(testDir, "lib", "index.js"), "const addon = require('./build/Release/addon.node');\n");
+
+  const finding = (await analyzeRuntimeHooks({ rootPath: testDir })).findings[0];
+
+  expect(finding?.severity).toBe("yellow");
+  expect(finding?.details[0]).toStartWith("native .node require (1 sites) - only N-API addons load in Bun");
+});
+
+test("scanRuntimeHooks: require.extensions reads are yellow, assignments red", () => {
+  const content = [
+    "if (require.extensions['.ts']) useTs();",
+    "const hasCoffee = '.coffee' in require.extensions;",
+    "const exts = Object.keys(require.extensions);",
+    "require.extensions['.yaml'] = loadYaml;",
+    "delete require.extensions['.yaml'];",
+    "const all = require.extensions;"
+  ].join("\n");
+
+  expect(scanRuntimeHooks(content, "index.js").map((u) => [u.line, u.severity])).toEqual([
+    [1, "yellow"],
+    [2, "yellow"],
+    [3, "yellow"],
+    [4, "red"],
+    [5, "red"],
+    [6, "red"]
+  ]);
+});
+
+test("analyzeRuntimeHooks: only reads -> yellow", async () => {
+  await fs.writeFile(path.join(testDir, "lib", "index.js"), "if (require.extensions['.ts']) require('./impl.ts');\n");
+
+  const finding = (await analyzeRuntimeHooks({ rootPath: testDir })).findings[0];
+
+  expect(finding?.severity).toBe("yellow");
+  expect(finding?.details[0]).toStartWith("require.extensions reads (1 sites) - Bun exposes require.extensions");
+});
+
+test("analyzeRuntimeHooks: no hooks, no finding", async () => {
+  await fs.writeFile(path.join(testDir, "lib", "clean.ts"), "import { readFile } from 'node:fs/promises';\n");
+  expect((await analyzeRuntimeHooks({ rootPath: testDir })).findings).toEqual([]);
+});
@@ -0,0 +1,81 @@
+import { test, expect, beforeEach, afterEach } from "bun:test";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { analyzeModuleSystem } from "../../src/analyze_modules.js";
+import { parseCJSGlobals } from "../../src/import_parser.js";
+
+const testDir = path.join(process.cwd(), "tmp-test-analyze-modules");
+
+beforeEach(async () => {
+  await fs.mkdir(path.join(testDir, "src"), { recursive: true });
+});
+
+afterEach(async () => {
+  await fs.rm(testDir, { recursive: true, force: true });
+});
+
+test("parseCJSGlobals: Module internals", () => {
+  const content = [
+    "const Module = require('module');",
+    "const orig = Module._resolveFilename;",
+    "Module._extensions['.yaml'] = load;",
+    "delete module.constructor._cache[key];",
+    "Module.prototype.require = wrapped;"
+  ].join("\n");
+
+  expect(parseCJSGlobals(content).map((u) => [u.global, u.line])).toEqual([
+    ["Module._resolveFilename", 2],
+    ["Module._extensions", 3],
+    ["require.cache", 4],
+    ["Module.prototype.require", 5]
+  ]);
+});
+
+test("analyzeModuleSystem: patcher dependencies with source evidence are red", async () => {
+  await fs.writeFile(
+    path.join(testDir, "package.json"),
+    JSON.stringify({ dependencies: { "module-alias": "^2.2.3" }, devDependencies: { proxyquire: "^2.1.3" }, _moduleAliases: { "@app": "src" } }, null, 2)
+  );
+  await fs.writeFile(path.join(testDir, "src", "index.js"), "require('module-alias/register');\nconst Module = require('module');\nModule._extensions['.txt'] = () => {};\n");
+
+  const result = await analyzeModuleSystem({ rootPath: testDir });
+  const finding = result.findings.find((f) => f.id === "modules.module_patching");
+
+  expect(result.summary.modulePatchers).toEqual(["module-alias", "Module._extensions", "proxyquire"]);
+  expect(finding?.severity).toBe("red");
+  expect(finding?.details).toContain(
+    'module-alias@^2.2.3 (patches Module._resolveFilename) - use tsconfig "paths" (Bun resolves them at runtime) or package.json "imports" (#alias)'
+  );
+  expect(finding?.details).toContain("  - package.json:8 _moduleAliases");
+  expect(finding?.details).toContain("  - src/index.js:1 imports module-alias/register");
+  expect(finding?.details).toContain("  - src/index.js:3 Module._extensions");
+  expect(finding?.details).toContain("  - dependency only; no import found in source (check scripts and config for -r/--require)");
+
+  // Module internals are not reported as CJS globals
+  expect(result.cjsGlobals.some((g) => g.global === "Module._extensions")).toBe(false);
+});
+
+test("analyzeModuleSystem: path-alias libraries Bun makes unnecessary are yellow", async () => {
+  await fs.writeFile(
+    path.join(testDir, "package.json"),
+    JSON.stringify({ dependencies: { "module-alias": "^2.2.3" }, devDependencies: { "tsconfig-paths": "^4.2.0" }, _moduleAliases: { "@app": "src" } }, null, 2)
+  );
+  await fs.writeFile(path.join(testDir, "src", "index.js"), "require('tsconfig-paths/register');\n");
+
+  const result = await analyzeModuleSystem({ rootPath: testDir });
+  const finding = result.findings.find((f) => f.id === "modules.module_patching");
+
+  expect(result.summary.modulePatchers).toEqual(["module-alias", "tsconfig-paths"]);
+  expect(finding?.severity).toBe("yellow");
+  expect(finding?.details).toContain("  - package.json:8 _moduleAliases");
+  expect(finding?.details).toContain("  - src/index.js:1 imports tsconfig-paths/register");
+});
+
+test("analyzeModuleSystem: dependency without evidence is yellow", async () => {
+  await fs.writeFile(path.join(testDir, "package.json"), JSON.stringify({ devDependencies: { rewire: "^7.0.0" } }));
+  await fs.writeFile(path.join(testDir, "src", "index.ts"), "export const a = 1;\n");
+
+  const result = await analyzeModuleSystem({ rootPath: testDir });
+
+  expect(result.findings.find((f) => f.id === "modules.module_patching")?.severity).toBe("yellow");
+});
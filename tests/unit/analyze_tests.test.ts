@@ -0,0 +1,94 @@
+import { test, expect, beforeEach, afterEach } from "bun:test";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { analyzeJestApiUsage, isTestFile, scanJestApis } from "../../src/analyze_tests.js";
+
+const testDir = path.join(process.cwd(), "tmp-test-analyze-tests");
+
+const SAMPLE = [
+  "import { render } from './render';",
+  "import api from './api';",
+  "",
+  "jest.mock('./api', () => ({ get: jest.fn() }));",
+  "jest.mock('./logger');",
+  "const real = jest.requireActual('./render');",
+  "jest.useFakeTimers({ legacyFakeTimers: true });",
+  "",
+  "test('renders', () => {",
+  "  expect(render()).toMatchInlineSnapshot(`\"ok\"`);",
+  "  expect(jest.fn()).not.toHaveBeenCalled();",
+  "});"
+].join("\n");
+
+beforeEach(async () => {
+  await fs.mkdir(path.join(testDir, "src", "__tests__"), { recursive: true });
+});
+
+afterEach(async () => {
+  await fs.rm(testDir, { recursive: true, force: true });
+});
+
+test("isTestFile: naming conventions", () => {
+  expect(isTestFile("src/app.test.ts")).toBe(true);
+  expect(isTestFile("src/app.spec.jsx")).toBe(true);
+  expect(isTestFile("src/__tests__/app.ts")).toBe(true);
+  expect(isTestFile("src/app.ts")).toBe(false);
+});
+
+test("scanJestApis: classifies call sites with line numbers", () => {
+  const usages = scanJestApis(SAMPLE, "app.test.ts");
+  const byLine = (line: number) => usages.filter((u) => u.line === line).map((u) => [u.api, u.support]);
+
+  expect(byLine(4)).toEqual([["jest.mock", "partial"], ["jest.fn", "supported"]]);
+  expect(usages.find((u) => u.line === 4)?.hint).toContain('"./api" is imported at line 2');
+  expect(byLine(5)).toEqual([["jest.mock", "unsupported"]]);
+  expect(byLine(6)).toEqual([["jest.requireActual", "unsupported"]]);
+  expect(byLine(7)).toEqual([["jest.useFakeTimers", "unsupported"]]);
+  expect(byLine(10)).toEqual([["toMatchInlineSnapshot", "partial"]]);
+});
+
+test("scanJestApis: jest.mock factory without a prior import is supported", () => {
+  const usages = scanJestApis("jest.mock('./db', () => ({}));\nconst db = require('./db');\n", "db.test.js");
+  expect(usages[0]).toMatchObject({ api: "jest.mock", support: "supported" });
+});
+
+test("analyzeJestApiUsage: per-file counts, unsupported sites and config", async () => {
+  await fs.writeFile(path.join(testDir, "src", "app.test.ts"), SAMPLE);
+  await fs.writeFile(path.join(testDir, "src", "__tests__", "util.ts"), "test('x', () => { jest.spyOn(console, 'log'); });\n");
+  await fs.writeFile(path.join(testDir, "src", "app.ts"), "jest.requireActual('x');\n");
+  await fs.writeFile(path.join(testDir, "package.json"), JSON.stringify({ jest: { testEnvironment: "jsdom", moduleNameMapper: { "^@/(.*)$": "<rootDir>/src/$1" } } }));
+
+  const result = await analyzeJestApiUsage({ rootPath: testDir });
+
+  expect(result.summary.totalTestFiles).toBe(2);
+  expect(result.summary.perFile).toEqual([
+    { file: "src/__tests__/util.ts", supported: 1, partial: 0, unsupported: 0 },
+    { file: "src/app.test.ts", supported: 2, partial: 2, unsupported: 3 }
+  ]);
+
+  const apis = result.findings.find((f) => f.id === "tests.jest_apis");
+  expect(apis?.severity).toBe("red");
+  expect(apis?.details).toContain("  - src/app.test.ts:6 jest.requireActual - load the real module with `await import()` before calling mock.module()");
+
+  const config = result.findings.find((f) => f.id === "tests.jest_config");
+  expect(config?.severity).toBe("yellow");
+  expect(config?.details.some((d) => d.startsWith('package.json "jest": testEnvironment: jsdom (partial)'))).toBe(true);
+  expect(config?.details.some((d) => d.startsWith('package.json "jest": moduleNameMapper (partial)'))).toBe(true);
+});
+
+test("analyzeJestApiUsage: TS transforms are not needed, other transforms need a plugin", async () => {
+  await fs.writeFile(path.join(testDir, "src", "app.test.ts"), "test('x', () => {});\n");
+  await fs.writeFile(
+    path.join(testDir, "jest.config.js"),
+    "module.exports = { transform: { '^.+\\.tsx?$': ['ts-jest', { tsconfig: 'tsconfig.test.json' }] } };\n"
+  );
+  await fs.writeFile(path.join(testDir, "package.json"), JSON.stringify({ jest: { transform: { "^.+\\.svg$": "jest-svg-transformer", "^.+\\.ts$": "babel-jest" } } }));
+
+  const result = await analyzeJestApiUsage({ rootPath: testDir });
+  const transforms = (result.summary.configOptions ?? []).filter((o) => o.option === "transform");
+
+  expect(transforms).toEqual([
+    { source: 'package.json "jest"', option: "transform", support: "partial", hint: "jest-svg-transformer needs a Bun plugin in a [test] preload" },
+    { source: "jest.config.js", option: "transform", support: "supported", hint: "not needed: Bun transpiles TS/JSX itself; drop ts-jest" }
+  ]);
+});
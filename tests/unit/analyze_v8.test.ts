@@ -0,0 +1,66 @@
+import { test, expect, beforeEach, afterEach } from "bun:test";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { analyzeV8ApiUsage, scanV8Apis } from "../../src/analyze_v8.js";
+
+const testDir = path.join(process.cwd(), "tmp-test-analyze-v8");
+
+const SAMPLE = [
+  "import v8 from 'node:v8';",
+  "import { setFlagsFromString as setFlags } from 'v8';",
+  "Error.stackTraceLimit = 50;",
+  "Error.prepareStackTrace = (err, frames) => frames;",
+  "const buf = v8.serialize({ a: 1 });",
+  "v8.getHeapStatistics();",
+  "const caller = new Error().stack.split('\\n')[2];",
+  "if (global.gc) global.gc();",
+  "",
+  "  %OptimizeFunctionOnNextCall(fn);",
+  "const rest = total % Math.max(1, n);"
+].join("\n");
+
+beforeEach(async () => {
+  await fs.mkdir(path.join(testDir, "src"), { recursive: true });
+});
+
+afterEach(async () => {
+  await fs.rm(testDir, { recursive: true, force: true });
+});
+
+test("scanV8Apis: engine globals, node:v8 calls and natives syntax", () => {
+  expect(scanV8Apis(SAMPLE, "bench.js").map((u) => [u.line, u.api, u.severity])).toEqual([
+    [2, "v8.setFlagsFromString", "yellow"],
+    [3, "Error.stackTraceLimit", "green"],
+    [4, "Error.prepareStackTrace", "yellow"],
+    [5, "v8.serialize", "yellow"],
+    [6, "v8.getHeapStatistics", "yellow"],
+    [7, "stack string parsing", "yellow"],
+    [8, "global.gc", "yellow"],
+    [8, "global.gc", "yellow"],
+    [10, "V8 natives syntax (%Function)", "red"]
+  ]);
+});
+
+test("analyzeV8ApiUsage: severity follows the worst API", async () => {
+  await fs.writeFile(path.join(testDir, "src", "bench.js"), SAMPLE);
+  await fs.writeFile(path.join(testDir, "src", "errors.ts"), "Error.captureStackTrace(this, MyError);\n");
+
+  const result = await analyzeV8ApiUsage({ rootPath: testDir });
+  const finding = result.findings[0];
+
+  expect(result.summary).toEqual({ totalFiles: 2, filesWithV8Apis: 2, bySeverity: { green: 2, yellow: 7, red: 1 } });
+  expect(finding?.id).toBe("api.v8_specific");
+  expect(finding?.severity).toBe("red");
+  expect(finding?.details[0]).toStartWith("V8 natives syntax (%Function) [red] (1 sites)");
+  expect(finding?.details).toContain("  - src/errors.ts:1");
+});
+
+test("scanV8Apis: node:v8 functions Bun does not implement stay red", () => {
+  const usages = scanV8Apis("import { takeCoverage } from 'node:v8';\ntakeCoverage();\n", "cov.js");
+  expect(usages.map((u) => [u.api, u.severity])).toEqual([["v8.takeCoverage", "red"]]);
+});
+
+test("analyzeV8ApiUsage: green-only usage", async () => {
+  await fs.writeFile(path.join(testDir, "src", "errors.ts"), "Error.captureStackTrace(this, MyError);\n");
+  expect((await analyzeV8ApiUsage({ rootPath: testDir })).findings[0]?.severity).toBe("green");
+});
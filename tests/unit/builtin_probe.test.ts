@@ -0,0 +1,57 @@
+import { test, expect } from "bun:test";
+import { compareBuiltinExports, probeBuiltinExports, probeLookup } from "../../src/builtin_probe.js";
+
+test("compareBuiltinExports: missing modules, missing exports and type differences", () => {
+  const bun = {
+    fs: { readFileSync: "function", constants: "object" },
+    inspector: null,
+    net: { createServer: "function", Socket: "object" }
+  };
+  const node = {
+    fs: { readFileSync: "function", constants: "object" },
+    inspector: { open: "function" },
+    net: { createServer: "function", Socket: "function", _createServerHandle: "function" },
+    wasi: null
+  };
+
+  expect(compareBuiltinExports(bun, node)).toEqual([
+    { module: "inspector", missingModule: true, missing: ["open"], differs: [] },
+    {
+      module: "net",
+      missingModule: false,
+      missing: ["_createServerHandle"],
+      differs: [{ name: "Socket", bun: "object", node: "function" }]
+    }
+  ]);
+});
+
+test("compareBuiltinExports: without node only unloadable modules are reported", () => {
+  expect(compareBuiltinExports({ fs: { readFileSync: "function" }, trace_events: null }, null)).toEqual([
+    { module: "trace_events", missingModule: true, missing: [], differs: [] }
+  ]);
+});
+
+test("probeLookup: module and member verdicts", () => {
+  const probe = {
+    bunVersion: "1.4.3",
+    nodeVersion: "20.19.5",
+    modules: [
+      { module: "inspector", missingModule: true, missing: [], differs: [] },
+      { module: "net", missingModule: false, missing: ["_createServerHandle"], differs: [] }
+    ]
+  };
+
+  expect(probeLookup(probe, "node:inspector")?.kind).toBe("missing-module");
+  expect(probeLookup(probe, "net", "_createServerHandle")?.kind).toBe("missing");
+  expect(probeLookup(probe, "net", "createServer")).toBeNull();
+  expect(probeLookup(probe, "net")).toBeNull();
+  expect(probeLookup(probe, "fs", "readFileSync")).toBeNull();
+});
+
+test("probeBuiltinExports: lists builtins under the local bun", async () => {
+  const probe = await probeBuiltinExports(["fs", "path"]);
+
+  expect(probe).not.toBeNull();
+  expect(probe?.bunVersion).toBe(Bun.version);
+  expect(probe?.modules.find((m) => m.module === "fs")?.missing ?? []).not.toContain("readFileSync");
+});
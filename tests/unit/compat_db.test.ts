@@ -0,0 +1,110 @@
+import { test, expect, beforeEach, afterEach } from "bun:test";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { applyCompatOverlay, BUNDLED_COMPAT_DB, categoryForBun, loadCompatDb, renderCompatDb } from "../../src/compat_db.js";
+import { detectNativeAddonRiskV2, detectRuntimeApiRisks } from "../../src/heuristics.js";
+import { getNodeExport, getNodeModule } from "../../src/node_builtins.js";
+import type { RepoInfo } from "../../src/types.js";
+
+const testDir = path.join(process.cwd(), "tmp-test-compat-db");
+
+const baseRepo = (): RepoInfo => ({
+  packageJsonPath: "/repo/package.json",
+  lockfiles: { bunLock: false, bunLockb: false, npmLock: false, yarnLock: false, pnpmLock: false },
+  scripts: {},
+  dependencies: {},
+  devDependencies: {},
+  optionalDependencies: {},
+  hasWorkspaces: false
+});
+
+beforeEach(async () => {
+  await fs.mkdir(testDir, { recursive: true });
+});
+
+afterEach(async () => {
+  await fs.rm(testDir, { recursive: true, force: true });
+});
+
+test("bundled database: lists and node modules", () => {
+  expect(BUNDLED_COMPAT_DB.version).toBe(1);
+  expect(BUNDLED_COMPAT_DB.nativeSuspectsExtended).toContain("sharp");
+  expect(BUNDLED_COMPAT_DB.devTools).toContain("jest");
+  expect(getNodeModule("vm")?.category).toBe("red");
+  expect(getNodeExport("node:child_process", "fork")?.category).toBe("yellow");
+});
+
+test("applyCompatOverlay: add, remove and reclassify without touching the base", () => {
+  const { db, changes } = applyCompatOverlay(BUNDLED_COMPAT_DB, {
+    nativeSuspectsExtended: { add: ["my-addon"], remove: ["sharp"] },
+    nodeModules: [{ name: "vm", category: "yellow" }, { name: "node:sqlite", category: "yellow" }],
+    nodeExports: { "node:fs": [{ name: "watch", category: "green" }] }
+  });
+
+  expect(db.nativeSuspectsExtended).toContain("my-addon");
+  expect(db.nativeSuspectsExtended).not.toContain("sharp");
+  expect(BUNDLED_COMPAT_DB.nativeSuspectsExtended).toContain("sharp");
+  expect(getNodeModule("node:vm", db)?.category).toBe("yellow");
+  expect(getNodeModule("vm")?.category).toBe("red");
+  expect(getNodeExport("fs", "watch", db)?.category).toBe("green");
+  expect(changes.map((c) => `${c.action} ${c.section}:${c.entry}`)).toEqual([
+    "removed nativeSuspectsExtended:sharp",
+    "added nativeSuspectsExtended:my-addon",
+    "reclassified nodeModules:vm",
+    "reclassified nodeModules:node:vm",
+    "added nodeModules:node:sqlite",
+    "reclassified nodeExports:fs.watch"
+  ]);
+});
+
+test("loadCompatDb: overlay from config drives the detectors", async () => {
+  await fs.writeFile(
+    path.join(testDir, "compat.json"),
+    JSON.stringify({ nativeSuspectsExtended: { add: ["in-house-addon"] }, devTools: { remove: ["jest"] } })
+  );
+  const loaded = await loadCompatDb(testDir, { compatDb: "compat.json" });
+  expect(loaded.error).toBeUndefined();
+  expect(loaded.overlayFile).toBe("compat.json");
+
+  const repo = baseRepo();
+  repo.dependencies = { "in-house-addon": "^1.0.0" };
+  repo.devDependencies = { jest: "^29.0.0" };
+  expect(detectNativeAddonRiskV2(repo, undefined, null, loaded.db)[0]?.details.join("\n")).toContain("in-house-addon");
+  expect(detectNativeAddonRiskV2(repo)).toEqual([]);
+  expect(detectRuntimeApiRisks(repo, null, loaded.db).some((f) => f.id === "runtime.dev_tools")).toBe(false);
+  expect(detectRuntimeApiRisks(repo).some((f) => f.id === "runtime.dev_tools")).toBe(true);
+
+  expect(renderCompatDb(loaded)).toContain("in-house-addon*");
+});
+
+test("loadCompatDb: invalid or newer overlays fall back to the bundled database", async () => {
+  await fs.writeFile(path.join(testDir, "bad.json"), JSON.stringify({ nodeModules: [{ name: "vm", category: "purple" }] }));
+  await fs.writeFile(path.join(testDir, "newer.json"), JSON.stringify({ version: 99 }));
+
+  const bad = await loadCompatDb(testDir, { compatDb: "bad.json" });
+  expect(bad.db).toBe(BUNDLED_COMPAT_DB);
+  expect(bad.error).toContain("category must be green, yellow or red");
+
+  expect((await loadCompatDb(testDir, { compatDb: "newer.json" })).error).toContain("database version 99");
+  expect((await loadCompatDb(testDir, { compatDb: "missing.json" })).error).toBe("missing.json not found");
+  expect((await loadCompatDb(testDir, null)).overlayFile).toBeNull();
+});
+
+test("categoryForBun: fixedIn and brokenIn against the target version", () => {
+  const cluster = { category: "yellow" as const, fixedIn: "1.1.25" };
+  expect(categoryForBun(cluster, { version: "1.1.8", source: "installed" })).toEqual({
+    category: "red",
+    note: "yellow on Bun >=1.1.25, red on your 1.1.8"
+  });
+  expect(categoryForBun(cluster, { version: "1.1.30", source: "option" })).toEqual({ category: "yellow", note: null });
+  expect(categoryForBun(cluster, null)).toEqual({ category: "yellow", note: "yellow on Bun >=1.1.25, red before" });
+
+  const regression = { category: "green" as const, brokenIn: ">=1.1.20 <1.1.22" };
+  expect(categoryForBun(regression, { version: "1.1.21", source: "option" }).category).toBe("red");
+  expect(categoryForBun(regression, { version: "1.1.22", source: "option" }).category).toBe("green");
+});
+
+test("loadCompatDb: rejects invalid fixedIn / brokenIn", async () => {
+  await fs.writeFile(path.join(testDir, "versions.json"), JSON.stringify({ nodeExports: { fs: [{ name: "watch", category: "green", brokenIn: "not a range" }] } }));
+  expect((await loadCompatDb(testDir, { compatDb: "versions.json" })).error).toContain("fs.watch: brokenIn must be a semver range");
+});
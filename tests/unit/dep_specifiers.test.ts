@@ -0,0 +1,76 @@
+import { test, expect } from "bun:test";
+import { classifySpecifier, classifyDependencies } from "../../src/dep_specifiers.js";
+import { detectDependencySpecifiers } from "../../src/heuristics.js";
+import type { RepoInfo } from "../../src/types.js";
+
+const baseRepo = (): RepoInfo => ({
+  packageJsonPath: "/tmp/package.json",
+  lockfiles: { bunLock: false, bunLockb: false, npmLock: false, yarnLock: false, pnpmLock: false },
+  scripts: {},
+  dependencies: {},
+  devDependencies: {},
+  optionalDependencies: {},
+  hasWorkspaces: false
+});
+
+test("classifySpecifier: protocols", () => {
+  expect(classifySpecifier("^1.2.3").protocol).toBe("registry");
+  expect(classifySpecifier("latest").protocol).toBe("registry");
+  expect(classifySpecifier("workspace:*")).toEqual({ protocol: "workspace", support: "supported" });
+  expect(classifySpecifier("link:../shared").support).toBe("supported");
+  expect(classifySpecifier("file:./vendor/foo.tgz").protocol).toBe("file");
+  expect(classifySpecifier("https://example.com/foo-1.0.0.tgz").protocol).toBe("tarball");
+  expect(classifySpecifier("git+ssh://git@github.com/org/repo.git#v1").protocol).toBe("git");
+  expect(classifySpecifier("org/repo#main").protocol).toBe("git");
+  expect(classifySpecifier("npm:string-width@4.2.3").support).toBe("supported");
+  expect(classifySpecifier("npm:string-width@^4.2.3").support).toBe("different");
+  expect(classifySpecifier("catalog:").support).toBe("different");
+  expect(classifySpecifier("patch:left-pad@npm%3A1.3.0#./fix.patch").support).toBe("unsupported");
+  expect(classifySpecifier("portal:../lib").support).toBe("unsupported");
+});
+
+test("classifyDependencies: git deps are checked for prepare scripts", () => {
+  const repo = baseRepo();
+  repo.dependencies = { built: "github:org/built", plain: "github:org/plain", missing: "github:org/missing" };
+
+  const specs = classifyDependencies(repo, new Map([["built", "tsc -p ."], ["plain", null]]));
+
+  expect(specs.find((s) => s.name === "built")?.support).toBe("different");
+  expect(specs.find((s) => s.name === "built")?.hint).toContain('prepare script "tsc -p ."');
+  expect(specs.find((s) => s.name === "plain")?.support).toBe("supported");
+  expect(specs.find((s) => s.name === "missing")?.support).toBe("unknown");
+  expect(specs.find((s) => s.name === "missing")?.hint).toContain("cannot be ruled out");
+});
+
+test("detectDependencySpecifiers: git deps without node_modules are unknown, not a warning", () => {
+  const repo = baseRepo();
+  repo.dependencies = { lodash: "^4.17.21", lib: "github:org/lib#v1.2.0" };
+
+  const findings = detectDependencySpecifiers(repo, null);
+
+  expect(findings[0]?.severity).toBe("green");
+  expect(findings[0]?.title).toBe("Git dependencies not installed; prepare scripts not checked (1)");
+  expect(findings[0]?.details.slice(0, 2)).toEqual(["Specifiers: git 1, registry 1", "Unknown (not installed): lib@github:org/lib#v1.2.0"]);
+});
+
+test("detectDependencySpecifiers: red for unsupported protocols", () => {
+  const repo = baseRepo();
+  repo.dependencies = { lodash: "^4.17.21", shared: "portal:../shared" };
+  repo.devDependencies = { "string-width-cjs": "npm:string-width@^4.2.0" };
+
+  const findings = detectDependencySpecifiers(repo, null);
+
+  expect(findings.length).toBe(1);
+  expect(findings[0]?.id).toBe("deps.specifiers");
+  expect(findings[0]?.severity).toBe("red");
+  expect(findings[0]?.details[0]).toBe("Specifiers: npm-alias 1, portal 1, registry 1");
+  expect(findings[0]?.details).toContain("shared@portal:../shared (portal, dependencies) - not supported by Bun");
+  expect(findings[0]?.details).toContain("string-width-cjs@npm:string-width@^4.2.0 (npm-alias, devDependencies) - handled differently by Bun");
+});
+
+test("detectDependencySpecifiers: registry and workspace deps only -> no findings", () => {
+  const repo = baseRepo();
+  repo.dependencies = { lodash: "^4.17.21", core: "workspace:^" };
+
+  expect(detectDependencySpecifiers(repo, null)).toEqual([]);
+});
@@ -0,0 +1,124 @@
+import { test, expect, beforeEach, afterEach } from "bun:test";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { profileFrameworks } from "../../src/frameworks.js";
+import { detectFrameworks } from "../../src/heuristics.js";
+import type { TsconfigInfo } from "../../src/tsconfig.js";
+import type { RepoInfo } from "../../src/types.js";
+
+const testDir = path.join(process.cwd(), "tmp-test-frameworks");
+
+const repo: RepoInfo = {
+  packageJsonPath: path.join(testDir, "package.json"),
+  lockfiles: { bunLock: false, bunLockb: false, npmLock: true, yarnLock: false, pnpmLock: false },
+  scripts: {},
+  dependencies: {},
+  devDependencies: {},
+  optionalDependencies: {},
+  hasWorkspaces: false
+};
+
+const tsconfigWith = (options: Record<string, string>): TsconfigInfo => ({
+  file: "tsconfig.json",
+  chain: [],
+  unresolved: [],
+  references: [],
+  settings: Object.entries(options).map(([option, value]) => ({ option, value, file: "tsconfig.json", level: "honored", note: "", attention: false }))
+});
+
+const writeFile = async (rel: string, content: string): Promise<void> => {
+  await fs.mkdir(path.dirname(path.join(testDir, rel)), { recursive: true });
+  await fs.writeFile(path.join(testDir, rel), content);
+};
+
+beforeEach(async () => {
+  await fs.mkdir(testDir, { recursive: true });
+});
+
+afterEach(async () => {
+  await fs.rm(testDir, { recursive: true, force: true });
+});
+
+test("profileFrameworks: no framework, no profile", async () => {
+  expect(await profileFrameworks(testDir, { dependencies: { lodash: "^4.17.21" } }, null)).toEqual([]);
+  expect(detectFrameworks(repo, [])).toEqual([]);
+});
+
+test("profileFrameworks: NestJS without decorator metadata is blocked", async () => {
+  const [nest] = await profileFrameworks(
+    testDir,
+    { dependencies: { "@nestjs/core": "^10.0.0" }, scripts: { "start:dev": "nest start --watch" } },
+    tsconfigWith({ experimentalDecorators: "true" })
+  );
+
+  expect(nest!.framework).toBe("nestjs");
+  expect(nest!.severity).toBe("red");
+  expect(nest!.verdict).toBe("NestJS blocked on Bun (emitDecoratorMetadata)");
+  expect(nest!.checks.map((c) => [c.check, c.severity])).toEqual([
+    ["emitDecoratorMetadata", "red"],
+    ["reflect-metadata", "yellow"],
+    ["nest start", "yellow"]
+  ]);
+});
+
+test("profileFrameworks: NestJS with decorator metadata and reflect-metadata is green", async () => {
+  const [nest] = await profileFrameworks(
+    testDir,
+    { dependencies: { "@nestjs/core": "^10.0.0", "reflect-metadata": "^0.2.0" }, scripts: { start: "bun src/main.ts" } },
+    tsconfigWith({ experimentalDecorators: "true", emitDecoratorMetadata: "true" })
+  );
+  expect(nest!.severity).toBe("green");
+  expect(nest!.verdict).toBe("NestJS should run on Bun as is");
+});
+
+test("profileFrameworks: Fastify with async_hooks plugins", async () => {
+  await writeFile("src/context.ts", "import { createHook } from 'node:async_hooks';\n\nconst hook = createHook({ init() {} });\n");
+  const [fastify] = await profileFrameworks(
+    testDir,
+    { dependencies: { fastify: "^4.0.0", "@fastify/under-pressure": "^8.0.0", "cls-hooked": "^4.2.2" } },
+    null
+  );
+
+  expect(fastify!.severity).toBe("red");
+  const hook = fastify!.checks.find((c) => c.check === "async_hooks.createHook");
+  expect(hook?.sites).toEqual(["src/context.ts:3"]);
+  expect(fastify!.checks.find((c) => c.check === "@fastify/under-pressure")?.severity).toBe("yellow");
+  expect(fastify!.checks.find((c) => c.check === "async_hooks libraries")?.detail).toContain("cls-hooked");
+});
+
+test("profileFrameworks: Next.js dev script and config file", async () => {
+  await writeFile("next.config.mjs", "export default {};\n");
+  const [next] = await profileFrameworks(testDir, { dependencies: { next: "14.2.0" }, scripts: { dev: "next dev", build: "next build" } }, null);
+
+  expect(next!.framework).toBe("nextjs");
+  expect(next!.configFiles).toEqual(["next.config.mjs"]);
+  expect(next!.severity).toBe("yellow");
+  expect(next!.verdict).toBe("Next.js runs on Bun with changes (next dev)");
+});
+
+test("profileFrameworks: Remix installGlobals and Nuxt detected by config file", async () => {
+  await writeFile("server.ts", "import { installGlobals } from '@remix-run/node';\ninstallGlobals();\n");
+  await writeFile("nuxt.config.ts", "export default defineNuxtConfig({ nitro: { preset: 'vercel' } });\n");
+  const profiles = await profileFrameworks(testDir, { dependencies: { "@remix-run/node": "^2.0.0" } }, null);
+
+  expect(profiles.map((p) => p.framework)).toEqual(["remix", "nuxt"]);
+  expect(profiles[0]!.checks[0]!.sites).toEqual(["server.ts:2"]);
+  expect(profiles[1]!.version).toBe("");
+  expect(profiles[1]!.checks.find((c) => c.check === "nitro preset")?.severity).toBe("yellow");
+});
+
+test("detectFrameworks: worst verdict wins, details lead with the framework label", async () => {
+  await writeFile("next.config.js", "module.exports = {};\n");
+  const profiles = await profileFrameworks(
+    testDir,
+    { dependencies: { express: "^4.18.0", spdy: "^4.0.2", next: "14.2.0" }, scripts: { dev: "next dev" } },
+    null
+  );
+  const [finding] = detectFrameworks(repo, profiles);
+
+  expect(finding!.id).toBe("runtime.framework");
+  expect(finding!.severity).toBe("red");
+  expect(finding!.title).toBe("Framework profile (Express, Next.js) found blockers for Bun");
+  expect(finding!.details[0]).toBe("Express blocked on Bun (spdy) [^4.18.0]");
+  expect(finding!.details.some((d) => d.startsWith("Next.js runs on Bun with changes"))).toBe(true);
+});
@@ -1,5 +1,5 @@
 import { test, expect } from "bun:test";
-import { calculatePackageStats, calculateFindingsSummary, detectNativeAddonRisk, detectScriptRisks } from "../../src/heuristics.js";
+import { calculatePackageStats, calculateFindingsSummary, detectBunReplacements, detectNativeAddonRisk, detectRedundantPolyfills, detectScriptRisks } from "../../src/heuristics.js";
 import type { RepoInfo } from "../../src/types.js";
 import type { PackageJson } from "../../src/internal_types.js";
 
@@ -318,3 +318,69 @@ test("calculateFindingsSummary: only red findings", () => {
   expect(summary.red).toBe(2);
   expect(summary.total).toBe(2);
 });
+
+test("detectBunReplacements: catalog packages -> green with the Bun built-in", () => {
+  const r = baseRepo();
+  r.dependencies = { bcrypt: "^5.1.0", express: "^4.18.0" };
+  r.devDependencies = { dotenv: "^16.0.0" };
+  const f = detectBunReplacements(r);
+  expect(f.length).toBe(1);
+  expect(f[0]?.id).toBe("deps.bun_replacements");
+  expect(f[0]?.severity).toBe("green");
+  // dotenv is a polyfill too; detectRedundantPolyfills reports it
+  expect(f[0]?.details.map((d) => d.split(" (")[0])).toEqual(["Bun.password can replace bcrypt@^5.1.0"]);
+});
+
+test("detectBunReplacements: no catalog packages -> empty", () => {
+  const r = baseRepo();
+  r.dependencies = { express: "^4.18.0" };
+  expect(detectBunReplacements(r)).toEqual([]);
+});
+
+test("detectRedundantPolyfills: imports per polyfill and global-patching imports", () => {
+  const r = baseRepo();
+  r.dependencies = { "node-fetch": "^2.7.0", "isomorphic-fetch": "^3.0.0", "form-data": "^4.0.0", express: "^4.18.0" };
+  const usage = {
+    totalPackages: 4,
+    analyzedFiles: 3,
+    usageByPackage: new Map([
+      ["node-fetch", { packageName: "node-fetch", fileCount: 2, filePaths: ["src/a.ts", "src/b.ts"] }],
+      ["isomorphic-fetch", { packageName: "isomorphic-fetch", fileCount: 1, filePaths: ["src/a.ts"], globalImportPaths: ["src/a.ts"] }],
+      ["form-data", { packageName: "form-data", fileCount: 0, filePaths: [] }]
+    ])
+  };
+
+  const f = detectRedundantPolyfills(r, usage);
+  expect(f.map((x) => [x.id, x.severity])).toEqual([
+    ["deps.redundant_polyfills", "green"],
+    ["deps.global_polyfills", "yellow"]
+  ]);
+  expect(f[0]?.title).toContain("dropping them changes 2 source files");
+  expect(f[0]?.details[0]).toStartWith("form-data@^4.0.0 -> global FormData (not imported; only package.json changes)");
+  expect(f[0]?.details[2]).toStartWith("node-fetch@^2.7.0 -> global fetch (imported in 2 files: src/a.ts, src/b.ts)");
+  expect(f[1]?.details).toEqual(["isomorphic-fetch replaces globalThis.fetch: src/a.ts"]);
+});
+
+test("detectRedundantPolyfills: esm loaded through require hooks or -r is yellow", () => {
+  const r = baseRepo();
+  r.dependencies = { esm: "^3.2.25" };
+  r.scripts = { start: "node -r esm src/index.js" };
+  const usage = {
+    totalPackages: 1,
+    analyzedFiles: 1,
+    usageByPackage: new Map([["esm", { packageName: "esm", fileCount: 1, filePaths: ["bin/cli.js"], globalImportPaths: ["bin/cli.js"] }]])
+  };
+
+  const f = detectRedundantPolyfills(r, usage);
+  expect(f.map((x) => [x.id, x.severity])).toEqual([
+    ["deps.redundant_polyfills", "green"],
+    ["deps.global_polyfills", "yellow"]
+  ]);
+  expect(f[1]?.details).toEqual(["esm replaces Module internals (require hooks): bin/cli.js, scripts.start"]);
+});
+
+test("detectRedundantPolyfills: no polyfills -> empty", () => {
+  const r = baseRepo();
+  r.dependencies = { express: "^4.18.0" };
+  expect(detectRedundantPolyfills(r, null)).toEqual([]);
+});
@@ -0,0 +1,195 @@
+import { test, expect } from "bun:test";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { findLockfile, parsePackageLock, parseYarnLock, parsePnpmLock, resolveDirectDependents } from "../../src/lockfile.js";
+import { detectTransitiveInstallScripts } from "../../src/heuristics.js";
+import type { RepoInfo } from "../../src/types.js";
+
+const baseRepo = (): RepoInfo => ({
+  packageJsonPath: "/repo/package.json",
+  lockfiles: { bunLock: false, bunLockb: false, npmLock: true, yarnLock: false, pnpmLock: false },
+  scripts: {},
+  dependencies: {},
+  devDependencies: {},
+  optionalDependencies: {},
+  hasWorkspaces: false
+});
+
+const npmLockV3 = JSON.stringify({
+  name: "app",
+  lockfileVersion: 3,
+  packages: {
+    "": { name: "app", dependencies: { "auth-kit": "^1.0.0" } },
+    "node_modules/auth-kit": { version: "1.2.0", dependencies: { bcrypt: "^5.0.0" } },
+    "node_modules/bcrypt": { version: "5.1.1", hasInstallScript: true, dependencies: { "node-addon-api": "^5.0.0" } },
+    "node_modules/node-addon-api": { version: "5.1.0" },
+    "node_modules/@scope/lib": { version: "0.1.0" }
+  }
+});
+
+test("parsePackageLock: reads v3 packages with install scripts", () => {
+  const pkgs = parsePackageLock(npmLockV3);
+  const bcrypt = pkgs.find((p) => p.name === "bcrypt");
+  expect(bcrypt?.version).toBe("5.1.1");
+  expect(bcrypt?.hasInstallScript).toBe(true);
+  expect(bcrypt?.nativeMarkers).toContain("depends on node-addon-api");
+  expect(pkgs.some((p) => p.name === "@scope/lib")).toBe(true);
+});
+
+test("parsePackageLock: reads v1 nested dependencies", () => {
+  const content = JSON.stringify({
+    lockfileVersion: 1,
+    dependencies: {
+      sqlite3: { version: "5.0.0", requires: { "node-gyp": "^8.0.0" }, dependencies: { "node-gyp": { version: "8.4.1" } } }
+    }
+  });
+  const pkgs = parsePackageLock(content);
+  expect(pkgs.map((p) => p.name).sort()).toEqual(["node-gyp", "sqlite3"]);
+  expect(pkgs.find((p) => p.name === "sqlite3")?.nativeMarkers).toContain("depends on node-gyp");
+});
+
+test("parseYarnLock: reads classic v1 entries", () => {
+  const content = [
+    "# yarn lockfile v1",
+    "",
+    "\"@scope/native@^2.0.0\", \"@scope/native@^2.1.0\":",
+    "  version \"2.1.3\"",
+    "  dependencies:",
+    "    node-gyp-build \"^4.0.0\"",
+    "",
+    "node-gyp-build@^4.0.0:",
+    "  version \"4.8.0\"",
+    ""
+  ].join("\n");
+  const pkgs = parseYarnLock(content);
+  const native = pkgs.find((p) => p.name === "@scope/native");
+  expect(native?.version).toBe("2.1.3");
+  expect(native?.dependencies).toEqual(["node-gyp-build"]);
+  expect(native?.nativeMarkers).toContain("depends on node-gyp-build");
+});
+
+test("parseYarnLock: reads berry entries", () => {
+  const content = [
+    "__metadata:",
+    "  version: 6",
+    "",
+    "\"sharp@npm:^0.33.0\":",
+    "  version: 0.33.2",
+    "  resolution: \"sharp@npm:0.33.2\"",
+    "  dependencies:",
+    "    detect-libc: \"npm:^2.0.2\"",
+    "    \"@img/sharp-linux-x64\": \"npm:0.33.2\"",
+    "  languageName: node",
+    "  linkType: hard",
+    ""
+  ].join("\n");
+  const pkgs = parseYarnLock(content);
+  expect(pkgs.length).toBe(1);
+  expect(pkgs[0]?.name).toBe("sharp");
+  expect(pkgs[0]?.dependencies).toEqual(["detect-libc", "@img/sharp-linux-x64"]);
+});
+
+test("parsePnpmLock: reads requiresBuild from v6 lockfile", () => {
+  const content = [
+    "lockfileVersion: '6.0'",
+    "",
+    "packages:",
+    "",
+    "  /esbuild@0.19.0:",
+    "    resolution: {integrity: sha512-abc}",
+    "    requiresBuild: true",
+    "    optionalDependencies:",
+    "      '@esbuild/linux-x64': 0.19.0",
+    "    dev: true",
+    ""
+  ].join("\n");
+  const pkgs = parsePnpmLock(content);
+  const esbuild = pkgs.find((p) => p.name === "esbuild");
+  expect(esbuild?.version).toBe("0.19.0");
+  expect(esbuild?.hasInstallScript).toBe(true);
+  expect(esbuild?.dependencies).toEqual(["@esbuild/linux-x64"]);
+});
+
+test("parsePnpmLock: merges v9 snapshots into packages", () => {
+  const content = [
+    "lockfileVersion: '9.0'",
+    "",
+    "packages:",
+    "",
+    "  better-sqlite3@9.4.0:",
+    "    resolution: {integrity: sha512-abc}",
+    "",
+    "snapshots:",
+    "",
+    "  better-sqlite3@9.4.0:",
+    "    dependencies:",
+    "      bindings: 1.5.0",
+    "      prebuild-install: 7.1.1",
+    ""
+  ].join("\n");
+  const pkgs = parsePnpmLock(content);
+  expect(pkgs.length).toBe(1);
+  expect(pkgs[0]?.nativeMarkers).toEqual(["depends on bindings", "depends on prebuild-install"]);
+});
+
+test("resolveDirectDependents: attributes transitive packages to direct deps", () => {
+  const lock = { kind: "package-lock.json" as const, packages: parsePackageLock(npmLockV3) };
+  const dependents = resolveDirectDependents(lock, ["auth-kit"]);
+  expect(dependents.get("bcrypt")).toEqual(["auth-kit"]);
+  expect(dependents.get("node-addon-api")).toEqual(["auth-kit"]);
+});
+
+test("detectTransitiveInstallScripts: names the direct dependency", () => {
+  const r = baseRepo();
+  r.dependencies = { "auth-kit": "^1.0.0" };
+  const lock = { kind: "package-lock.json" as const, packages: parsePackageLock(npmLockV3) };
+
+  const findings = detectTransitiveInstallScripts(r, lock);
+
+  expect(findings.length).toBe(1);
+  expect(findings[0]?.id).toBe("deps.transitive_install_scripts");
+  expect(findings[0]?.details).toContain("bcrypt@5.1.1 (install script, depends on node-addon-api) - via auth-kit");
+});
+
+test("detectTransitiveInstallScripts: skips trustedDependencies", () => {
+  const r = baseRepo();
+  r.dependencies = { "auth-kit": "^1.0.0" };
+  r.packageJson = { trustedDependencies: ["bcrypt"] };
+  const lock = { kind: "package-lock.json" as const, packages: parsePackageLock(npmLockV3) };
+
+  expect(detectTransitiveInstallScripts(r, lock)).toEqual([]);
+});
+
+test("detectTransitiveInstallScripts: workspace member of a root lockfile", () => {
+  const lock = { kind: "package-lock.json" as const, packages: parsePackageLock(npmLockV3) };
+
+  // Another member's dependencies in the root lockfile are not this package's concern
+  const other = baseRepo();
+  other.dependencies = { "@scope/lib": "^0.1.0" };
+  expect(detectTransitiveInstallScripts(other, lock)).toEqual([]);
+
+  // trustedDependencies from the root package.json apply to members
+  const member = baseRepo();
+  member.dependencies = { "auth-kit": "^1.0.0" };
+  expect(detectTransitiveInstallScripts(member, lock, ["bcrypt"])).toEqual([]);
+});
+
+test("detectTransitiveInstallScripts: no lockfile -> empty", () => {
+  expect(detectTransitiveInstallScripts(baseRepo(), null)).toEqual([]);
+});
+
+test("findLockfile: workspace package falls back to the root lockfile", async () => {
+  const root = path.join(process.cwd(), "tmp-test-lockfile-root");
+  const pkgDir = path.join(root, "packages", "api");
+  await fs.mkdir(pkgDir, { recursive: true });
+  try {
+    await fs.writeFile(path.join(root, "package-lock.json"), npmLockV3);
+
+    const lock = await findLockfile([pkgDir, root]);
+    expect(lock?.kind).toBe("package-lock.json");
+    expect(lock?.packages.some((p) => p.name === "bcrypt" && p.hasInstallScript)).toBe(true);
+    expect(await findLockfile([pkgDir])).toBeNull();
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,87 @@
+import { test, expect, beforeEach, afterEach } from "bun:test";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { scanInstalledNativeAddons } from "../../src/native_evidence.js";
+import { detectNativeAddonRiskV2 } from "../../src/heuristics.js";
+import type { RepoInfo } from "../../src/types.js";
+
+const testDir = path.join(process.cwd(), "tmp-test-native-evidence");
+
+const baseRepo = (): RepoInfo => ({
+  packageJsonPath: path.join(testDir, "package.json"),
+  lockfiles: { bunLock: false, bunLockb: false, npmLock: false, yarnLock: false, pnpmLock: false },
+  scripts: {},
+  dependencies: {},
+  devDependencies: {},
+  optionalDependencies: {},
+  hasWorkspaces: false
+});
+
+const writePkg = async (name: string, pkg: Record<string, unknown>, files: Record<string, string> = {}): Promise<void> => {
+  const dir = path.join(testDir, "node_modules", name);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, "package.json"), JSON.stringify({ name, ...pkg }));
+  for (const [rel, content] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(dir, rel)), { recursive: true });
+    await fs.writeFile(path.join(dir, rel), content);
+  }
+};
+
+beforeEach(async () => {
+  await fs.mkdir(testDir, { recursive: true });
+});
+
+afterEach(async () => {
+  await fs.rm(testDir, { recursive: true, force: true });
+});
+
+test("scanInstalledNativeAddons: no node_modules -> null", async () => {
+  const scan = await scanInstalledNativeAddons([testDir], ["bcrypt"]);
+  expect(scan).toBeNull();
+});
+
+test("scanInstalledNativeAddons: finds binding.gyp, *.node and delegated binaries", async () => {
+  await writePkg("bcrypt", {}, { "binding.gyp": "{}" });
+  await writePkg("better-sqlite3", {}, { "build/Release/better_sqlite3.node": "" });
+  await writePkg("sharp", { optionalDependencies: { "@img/sharp-linux-x64": "0.33.2" } });
+  await writePkg("@img/sharp-linux-x64", { os: ["linux"], cpu: ["x64"] }, { "lib/sharp-linux-x64.node": "" });
+  await writePkg("jsonwebtoken", {}, { "index.js": "" });
+
+  const scan = await scanInstalledNativeAddons([testDir], ["bcrypt", "better-sqlite3", "sharp", "jsonwebtoken"]);
+
+  expect(scan?.installed.size).toBe(4);
+  expect(scan?.evidence.get("bcrypt")).toEqual({ packageName: "bcrypt", confidence: "high", evidence: "node_modules/bcrypt/binding.gyp" });
+  expect(scan?.evidence.get("better-sqlite3")?.evidence).toBe("node_modules/better-sqlite3/build/Release/better_sqlite3.node");
+  expect(scan?.evidence.get("sharp")?.confidence).toBe("medium");
+  expect(scan?.evidence.get("sharp")?.evidence).toContain("via @img/sharp-linux-x64");
+  expect(scan?.evidence.has("jsonwebtoken")).toBe(false);
+});
+
+test("detectNativeAddonRiskV2: installed pure-JS suspects are ruled out", async () => {
+  await writePkg("bcrypt", {}, { "binding.gyp": "{}" });
+  await writePkg("jsonwebtoken", {}, { "index.js": "" });
+
+  const r = baseRepo();
+  r.dependencies = { bcrypt: "^5.1.0", jsonwebtoken: "^9.0.0" };
+  const scan = await scanInstalledNativeAddons([testDir], Object.keys(r.dependencies));
+
+  const findings = detectNativeAddonRiskV2(r, undefined, scan);
+
+  expect(findings.length).toBe(1);
+  expect(findings[0]?.details).toContain("bcrypt@^5.1.0");
+  expect(findings[0]?.details).toContain("  - confidence: high (evidence: node_modules/bcrypt/binding.gyp)");
+  expect(findings[0]?.details).not.toContain("jsonwebtoken@^9.0.0");
+  expect(findings[0]?.details.some((d) => d.startsWith("Ruled out") && d.includes("jsonwebtoken"))).toBe(true);
+});
+
+test("detectNativeAddonRiskV2: name guesses without node_modules are low confidence", () => {
+  const r = baseRepo();
+  r.dependencies = { sqlite3: "^5.0.0" };
+
+  const findings = detectNativeAddonRiskV2(r);
+
+  expect(findings[0]?.details).toEqual([
+    "sqlite3@^5.0.0",
+    "  - confidence: low (evidence: name match only, node_modules not installed)"
+  ]);
+});
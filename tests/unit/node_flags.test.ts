@@ -0,0 +1,65 @@
+import { test, expect } from "bun:test";
+import { extractNodeFlags, tokenizeScript } from "../../src/node_flags.js";
+import { detectNodeFlags } from "../../src/heuristics.js";
+import type { RepoInfo } from "../../src/types.js";
+
+const repoWith = (scripts: Record<string, string>): RepoInfo => ({
+  packageJsonPath: "/tmp/package.json",
+  lockfiles: { bunLock: false, bunLockb: false, npmLock: true, yarnLock: false, pnpmLock: false },
+  scripts,
+  dependencies: {},
+  devDependencies: {},
+  optionalDependencies: {},
+  hasWorkspaces: false
+});
+
+test("tokenizeScript: commands, quotes and escapes", () => {
+  expect(tokenizeScript(`tsc && NODE_OPTIONS="--max-old-space-size=4096 -r ./a.js" node dist/index.js || echo 'failed twice'`)).toEqual([
+    ["tsc"],
+    ["NODE_OPTIONS=--max-old-space-size=4096 -r ./a.js", "node", "dist/index.js"],
+    ["echo", "failed twice"]
+  ]);
+});
+
+test("extractNodeFlags: node flags stop at the entry point", () => {
+  const usages = extractNodeFlags("node --require ./register.js --loader ts-node/esm --max-old-space-size=4096 server.js --inspect");
+
+  expect(usages.map((u) => [u.flag, u.mapping])).toEqual([
+    ["--require ./register.js", "preload"],
+    ["--loader ts-node/esm", "not-needed"],
+    ["--max-old-space-size=4096", "unsupported"]
+  ]);
+  expect(usages[0]?.bun).toBe('bunfig.toml preload = ["./register.js"] (or bun --preload ./register.js)');
+});
+
+test("extractNodeFlags: NODE_OPTIONS and env assignments behind cross-env", () => {
+  const usages = extractNodeFlags("cross-env NODE_OPTIONS='--experimental-vm-modules --inspect' NODE_PATH=src NODE_ENV=test jest");
+
+  expect(usages.map((u) => [u.flag, u.source, u.mapping])).toEqual([
+    ["--experimental-vm-modules", "NODE_OPTIONS", "not-needed"],
+    ["--inspect", "NODE_OPTIONS", "bun-flag"],
+    ["NODE_PATH=src", "NODE_PATH", "unsupported"]
+  ]);
+  expect(extractNodeFlags("node --experimental-foo x.js")[0]?.note).toBe("experimental V8/Node flag with no Bun equivalent");
+});
+
+test("detectNodeFlags: per-script mapping and severity", () => {
+  const findings = detectNodeFlags(repoWith({
+    start: "node --env-file=.env --enable-source-maps dist/server.js",
+    build: "node --max-old-space-size=8192 build.js",
+    lint: "eslint ."
+  }));
+
+  expect(findings[0]?.id).toBe("scripts.node_flags");
+  expect(findings[0]?.severity).toBe("yellow");
+  expect(findings[0]?.details).toEqual([
+    "build: node --max-old-space-size=8192 build.js",
+    "  - --max-old-space-size=8192: unsupported - Bun runs on JavaScriptCore; the V8 heap limit has no equivalent",
+    "start: node --env-file=.env --enable-source-maps dist/server.js",
+    "  - --env-file=.env: Bun flag -> --env-file .env - same flag in Bun",
+    "  - --enable-source-maps: not needed - Bun always applies source maps"
+  ]);
+
+  expect(detectNodeFlags(repoWith({ start: "node --inspect index.js" }))[0]?.severity).toBe("green");
+  expect(detectNodeFlags(repoWith({ start: "node index.js" }))).toEqual([]);
+});
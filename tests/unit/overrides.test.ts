@@ -0,0 +1,99 @@
+import { test, expect } from "bun:test";
+import { collectOverrides } from "../../src/overrides.js";
+import { detectOverrides } from "../../src/heuristics.js";
+import type { RepoInfo } from "../../src/types.js";
+
+const repoWith = (packageJson: RepoInfo["packageJson"]): RepoInfo => ({
+  packageJsonPath: "/tmp/package.json",
+  lockfiles: { bunLock: false, bunLockb: false, npmLock: false, yarnLock: false, pnpmLock: false },
+  scripts: {},
+  dependencies: {},
+  devDependencies: {},
+  optionalDependencies: {},
+  hasWorkspaces: false,
+  packageJson
+});
+
+test("collectOverrides: top-level overrides and resolutions are honored", () => {
+  const entries = collectOverrides({
+    overrides: { lodash: "4.17.21" },
+    resolutions: { "@types/node": "20.11.0" },
+    patchedDependencies: { "left-pad@1.3.0": "patches/left-pad@1.3.0.patch" }
+  });
+
+  expect(entries.length).toBe(3);
+  expect(entries.every((e) => e.problem === null)).toBe(true);
+});
+
+test("collectOverrides: nested npm overrides are flattened", () => {
+  const entries = collectOverrides({
+    dependencies: { react: "^18.2.0" },
+    overrides: { foo: { ".": "1.0.0", bar: "2.0.0" }, "react-dom": "$react" }
+  });
+
+  expect(entries.map((e) => [e.key, e.suggestion])).toEqual([
+    ["foo > .", { field: "overrides", key: "foo", value: "1.0.0" }],
+    ["foo > bar", { field: "overrides", key: "bar", value: "2.0.0" }],
+    ["react-dom", { field: "overrides", key: "react-dom", value: "^18.2.0" }]
+  ]);
+  expect(entries[1]?.problem).toContain("nested override under foo");
+});
+
+test("collectOverrides: yarn globs and nested paths", () => {
+  const entries = collectOverrides({
+    resolutions: { "**/minimist": "1.2.8", "webpack/@babel/core": "7.24.0", "left-pad": "patch:left-pad@1.3.0#./fix.patch" }
+  });
+
+  expect(entries[0]?.problem).toBe("`**/` glob");
+  expect(entries[0]?.suggestion).toEqual({ field: "resolutions", key: "minimist", value: "1.2.8" });
+  expect(entries[1]?.problem).toBe("nested path under webpack");
+  expect(entries[1]?.suggestion?.key).toBe("@babel/core");
+  // patch: resolutions are reported by deps.patches
+  expect(entries.length).toBe(2);
+});
+
+test("collectOverrides: pnpm selectors are dropped and moved to overrides", () => {
+  const entries = collectOverrides({
+    pnpm: {
+      overrides: { "foo@<2": "2.0.0", "parent>child": "1.0.0", unwanted: "-" },
+      patchedDependencies: { "express@4.18.2": "patches/express@4.18.2.patch" }
+    }
+  });
+
+  expect(entries[0]?.problem).toContain('version range selector "<2"');
+  expect(entries[0]?.suggestion).toEqual({ field: "overrides", key: "foo", value: "2.0.0" });
+  expect(entries[1]?.problem).toContain('parent selector "parent"');
+  expect(entries[1]?.suggestion?.key).toBe("child");
+  expect(entries[2]?.suggestion).toBeNull();
+  // pnpm.patchedDependencies is reported by deps.patches
+  expect(entries.length).toBe(3);
+});
+
+test("collectOverrides: pnpm >= and > ranges are not parent separators", () => {
+  const entries = collectOverrides({
+    pnpm: { overrides: { "foo@>=1.0.0": "1.2.0", "parent@>=2>child@>1": "3.0.0" } }
+  });
+
+  expect(entries[0]?.problem).toBe('pnpm.overrides is not read by Bun; version range selector ">=1.0.0" is dropped');
+  expect(entries[0]?.suggestion).toEqual({ field: "overrides", key: "foo", value: "1.2.0" });
+  expect(entries[1]?.problem).toContain('parent selector "parent@>=2"');
+  expect(entries[1]?.problem).toContain('version range selector ">1"');
+  expect(entries[1]?.suggestion?.key).toBe("child");
+});
+
+test("detectOverrides: reports unsupported entries with suggestions", () => {
+  const findings = detectOverrides(repoWith({ resolutions: { "**/minimist": "1.2.8" } }));
+
+  expect(findings.length).toBe(1);
+  expect(findings[0]?.id).toBe("deps.overrides");
+  expect(findings[0]?.severity).toBe("yellow");
+  expect(findings[0]?.details).toEqual([
+    'resolutions: "**/minimist": "1.2.8" - `**/` glob',
+    '  - use "resolutions": { "minimist": "1.2.8" }'
+  ]);
+});
+
+test("detectOverrides: nothing to report", () => {
+  expect(detectOverrides(repoWith({ overrides: { lodash: "4.17.21" } }))).toEqual([]);
+  expect(detectOverrides(repoWith(undefined))).toEqual([]);
+});
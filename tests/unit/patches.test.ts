@@ -0,0 +1,146 @@
+import { test, expect, beforeEach, afterEach } from "bun:test";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { bunPatchEntry, collectPatches, parsePatchPackageFilename, parseUnifiedDiff, parseYarnPatchSpecifier } from "../../src/patches.js";
+import { detectPatches } from "../../src/heuristics.js";
+import type { LockfileData } from "../../src/lockfile.js";
+import type { RepoInfo } from "../../src/types.js";
+
+const testDir = path.join(process.cwd(), "tmp-test-patches");
+
+const PATCH = [
+  "diff --git a/node_modules/left-pad/index.js b/node_modules/left-pad/index.js",
+  "--- a/node_modules/left-pad/index.js",
+  "+++ b/node_modules/left-pad/index.js",
+  "@@ -1,3 +1,3 @@",
+  " module.exports = leftPad;",
+  "-var cache = [];",
+  "+var cache = [''];",
+  " function leftPad() {}"
+].join("\n");
+
+const baseRepo = (): RepoInfo => ({
+  packageJsonPath: path.join(testDir, "package.json"),
+  lockfiles: { bunLock: false, bunLockb: false, npmLock: true, yarnLock: false, pnpmLock: false },
+  scripts: {},
+  dependencies: {},
+  devDependencies: {},
+  optionalDependencies: {},
+  hasWorkspaces: false
+});
+
+const lockWith = (version: string): LockfileData => ({
+  kind: "package-lock.json",
+  packages: [{ name: "left-pad", version, dependencies: [], hasInstallScript: false, nativeMarkers: [] }]
+});
+
+const writeFile = async (rel: string, content: string): Promise<void> => {
+  await fs.mkdir(path.dirname(path.join(testDir, rel)), { recursive: true });
+  await fs.writeFile(path.join(testDir, rel), content);
+};
+
+beforeEach(async () => {
+  await fs.mkdir(testDir, { recursive: true });
+  await writeFile("patches/left-pad+1.3.0.patch", PATCH);
+});
+
+afterEach(async () => {
+  await fs.rm(testDir, { recursive: true, force: true });
+});
+
+test("parsePatchPackageFilename: plain, scoped and nested", () => {
+  expect(parsePatchPackageFilename("left-pad+1.3.0.patch")).toEqual({ name: "left-pad", version: "1.3.0" });
+  expect(parsePatchPackageFilename("@babel+core+7.24.0.patch")).toEqual({ name: "@babel/core", version: "7.24.0" });
+  expect(parsePatchPackageFilename("jest++@jest+core+29.7.0.dev.patch")).toEqual({ name: "@jest/core", version: "29.7.0" });
+  expect(parsePatchPackageFilename("express@4.18.2.patch")).toBeNull();
+});
+
+test("parseYarnPatchSpecifier: berry patch protocol", () => {
+  expect(parseYarnPatchSpecifier("patch:left-pad@npm%3A1.3.0#~/.yarn/patches/left-pad-npm-1.3.0-abc.patch::version=1.3.0&hash=abc")).toEqual({
+    name: "left-pad",
+    version: "1.3.0",
+    file: ".yarn/patches/left-pad-npm-1.3.0-abc.patch"
+  });
+});
+
+test("collectPatches: patch-package patch applies to the installed version", async () => {
+  await writeFile("node_modules/left-pad/package.json", JSON.stringify({ name: "left-pad", version: "1.3.0" }));
+  await writeFile("node_modules/left-pad/index.js", "module.exports = leftPad;\nvar cache = [];\nfunction leftPad() {}\n");
+
+  const patches = await collectPatches(testDir, {}, lockWith("1.3.0"), [testDir]);
+
+  expect(patches.length).toBe(1);
+  expect(patches[0]).toMatchObject({ name: "left-pad", version: "1.3.0", source: "patch-package", status: "applies", needsRewrite: true, lockfileVersions: ["1.3.0"] });
+});
+
+test("detectPatches: patch-package patch that applies gets an entry for a rewritten copy", async () => {
+  await writeFile("node_modules/left-pad/package.json", JSON.stringify({ name: "left-pad", version: "1.3.0" }));
+  await writeFile("node_modules/left-pad/index.js", "module.exports = leftPad;\nvar cache = [];\nfunction leftPad() {}\n");
+  const patches = await collectPatches(testDir, {}, lockWith("1.3.0"), [testDir]);
+
+  expect(bunPatchEntry(patches[0]!)).toEqual({
+    key: "left-pad@1.3.0",
+    path: "patches/left-pad@1.3.0.patch",
+    rewrite: "sed -e 's#\\([ab]\\)/node_modules/left-pad/#\\1/#g' patches/left-pad+1.3.0.patch > patches/left-pad@1.3.0.patch"
+  });
+
+  const findings = detectPatches(baseRepo(), patches);
+  expect(findings[0]?.severity).toBe("yellow");
+  expect(findings[0]?.details).toContain('Bun patchedDependencies: {"left-pad@1.3.0":"patches/left-pad@1.3.0.patch"}');
+  expect(findings[0]?.details.some((d) => d.includes("re-create it"))).toBe(false);
+});
+
+test("collectPatches: already applied and broken patches", async () => {
+  await writeFile("node_modules/left-pad/package.json", JSON.stringify({ name: "left-pad", version: "1.3.0" }));
+  await writeFile("node_modules/left-pad/index.js", "module.exports = leftPad;\nvar cache = [''];\nfunction leftPad() {}\n");
+  expect((await collectPatches(testDir, {}, null, [testDir]))[0]?.status).toBe("already-applied");
+
+  await writeFile("node_modules/left-pad/index.js", "module.exports = something_else;\n");
+  const broken = await collectPatches(testDir, {}, null, [testDir]);
+  expect(broken[0]?.status).toBe("does-not-apply");
+  expect(broken[0]?.failedFile).toBe("node_modules/left-pad/index.js");
+});
+
+test("detectPatches: version drift is red and entries use Bun's format", async () => {
+  await writeFile("patches/express@4.18.2.patch", "--- a/index.js\n+++ b/index.js\n");
+  const patches = await collectPatches(
+    testDir,
+    { pnpm: { patchedDependencies: { "express@4.18.2": "patches/express@4.18.2.patch" } } },
+    lockWith("1.3.1"),
+    [testDir]
+  );
+
+  const findings = detectPatches(baseRepo(), patches);
+
+  expect(findings[0]?.id).toBe("deps.patches");
+  expect(findings[0]?.severity).toBe("red");
+  expect(findings[0]?.details).toContain("left-pad@1.3.0 (patch-package: patches/left-pad+1.3.0.patch)");
+  expect(findings[0]?.details).toContain("  - lockfile resolves 1.3.1; patch was made for 1.3.0");
+  // The patch-package file was made for another version than the lockfile's, so it gets a bun patch step instead of an entry
+  expect(findings[0]?.details).toContain('Bun patchedDependencies: {"express@4.18.2":"patches/express@4.18.2.patch"}');
+  expect(findings[0]?.details).toContain(
+    "  - re-create it: `bun patch left-pad@1.3.0`, apply the change in node_modules/left-pad, then `bun patch --commit node_modules/left-pad`"
+  );
+});
+
+test("parseUnifiedDiff: removed lines starting with \"-- \" stay inside the hunk", () => {
+  const diffs = parseUnifiedDiff([
+    "--- a/schema.sql",
+    "+++ b/schema.sql",
+    "@@ -1,3 +1,2 @@",
+    " CREATE TABLE t (id int);",
+    "--- legacy comment",
+    " CREATE INDEX i ON t (id);",
+    "--- a/other.sql",
+    "+++ b/other.sql",
+    "@@ -1 +1 @@",
+    "-old",
+    "+new"
+  ].join("\n"));
+
+  expect(diffs.map((d) => d.path)).toEqual(["schema.sql", "other.sql"]);
+  expect(diffs[0]?.hunks).toEqual([
+    { oldText: "CREATE TABLE t (id int);\n-- legacy comment\nCREATE INDEX i ON t (id);", newText: "CREATE TABLE t (id int);\nCREATE INDEX i ON t (id);" }
+  ]);
+  expect(diffs[1]?.hunks).toEqual([{ oldText: "old", newText: "new" }]);
+});
@@ -0,0 +1,59 @@
+import { test, expect, beforeEach, afterEach } from "bun:test";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { resolvePlatformTarget } from "../../src/platforms.js";
+import { detectPlatformTarget } from "../../src/heuristics.js";
+import type { RepoInfo } from "../../src/types.js";
+
+const testDir = path.join(process.cwd(), "tmp-test-platforms");
+
+const repo: RepoInfo = {
+  packageJsonPath: path.join(testDir, "package.json"),
+  lockfiles: { bunLock: false, bunLockb: false, npmLock: true, yarnLock: false, pnpmLock: false },
+  scripts: {},
+  dependencies: {},
+  devDependencies: {},
+  optionalDependencies: {},
+  hasWorkspaces: false
+};
+
+beforeEach(async () => {
+  await fs.mkdir(testDir, { recursive: true });
+});
+
+afterEach(async () => {
+  await fs.rm(testDir, { recursive: true, force: true });
+});
+
+test("resolvePlatformTarget: regular Node package has no platform", async () => {
+  expect(await resolvePlatformTarget(testDir, { dependencies: { express: "^4.18.0" } })).toBeNull();
+  expect(detectPlatformTarget(repo, null)).toEqual([]);
+});
+
+test("resolvePlatformTarget: React Native from dependencies and metro config", async () => {
+  await fs.writeFile(path.join(testDir, "metro.config.js"), "module.exports = {};\n");
+  const target = await resolvePlatformTarget(testDir, { dependencies: { "react-native": "0.74.0", react: "18.2.0" } });
+
+  expect(target).toEqual({
+    platform: "react-native",
+    label: "React Native",
+    evidence: ["dependency react-native@0.74.0", "config file metro.config.js"]
+  });
+});
+
+test("resolvePlatformTarget: VS Code extension needs engines.vscode", async () => {
+  expect(await resolvePlatformTarget(testDir, { devDependencies: { "@types/vscode": "^1.80.0" } })).toBeNull();
+
+  const target = await resolvePlatformTarget(testDir, { engines: { vscode: "^1.80.0" }, devDependencies: { "@types/vscode": "^1.80.0" } });
+  expect(target?.platform).toBe("vscode-extension");
+  expect(target?.evidence).toEqual(["engines.vscode: ^1.80.0", "dependency @types/vscode@^1.80.0"]);
+});
+
+test("detectPlatformTarget: green finding whose details do not start with a package name", () => {
+  const [finding] = detectPlatformTarget(repo, { platform: "electron", label: "Electron", evidence: ["dependency electron@^28.0.0"] });
+
+  expect(finding!.id).toBe("runtime.platform_target");
+  expect(finding!.severity).toBe("green");
+  expect(finding!.title).toBe("Package targets Electron; migrating it to Bun is not applicable");
+  expect(finding!.details).toEqual(["Evidence: dependency electron@^28.0.0"]);
+});
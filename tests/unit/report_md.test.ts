@@ -1,6 +1,6 @@
 import { test, expect } from "bun:test";
-import { renderMarkdown } from "../../src/report_md.js";
-import type { AnalysisResult } from "../../src/types.js";
+import { renderDetailedReport, renderMarkdown } from "../../src/report_md.js";
+import type { AnalysisResult, OverallResult, PackageAnalysis } from "../../src/types.js";
 
 test("renderMarkdown: contains overall badge", () => {
   const r: AnalysisResult = {
@@ -22,3 +22,147 @@ test("renderMarkdown: contains overall badge", () => {
   const md = renderMarkdown(r);
   expect(md.includes("🟢 GREEN")).toBe(true);
 });
+
+test("renderDetailedReport: Replace with Bun built-ins section with usage counts", () => {
+  const lockfiles = { bunLock: true, bunLockb: false, npmLock: false, yarnLock: false, pnpmLock: false };
+  const pkg: PackageAnalysis = {
+    name: "api",
+    path: "/repo",
+    severity: "green",
+    summaryLines: [],
+    findings: [],
+    install: null,
+    test: null,
+    scripts: {},
+    dependencies: { ws: "^8.0.0", uuid: "^9.0.0", express: "^4.18.0" },
+    devDependencies: {},
+    optionalDependencies: {},
+    lockfiles,
+    packageUsage: {
+      totalPackages: 3,
+      analyzedFiles: 4,
+      usageByPackage: new Map([["ws", { packageName: "ws", fileCount: 2, filePaths: ["src/a.ts", "src/b.ts"] }]])
+    }
+  };
+  const r: OverallResult = {
+    severity: "green",
+    summaryLines: [],
+    findings: [],
+    install: null,
+    test: null,
+    repo: {
+      packageJsonPath: "/repo/package.json",
+      hasWorkspaces: false,
+      lockfiles,
+      scripts: {},
+      dependencies: pkg.dependencies,
+      devDependencies: {},
+      optionalDependencies: {}
+    },
+    packages: [pkg]
+  };
+
+  const md = renderDetailedReport(r);
+  expect(md).toContain("## Replace with Bun built-ins");
+  expect(md).toContain("### uuid → crypto.randomUUID");
+  expect(md).toContain("### ws → Bun.serve websockets");
+  expect(md).toContain("- **Imported in:** api (2 files)");
+  expect(md).toContain("- **Imported in:** api (0 files)");
+  // One list item per field, so Markdown does not merge them into a paragraph
+  expect(md).toMatch(/- \*\*Effort:\*\* [^\n]+\n- \*\*Imported in:\*\* [^\n]+\n- \*\*Port:\*\* /);
+  expect(md).not.toContain("### express →");
+});
+
+test("renderMarkdown: Frameworks section with verdict and checks", () => {
+  const lockfiles = { bunLock: true, bunLockb: false, npmLock: false, yarnLock: false, pnpmLock: false };
+  const pkg: PackageAnalysis = {
+    name: "web",
+    path: "/repo",
+    severity: "yellow",
+    summaryLines: [],
+    findings: [],
+    install: null,
+    test: null,
+    scripts: { dev: "next dev" },
+    dependencies: { next: "14.2.0" },
+    devDependencies: {},
+    optionalDependencies: {},
+    lockfiles,
+    frameworks: [
+      {
+        framework: "nextjs",
+        label: "Next.js",
+        version: "14.2.0",
+        configFiles: ["next.config.mjs"],
+        severity: "yellow",
+        verdict: "Next.js runs on Bun with changes (next dev)",
+        checks: [{ check: "next dev", severity: "yellow", detail: "runs under Node", sites: [] }]
+      }
+    ]
+  };
+  const r: OverallResult = {
+    severity: "yellow",
+    summaryLines: [],
+    findings: [],
+    install: null,
+    test: null,
+    repo: {
+      packageJsonPath: "/repo/package.json",
+      hasWorkspaces: false,
+      lockfiles,
+      scripts: pkg.scripts,
+      dependencies: pkg.dependencies,
+      devDependencies: {},
+      optionalDependencies: {}
+    },
+    packages: [pkg]
+  };
+
+  const md = renderMarkdown(r);
+  expect(md).toContain("## Frameworks");
+  expect(md).toContain("### Next.js@14.2.0");
+  expect(md).toContain("**Verdict:** 🟡 YELLOW Next.js runs on Bun with changes (next dev)");
+  expect(md).toContain("**Config:** next.config.mjs");
+  expect(md).toContain("- 🟡 YELLOW **next dev**: runs under Node");
+});
+
+test("renderMarkdown: platform-target root package is reported as not applicable", () => {
+  const lockfiles = { bunLock: false, bunLockb: false, npmLock: true, yarnLock: false, pnpmLock: false };
+  const pkg: PackageAnalysis = {
+    name: "desktop",
+    path: "/repo",
+    severity: "red",
+    summaryLines: [],
+    findings: [],
+    install: null,
+    test: null,
+    scripts: {},
+    dependencies: {},
+    devDependencies: { electron: "^28.0.0" },
+    optionalDependencies: {},
+    lockfiles,
+    notApplicable: { platform: "electron", label: "Electron", evidence: ["dependency electron@^28.0.0"] }
+  };
+  const r: OverallResult = {
+    severity: "green",
+    summaryLines: [],
+    findings: [{ id: "deps.native_addons", title: "Native addons", severity: "red", details: [], hints: [] }],
+    install: null,
+    test: null,
+    repo: {
+      packageJsonPath: "/repo/package.json",
+      hasWorkspaces: false,
+      lockfiles,
+      scripts: {},
+      dependencies: {},
+      devDependencies: pkg.devDependencies,
+      optionalDependencies: {}
+    },
+    packages: [pkg]
+  };
+
+  const md = renderMarkdown(r);
+  expect(md).toContain("⚪ Not applicable: this repository targets Electron, which runs on its own JavaScript runtime");
+  expect(md).toContain("- Platform: Electron (not applicable, excluded from the overall verdict)");
+  expect(md).not.toContain("Not ready for Bun migration");
+});
@@ -1,7 +1,8 @@
 // File: tests/unit/sarif.test.ts
 import { describe, expect, test } from "bun:test";
 import { renderSarif } from "../../src/sarif.js";
-import type { OverallResult } from "../../src/types.js";
+import { generateCISummary } from "../../src/ci_summary.js";
+import type { OverallResult, PackageAnalysis } from "../../src/types.js";
 
 describe("SARIF generator", () => {
   const createMockResult = (overrides?: Partial<OverallResult>): OverallResult => ({
@@ -227,4 +228,40 @@ describe("SARIF generator", () => {
     const json = JSON.stringify(JSON.parse(sarif), null, 2);
     expect(json).toBeDefined();
   });
+
+  test("records the target Bun version in run properties", () => {
+    const withVersion = renderSarif(createMockResult({ bunVersion: { version: "1.1.30", source: "option" } }));
+    expect(withVersion.runs[0]?.properties).toEqual({ bunVersion: "1.1.30", bunVersionSource: "option" });
+
+    const withoutVersion = renderSarif(createMockResult({ bunVersion: null }));
+    expect(withoutVersion.runs[0]?.properties).toBeUndefined();
+  });
+  test("skips not applicable packages, and root findings when the root is one", () => {
+    const pkg = (name: string, dir: string, notApplicable: boolean): PackageAnalysis => ({
+      name,
+      path: dir,
+      severity: "red",
+      summaryLines: [],
+      findings: [{ id: `${name}.finding`, severity: "red", title: `${name} finding`, details: [], hints: [`Fix ${name}`] }],
+      install: null,
+      test: null,
+      scripts: {},
+      dependencies: {},
+      devDependencies: {},
+      optionalDependencies: {},
+      lockfiles: { bunLock: true, bunLockb: false, npmLock: false, yarnLock: false, pnpmLock: false },
+      ...(notApplicable ? { notApplicable: { platform: "electron" as const, label: "Electron", evidence: ["dependency electron@^28.0.0"] } } : {})
+    });
+    const result = createMockResult({
+      severity: "red",
+      packages: [pkg("desktop", "/repo", true), pkg("api", "/repo/packages/api", false)]
+    });
+
+    const sarif = renderSarif(result);
+    expect(sarif.runs[0]?.results.map((r) => r.ruleId)).toEqual(["api.finding"]);
+
+    const summary = generateCISummary(result, undefined);
+    expect(summary.topFindings).toEqual([]);
+    expect(summary.nextActions).toEqual([]);
+  });
 });
@@ -0,0 +1,32 @@
+import { test, expect } from "bun:test";
+import { compareVersions, isValidRange, parseVersion, satisfies } from "../../src/semver.js";
+
+test("parseVersion: loose versions", () => {
+  expect(parseVersion("v18")).toEqual({ major: 18, minor: 0, patch: 0, prerelease: [] });
+  expect(parseVersion("1.2.3-beta.1")).toEqual({ major: 1, minor: 2, patch: 3, prerelease: ["beta", "1"] });
+  expect(parseVersion("lts/*")).toBeNull();
+});
+
+test("compareVersions: prerelease sorts before release", () => {
+  const cmp = (a: string, b: string) => Math.sign(compareVersions(parseVersion(a)!, parseVersion(b)!));
+  expect(cmp("1.2.3-alpha", "1.2.3")).toBe(-1);
+  expect(cmp("1.10.0", "1.9.9")).toBe(1);
+  expect(cmp("1.2.3-alpha.2", "1.2.3-alpha.10")).toBe(-1);
+});
+
+test("satisfies: caret, tilde, x-ranges, hyphen and unions", () => {
+  expect(satisfies("22.6.0", ">=18")).toBe(true);
+  expect(satisfies("22.6.0", "^18.17.0 || ^20.3.0")).toBe(false);
+  expect(satisfies("20.11.1", "^18.17.0 || ^20.3.0")).toBe(true);
+  expect(satisfies("22.6.0", ">=16 <21")).toBe(false);
+  expect(satisfies("18.2.0", "~18.1")).toBe(false);
+  expect(satisfies("0.2.9", "^0.2.3")).toBe(true);
+  expect(satisfies("0.3.0", "^0.2.3")).toBe(false);
+  expect(satisfies("20.0.0", "16 - 20")).toBe(true);
+  expect(satisfies("21.0.0", "16 - 20")).toBe(false);
+  expect(satisfies("18.5.0", "18.x")).toBe(true);
+  expect(satisfies("1.2.0", "*")).toBe(true);
+  expect(satisfies("22.6.0", "<= 22")).toBe(true);
+  expect(satisfies("22.6.0", "not a range")).toBeNull();
+  expect(isValidRange(">= 18.0.0")).toBe(true);
+});
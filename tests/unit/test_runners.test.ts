@@ -0,0 +1,118 @@
+import { test, expect, beforeEach, afterEach } from "bun:test";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { profileTestRunners } from "../../src/test_runners.js";
+import { detectRuntimeApiRisks, detectTestRunners } from "../../src/heuristics.js";
+import type { RepoInfo } from "../../src/types.js";
+
+const testDir = path.join(process.cwd(), "tmp-test-test-runners");
+
+const repoWith = (devDependencies: Record<string, string>): RepoInfo => ({
+  packageJsonPath: path.join(testDir, "package.json"),
+  lockfiles: { bunLock: false, bunLockb: false, npmLock: true, yarnLock: false, pnpmLock: false },
+  scripts: {},
+  dependencies: {},
+  devDependencies,
+  optionalDependencies: {},
+  hasWorkspaces: false
+});
+
+const writeFile = async (rel: string, content: string): Promise<void> => {
+  await fs.mkdir(path.dirname(path.join(testDir, rel)), { recursive: true });
+  await fs.writeFile(path.join(testDir, rel), content);
+};
+
+beforeEach(async () => {
+  await fs.mkdir(testDir, { recursive: true });
+});
+
+afterEach(async () => {
+  await fs.rm(testDir, { recursive: true, force: true });
+});
+
+test("profileTestRunners: no runner, no profile", async () => {
+  expect(await profileTestRunners(testDir, { devDependencies: { typescript: "^5.0.0" } })).toEqual([]);
+});
+
+test("profileTestRunners: vitest config and vi.* usage", async () => {
+  await writeFile(
+    "vitest.config.ts",
+    "export default defineConfig({ test: { environment: 'jsdom', setupFiles: ['./setup.ts'], globals: true } });\n"
+  );
+  await writeFile(
+    "src/api.test.ts",
+    [
+      "import { get } from './api';",
+      "vi.mock('./api', () => ({ get: vi.fn() }));",
+      "vi.mock('./logger');",
+      "const mod = await vi.importActual('./api');",
+      "test('x', () => { expect(get).not.toHaveBeenCalled(); });"
+    ].join("\n")
+  );
+  await writeFile("src/sum.ts", "export const sum = 1;\nif (import.meta.vitest) {}\n");
+
+  const [profile] = await profileTestRunners(testDir, { devDependencies: { vitest: "^1.6.0" } });
+  const level = (item: string) => profile?.items.find((i) => i.item === item)?.level;
+
+  expect(profile?.runner).toBe("vitest");
+  expect(profile?.configFiles).toEqual(["vitest.config.ts"]);
+  expect(profile?.testFiles).toBe(1);
+  expect(level("vitest.config.ts: environment jsdom")).toBe("shim");
+  expect(level("vitest.config.ts: setupFiles")).toBe("shim");
+  expect(level("vitest.config.ts: globals")).toBe("unchanged");
+  expect(level("vi.fn")).toBe("unchanged");
+  expect(level("vi.mock (hoisted)")).toBe("shim");
+  expect(level("vi.mock (automock)")).toBe("blocker");
+  expect(level("vi.importActual")).toBe("blocker");
+  expect(profile?.items.find((i) => i.item === "import.meta.vitest (in-source test)")?.sites).toEqual(["src/sum.ts:2"]);
+});
+
+test("profileTestRunners: mocha requires, tdd ui and spec naming", async () => {
+  await writeFile(".mocharc.yml", "require:\n  - ts-node/register\n  - ./test/setup.js\nui: tdd\n");
+  await writeFile("test/setup.js", "before(() => {});\n");
+  await writeFile("test/users.spec.ts", "suite('users', function () {\n  this.timeout(5000);\n});\n");
+
+  const [profile] = await profileTestRunners(testDir, { devDependencies: { mocha: "^10.0.0" } });
+  const item = (name: string) => profile?.items.find((i) => i.item === name);
+
+  expect(profile?.configFiles).toEqual([".mocharc.yml"]);
+  expect(item("--require ts-node/register")?.level).toBe("unchanged");
+  expect(item("--require ./test/setup.js")?.level).toBe("shim");
+  expect(item("ui tdd")?.level).toBe("shim");
+  expect(item("this.timeout")).toMatchObject({ level: "blocker", sites: ["test/users.spec.ts:2"] });
+  expect(item("spec files not named *.test.* / *.spec.*")?.sites).toEqual(["test/setup.js"]);
+});
+
+test("profileTestRunners: skips files of nested workspace packages", async () => {
+  await writeFile("src/a.test.ts", "test('a', () => { jest.fn(); });\n");
+  await writeFile("packages/b/package.json", "{}");
+  await writeFile("packages/b/src/b.test.ts", "jest.requireActual('x');\n");
+
+  const [profile] = await profileTestRunners(testDir, { devDependencies: { jest: "^29.0.0" } });
+
+  expect(profile?.testFiles).toBe(1);
+  expect(profile?.items.map((i) => i.level)).toEqual(["unchanged"]);
+});
+
+test("detectTestRunners: severity and detail lines", async () => {
+  await writeFile("src/a.test.ts", "test('a', () => { vi.fn(); vi.resetModules(); });\n");
+  const repo = repoWith({ vitest: "^1.6.0", jest: "^29.0.0" });
+  const profiles = await profileTestRunners(testDir, { devDependencies: repo.devDependencies });
+
+  const findings = detectTestRunners(repo, profiles);
+
+  expect(findings[0]?.id).toBe("runtime.test_runner");
+  expect(findings[0]?.severity).toBe("red");
+  expect(findings[0]?.details).toContain("vitest@^1.6.0 (no config file; 1 test files)");
+  expect(findings[0]?.details).toContain("  - unchanged: vi.fn");
+  expect(findings[0]?.details).toContain("  - blocks migration: vi.resetModules (src/a.test.ts:1) - bun test shares one module registry per file");
+
+  // Profiled runners are no longer reported as generic dev tools
+  expect(detectRuntimeApiRisks(repo, profiles).find((f) => f.id === "runtime.dev_tools")).toBeUndefined();
+  expect(detectTestRunners(repo, [])).toEqual([]);
+});
+
+test("profileTestRunners: runner without config or tests is not profiled", async () => {
+  await writeFile("src/index.ts", "export const a = 1;\n");
+  expect(await profileTestRunners(testDir, { devDependencies: { jest: "^29.0.0" } })).toEqual([]);
+});
@@ -0,0 +1,94 @@
+import { test, expect, beforeEach, afterEach } from "bun:test";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { collectToolchain, toolchainTarget } from "../../src/toolchain.js";
+import { detectRuntimeApiRisks, detectToolchain } from "../../src/heuristics.js";
+import type { RepoInfo } from "../../src/types.js";
+
+const testDir = path.join(process.cwd(), "tmp-test-toolchain");
+const target = { bun: "1.2.0", node: "22.6.0" };
+
+const baseRepo = (): RepoInfo => ({
+  packageJsonPath: path.join(testDir, "package.json"),
+  lockfiles: { bunLock: false, bunLockb: false, npmLock: true, yarnLock: false, pnpmLock: false },
+  scripts: {},
+  dependencies: {},
+  devDependencies: {},
+  optionalDependencies: {},
+  hasWorkspaces: false
+});
+
+beforeEach(async () => {
+  await fs.mkdir(path.join(testDir, "packages", "app"), { recursive: true });
+});
+
+afterEach(async () => {
+  await fs.rm(testDir, { recursive: true, force: true });
+});
+
+test("collectToolchain: packageManager, engines and volta", async () => {
+  const info = await collectToolchain(
+    { packageManager: "yarn@4.1.0+sha512.abc", engines: { node: "^18.17.0 || ^20.3.0", yarn: ">=4" }, volta: { node: "20.11.1", yarn: "4.1.0" } },
+    [testDir],
+    target
+  );
+  const entry = (field: string) => info.entries.find((e) => e.field === field);
+
+  expect(entry("packageManager")?.problem).toContain("corepack pins yarn");
+  expect(entry("engines.node")?.problem).toContain("excludes Node 22.6.0");
+  expect(entry("engines.yarn")?.problem).toContain("Bun does not satisfy engines.yarn");
+  expect(entry("volta.node")).toMatchObject({ problem: null, note: "pins Node 20.11.1; Bun reports Node 22.6.0, so version checks in code see a different Node" });
+  expect(entry("volta.yarn")?.problem).toContain("does not manage Bun");
+  expect(info.packageJson).toEqual({ packageManager: "bun@1.2.0", engines: { bun: ">=1.2.0" } });
+});
+
+test("collectToolchain: version files from the repo root and conflicts with engines.node", async () => {
+  await fs.writeFile(path.join(testDir, ".nvmrc"), "v16.20.0\n");
+  await fs.writeFile(path.join(testDir, ".tool-versions"), "nodejs 20.11.1\npnpm 8.15.0\n");
+
+  const info = await collectToolchain({ engines: { node: ">=18" } }, [path.join(testDir, "packages", "app"), testDir], target);
+
+  expect(info.entries.map((e) => [e.file, e.field, e.spec])).toEqual([
+    ["packages/app/package.json", "engines.node", ">=18"],
+    [".nvmrc", "node", "v16.20.0"],
+    [".tool-versions", "node", "20.11.1"],
+    [".tool-versions", "pnpm", "8.15.0"]
+  ]);
+  expect(info.entries[1]?.problem).toBe('does not satisfy engines.node ">=18"');
+  expect(info.entries[2]?.problem).toBeNull();
+  expect(info.versionFiles).toEqual([".tool-versions: bun 1.2.0"]);
+});
+
+test("detectToolchain: green when Bun is already pinned", async () => {
+  await fs.writeFile(path.join(testDir, ".bun-version"), "1.2.3\n");
+  const info = await collectToolchain({ packageManager: "bun@1.2.3", engines: { node: ">=18", bun: ">=1.2" } }, [testDir], target);
+
+  const findings = detectToolchain(baseRepo(), info);
+
+  expect(findings[0]?.id).toBe("runtime.toolchain");
+  expect(findings[0]?.severity).toBe("green");
+  expect(findings[0]?.details).toEqual([
+    "package.json packageManager: bun@1.2.3 - ok",
+    "package.json engines.node: >=18 - ok",
+    "package.json engines.bun: >=1.2 - ok",
+    ".bun-version bun: 1.2.3 - ok"
+  ]);
+  expect(detectToolchain(baseRepo(), { entries: [], packageJson: {}, versionFiles: [] })).toEqual([]);
+});
+
+test("toolchainTarget: the Node version follows the target Bun", async () => {
+  expect(toolchainTarget("1.2.0")).toEqual({ bun: "1.2.0", node: "22.6.0" });
+  expect(toolchainTarget("v1.1.30")).toEqual({ bun: "1.1.30", node: "21.6.0" });
+  expect(toolchainTarget("1.4.3")).toEqual({ bun: "1.4.3", node: "26.3.0" });
+
+  const info = await collectToolchain({ engines: { node: ">=14 <23" } }, [testDir], toolchainTarget("1.2.18"));
+  expect(info.entries[0]?.problem).toContain("excludes Node 24.3.0");
+});
+
+test("detectRuntimeApiRisks: engines.node is left to the toolchain check once collected", async () => {
+  const repo = { ...baseRepo(), packageJson: { engines: { node: ">=14" } } };
+  const info = await collectToolchain(repo.packageJson, [testDir], target);
+
+  expect(detectRuntimeApiRisks(repo).some((f) => f.id === "runtime.node_version")).toBe(true);
+  expect(detectRuntimeApiRisks(repo, null, undefined, info).some((f) => f.id === "runtime.node_version")).toBe(false);
+});
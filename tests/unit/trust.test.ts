@@ -0,0 +1,72 @@
+import { test, expect, beforeEach, afterEach } from "bun:test";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { collectTrustCandidates, renderTrustReport, writeTrustedDependencies } from "../../src/trust.js";
+
+const testDir = path.join(process.cwd(), "tmp-test-trust");
+
+const writeJson = async (rel: string, data: unknown, indent: number | string = 2): Promise<void> => {
+  const file = path.join(testDir, rel);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(data, null, indent) + "\n");
+};
+
+beforeEach(async () => {
+  await fs.mkdir(testDir, { recursive: true });
+  await writeJson("package.json", {
+    name: "app",
+    dependencies: { esbuild: "^0.20.0", bcrypt: "^5.1.0", lodash: "^4.17.21" },
+    trustedDependencies: ["esbuild"]
+  }, 4);
+  await writeJson("package-lock.json", {
+    lockfileVersion: 3,
+    packages: {
+      "": { name: "app" },
+      "node_modules/esbuild": { version: "0.20.0", hasInstallScript: true },
+      "node_modules/bcrypt": { version: "5.1.0", hasInstallScript: true },
+      "node_modules/core-js": { version: "3.36.0", hasInstallScript: true },
+      "node_modules/sharp": { version: "0.33.0", hasInstallScript: true },
+      "node_modules/lodash": { version: "4.17.21" }
+    }
+  });
+  await writeJson("node_modules/bcrypt/package.json", { name: "bcrypt", version: "5.1.0", scripts: { install: "node-pre-gyp install --fallback-to-build", test: "jest" } });
+  await writeJson("node_modules/core-js/package.json", { name: "core-js", version: "3.36.0" });
+});
+
+afterEach(async () => {
+  await fs.rm(testDir, { recursive: true, force: true });
+});
+
+test("collectTrustCandidates: lists lockfile install scripts not yet trusted", async () => {
+  const report = await collectTrustCandidates({ repoPath: testDir, runInstall: false });
+
+  expect(report.existing).toEqual(["esbuild"]);
+  expect(report.installSkipReason).toBe("--no-install");
+  // core-js is installed but has no lifecycle scripts left, so it is dropped
+  expect(report.candidates.map((c) => c.name)).toEqual(["bcrypt", "sharp"]);
+  expect(report.candidates[0]?.scripts).toEqual({ install: "node-pre-gyp install --fallback-to-build" });
+  expect(report.candidates[0]?.sources).toEqual(["package-lock.json"]);
+  // sharp is not installed: its script cannot be confirmed, so it is listed for review only
+  expect(report.candidates.map((c) => c.propose)).toEqual([true, false]);
+  expect(report.proposed).toEqual(["bcrypt", "esbuild"]);
+});
+
+test("renderTrustReport: includes scripts and a paste-ready JSON block", async () => {
+  const report = await collectTrustCandidates({ repoPath: testDir, runInstall: false });
+  const text = renderTrustReport(report);
+
+  expect(text).toContain("### bcrypt@5.1.0");
+  expect(text).toContain("- install: node-pre-gyp install --fallback-to-build");
+  expect(text).toContain("## Needs review, not proposed (1)\n");
+  expect(text).toContain("### sharp@0.33.0\n- Found by: package-lock.json\n- Scripts: not available (package is not installed in node_modules)");
+  expect(text).toContain('"trustedDependencies": [\n    "bcrypt",\n    "esbuild"\n  ]');
+});
+
+test("writeTrustedDependencies: updates package.json and keeps indentation", async () => {
+  const report = await collectTrustCandidates({ repoPath: testDir, runInstall: false });
+  await writeTrustedDependencies(report);
+
+  const raw = await fs.readFile(path.join(testDir, "package.json"), "utf8");
+  expect(raw).toContain('    "trustedDependencies": [\n        "bcrypt",\n        "esbuild"\n    ]');
+  expect(JSON.parse(raw).dependencies.lodash).toBe("^4.17.21");
+});
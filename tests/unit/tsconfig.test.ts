@@ -0,0 +1,90 @@
+import { test, expect, beforeEach, afterEach } from "bun:test";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { readTsconfig } from "../../src/tsconfig.js";
+import { detectTsconfig } from "../../src/heuristics.js";
+import type { RepoInfo } from "../../src/types.js";
+
+const testDir = path.join(process.cwd(), "tmp-test-tsconfig");
+const appDir = path.join(testDir, "packages", "app");
+
+const baseRepo = (): RepoInfo => ({
+  packageJsonPath: path.join(appDir, "package.json"),
+  lockfiles: { bunLock: false, bunLockb: false, npmLock: true, yarnLock: false, pnpmLock: false },
+  scripts: {},
+  dependencies: {},
+  devDependencies: {},
+  optionalDependencies: {},
+  hasWorkspaces: false
+});
+
+const writeFile = async (rel: string, content: string): Promise<void> => {
+  await fs.mkdir(path.dirname(path.join(testDir, rel)), { recursive: true });
+  await fs.writeFile(path.join(testDir, rel), content);
+};
+
+beforeEach(async () => {
+  await fs.mkdir(appDir, { recursive: true });
+});
+
+afterEach(async () => {
+  await fs.rm(testDir, { recursive: true, force: true });
+});
+
+test("readTsconfig: follows relative and package extends with JSONC syntax", async () => {
+  await writeFile(
+    "node_modules/@tsconfig/node20/tsconfig.json",
+    JSON.stringify({ compilerOptions: { module: "node16", moduleResolution: "node16", target: "es2022" } })
+  );
+  await writeFile(
+    "tsconfig.base.json",
+    [
+      "{",
+      "  // shared settings",
+      '  "extends": "@tsconfig/node20/tsconfig.json",',
+      '  "compilerOptions": { "baseUrl": ".", "paths": { "@/*": ["src/*"] }, "experimentalDecorators": true, },',
+      "}"
+    ].join("\n")
+  );
+  await writeFile(
+    "packages/app/tsconfig.json",
+    JSON.stringify({ extends: "../../tsconfig.base", compilerOptions: { emitDecoratorMetadata: true, isolatedModules: true }, references: [{ path: "../lib" }] })
+  );
+
+  const info = await readTsconfig([appDir, testDir]);
+  const setting = (option: string) => info?.settings.find((s) => s.option === option);
+
+  expect(info?.file).toBe("packages/app/tsconfig.json");
+  expect(info?.chain).toEqual(["tsconfig.base.json", "node_modules/@tsconfig/node20/tsconfig.json"]);
+  expect(info?.unresolved).toEqual([]);
+  expect(info?.references).toEqual(["../lib"]);
+  expect(setting("paths")).toMatchObject({ level: "honored", file: "tsconfig.base.json", value: '{"@/*":["src/*"]}' });
+  expect(setting("moduleResolution")).toMatchObject({ level: "ignored", file: "node_modules/@tsconfig/node20/tsconfig.json" });
+  expect(setting("emitDecoratorMetadata")).toMatchObject({ level: "different", attention: true });
+  expect(setting("isolatedModules")?.level).toBe("ignored");
+});
+
+test("readTsconfig: falls back to the repo root and reports broken extends", async () => {
+  await writeFile("tsconfig.json", JSON.stringify({ extends: "./missing.json", compilerOptions: { jsx: "preserve" } }));
+
+  const info = await readTsconfig([appDir, testDir]);
+
+  expect(info?.file).toBe("tsconfig.json");
+  expect(info?.unresolved).toEqual(["./missing.json (extended by tsconfig.json)"]);
+  expect(info?.settings.find((s) => s.option === "jsx")?.level).toBe("different");
+  expect(info?.settings.find((s) => s.option === "isolatedModules")?.value).toBe("(not set)");
+  expect(await readTsconfig([path.join(testDir, "nowhere")])).toBeNull();
+});
+
+test("detectTsconfig: severity and detail lines", async () => {
+  await writeFile("packages/app/tsconfig.json", JSON.stringify({ compilerOptions: { experimentalDecorators: true, emitDecoratorMetadata: true, verbatimModuleSyntax: true } }));
+
+  const findings = detectTsconfig(baseRepo(), await readTsconfig([appDir, testDir]));
+
+  expect(findings[0]?.id).toBe("runtime.tsconfig");
+  expect(findings[0]?.severity).toBe("yellow");
+  expect(findings[0]?.details[0]).toBe("packages/app/tsconfig.json");
+  expect(findings[0]?.details).toContain("  - honored: experimentalDecorators: true - legacy TypeScript decorators");
+  expect(findings[0]?.details.some((d) => d.startsWith("  - handled differently: emitDecoratorMetadata: true"))).toBe(true);
+  expect(detectTsconfig(baseRepo(), null)).toEqual([]);
+});
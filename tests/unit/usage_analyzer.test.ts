@@ -3,7 +3,7 @@ import { promises as fs } from "node:fs";
 import path from "node:path";
 import type { PackageUsage, PackageUsageStats } from "../../src/types.js";
 import type { PackageJson } from "../../src/internal_types.js";
-import { extractPackageNames } from "../../src/usage_analyzer.js";
+import { extractGlobalImports, extractPackageNames, packageNameOf } from "../../src/usage_analyzer.js";
 
 // Create a temporary directory for test files
 const testDir = "./tmp-test-usage-analyzer";
@@ -384,3 +384,36 @@ test("analyzePackageUsageAsync: ignores hidden directories", async () => {
   // Should only analyze src/app.ts, not .hidden/app.ts
   expect(result.analyzedFiles).toBe(1);
 });
+
+test("packageNameOf: subpaths map to their package", () => {
+  expect(packageNameOf("lodash/fp")).toBe("lodash");
+  expect(packageNameOf("@scope/pkg/sub/path")).toBe("@scope/pkg");
+  expect(packageNameOf("express")).toBe("express");
+});
+
+test("extractGlobalImports: side-effect imports and chained setup calls", () => {
+  const content = [
+    "import 'isomorphic-fetch';",
+    "require('abortcontroller-polyfill/dist/polyfill-patch-fetch');",
+    "require('source-map-support').install();",
+    "import fetch from 'node-fetch';",
+    "const FormData = require('form-data');",
+    "require = require('esm')(module);"
+  ].join("\n");
+
+  expect(extractGlobalImports(content).sort()).toEqual(["abortcontroller-polyfill", "esm", "isomorphic-fetch", "source-map-support"]);
+});
+
+test("analyzePackageUsageAsync: subpath and side-effect imports count for the package", async () => {
+  const { analyzePackageUsageAsync } = await import("../../src/usage_analyzer.js");
+
+  await fs.mkdir(path.join(packagePath, "src"), { recursive: true });
+  await fs.writeFile(path.join(packagePath, "src", "index.ts"), "import 'source-map-support/register';\nimport map from 'lodash/map';\nimport fp from 'lodash/fp';\n");
+
+  const pkg: PackageJson = { name: "test-package", dependencies: { "source-map-support": "^0.5.21", lodash: "^4.17.21" } };
+  const result = await analyzePackageUsageAsync(pkg, packagePath, true);
+
+  expect(result.usageByPackage.get("lodash")?.fileCount).toBe(1);
+  expect(result.usageByPackage.get("lodash")?.globalImportPaths).toBeUndefined();
+  expect(result.usageByPackage.get("source-map-support")?.globalImportPaths?.map((p) => p.replace(/\\/g, "/"))).toEqual(["src/index.ts"]);
+});